@@ -0,0 +1,71 @@
+import React from 'react';
+import { pick, type Language } from '../i18n';
+import { DEFAULT_OPENING_HEIGHT_M, OPENING_TYPES, openingTypeLabel, type FloorplanOpening, type FloorplanOpeningType } from './floorplanOpenings';
+
+interface Props {
+  language: Language;
+  opening: FloorplanOpening;
+  rooms: Array<{ id: string; nameJa: string; nameEn: string }>;
+  onChange: (patch: Partial<FloorplanOpening>) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+const OUTSIDE = '';
+
+export default function FloorplanOpeningEditor({ language, opening, rooms, onChange, onRemove, onClose }: Props) {
+  const t = (ja: string, en: string) => pick(language, ja, en);
+  const roomName = (room: Props['rooms'][number]) => language === 'ja' ? room.nameJa : room.nameEn;
+  const [firstRoomId, secondRoomId = OUTSIDE] = opening.roomIds;
+
+  const changeType = (type: FloorplanOpeningType) => onChange({
+    type,
+    heightM: opening.heightM === DEFAULT_OPENING_HEIGHT_M[opening.type] ? DEFAULT_OPENING_HEIGHT_M[type] : opening.heightM,
+    hinge: type === 'door' ? opening.hinge || 'start' : undefined,
+    swingRoomId: type === 'door' ? opening.swingRoomId ?? firstRoomId : undefined,
+  });
+
+  const changeRooms = (first: string, second: string) => {
+    const roomIds = [...new Set([first, second].filter(Boolean))];
+    if (!roomIds.length) return;
+    onChange({ roomIds, swingRoomId: opening.swingRoomId && !roomIds.includes(opening.swingRoomId) ? roomIds[0] : opening.swingRoomId });
+  };
+
+  const measurement = (value: string, min: number, max: number) => {
+    const number = Number(value);
+    return Number.isFinite(number) && number >= min && number <= max ? Math.round(number * 100) / 100 : undefined;
+  };
+
+  return <div className="floorplan-opening-editor" onKeyDown={(event) => { if (event.key === 'Escape') onClose(); }}>
+    <label><span>{t('種類', 'Type')}</span><select value={opening.type} onChange={(event) => changeType(event.target.value as FloorplanOpeningType)}>
+      {OPENING_TYPES.map((type) => <option key={type} value={type}>{openingTypeLabel(type)[language]}</option>)}
+    </select></label>
+    <label><span>{t('向き', 'Wall')}</span><select value={opening.orientation} onChange={(event) => onChange({ orientation: event.target.value as FloorplanOpening['orientation'] })}>
+      <option value="horizontal">{t('横の壁', 'Horizontal')}</option>
+      <option value="vertical">{t('縦の壁', 'Vertical')}</option>
+    </select></label>
+    <label><span>{t('幅', 'Width')}</span><div><input type="number" min="0.3" max="6" step="0.05" value={opening.widthM} onChange={(event) => { const widthM = measurement(event.target.value, 0.3, 6); if (widthM) onChange({ widthM }); }} /><em>m</em></div></label>
+    <label><span>{t('高さ', 'Height')}</span><div><input type="number" min="0.3" max="2.4" step="0.05" value={opening.heightM} onChange={(event) => { const heightM = measurement(event.target.value, 0.3, 2.4); if (heightM) onChange({ heightM }); }} /><em>m</em></div></label>
+    <label><span>{t('部屋', 'Room')}</span><select value={firstRoomId} onChange={(event) => changeRooms(event.target.value, secondRoomId)}>
+      {rooms.map((room) => <option key={room.id} value={room.id}>{roomName(room)}</option>)}
+    </select></label>
+    <label><span>{t('反対側', 'Other side')}</span><select value={secondRoomId} onChange={(event) => changeRooms(firstRoomId, event.target.value)}>
+      <option value={OUTSIDE}>{t('屋外・対象外', 'Outside / not listed')}</option>
+      {rooms.filter((room) => room.id !== firstRoomId).map((room) => <option key={room.id} value={room.id}>{roomName(room)}</option>)}
+    </select></label>
+    {opening.type === 'door' && <>
+      <label><span>{t('吊元', 'Hinge')}</span><select value={opening.hinge || 'start'} onChange={(event) => onChange({ hinge: event.target.value as 'start' | 'end' })}>
+        <option value="start">{opening.orientation === 'horizontal' ? t('左側', 'Left jamb') : t('上側', 'Top jamb')}</option>
+        <option value="end">{opening.orientation === 'horizontal' ? t('右側', 'Right jamb') : t('下側', 'Bottom jamb')}</option>
+      </select></label>
+      <label><span>{t('開く方向', 'Opens into')}</span><select value={opening.swingRoomId || OUTSIDE} onChange={(event) => onChange({ swingRoomId: event.target.value || undefined })}>
+        {opening.roomIds.map((id) => rooms.find((room) => room.id === id)).filter(Boolean).map((room) => <option key={room!.id} value={room!.id}>{roomName(room!)}</option>)}
+        {opening.roomIds.length < 2 && <option value={OUTSIDE}>{t('屋外', 'Outside')}</option>}
+      </select></label>
+    </>}
+    <div className="floorplan-opening-editor-actions">
+      <button className="secondary" onClick={onRemove}>{t('削除', 'Delete')}</button>
+      <button onClick={onClose}>{t('完了', 'Done')}</button>
+    </div>
+  </div>;
+}
@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { pick, type Language } from '../i18n';
+import { MAX_PDF_RASTER_EDGE, PDF_DPI_OPTIONS, pdfRasterSize, readPdfPage, renderPdfThumbnail, type PdfPageInfo } from './floorplanPdf';
+
+interface Props {
+  language: Language;
+  fileName: string;
+  pdf: PDFDocumentProxy;
+  busy: boolean;
+  onConfirm: (page: PdfPageInfo, dpi: number, scaleDenominator?: number) => void;
+  onCancel: () => void;
+}
+
+const DEFAULT_DPI = 200;
+
+export default function FloorplanPdfPicker({ language, fileName, pdf, busy, onConfirm, onCancel }: Props) {
+  const t = (ja: string, en: string) => pick(language, ja, en);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [page, setPage] = useState<PdfPageInfo>();
+  const [thumbnail, setThumbnail] = useState<string>();
+  const [dpi, setDpi] = useState(DEFAULT_DPI);
+  const [scaleText, setScaleText] = useState('');
+  const [pageError, setPageError] = useState<string>();
+
+  useEffect(() => {
+    let cancelled = false;
+    setPage(undefined);
+    setThumbnail(undefined);
+    setPageError(undefined);
+    void readPdfPage(pdf, pageNumber).then(async (info) => {
+      if (cancelled) return;
+      setPage(info);
+      setScaleText(info.declaredScale ? String(info.declaredScale) : '');
+      const image = await renderPdfThumbnail(pdf, info);
+      if (!cancelled) setThumbnail(image);
+    }).catch(() => { if (!cancelled) setPageError(t('このページを読み込めませんでした。', 'This page could not be read.')); });
+    return () => { cancelled = true; };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pdf, pageNumber]);
+
+  const scaleDenominator = Number(scaleText);
+  const validScale = !scaleText || (Number.isFinite(scaleDenominator) && scaleDenominator >= 10 && scaleDenominator <= 1000);
+  const fits = (option: number) => !page || Math.max(pdfRasterSize(page, option).width, pdfRasterSize(page, option).height) <= MAX_PDF_RASTER_EDGE;
+  const size = page && pdfRasterSize(page, dpi);
+
+  return <div className="floorplan-pdf-picker" onClick={(event) => event.stopPropagation()} onKeyDown={(event) => { event.stopPropagation(); if (event.key === 'Escape') onCancel(); }}>
+    <div className="floorplan-pdf-preview">{thumbnail ? <img src={thumbnail} alt={t(`${pageNumber}ページ目`, `Page ${pageNumber}`)} /> : pageError ? <em>{pageError}</em> : <span className="studio-spinner" />}</div>
+    <div className="floorplan-import-settings">
+      <div><strong>{fileName}</strong><small>{t(`全${pdf.numPages}ページ`, `${pdf.numPages} page${pdf.numPages === 1 ? '' : 's'}`)}</small></div>
+      <label><span>{t('ページ', 'Page')}</span><select value={pageNumber} disabled={busy} onChange={(event) => setPageNumber(Number(event.target.value))}>
+        {Array.from({ length: pdf.numPages }, (_, index) => <option key={index} value={index + 1}>{index + 1}</option>)}
+      </select></label>
+      <label><span>{t('解像度', 'Resolution')}</span><select value={dpi} disabled={busy} onChange={(event) => setDpi(Number(event.target.value))}>
+        {PDF_DPI_OPTIONS.map((option) => <option key={option} value={option} disabled={!fits(option)}>{option} DPI</option>)}
+      </select></label>
+      <label><span>{t('図面縮尺', 'Drawing scale')}</span><div><em>1 :</em><input type="number" min="10" max="1000" step="1" value={scaleText} placeholder={t('不明', 'Unknown')} disabled={busy} onChange={(event) => setScaleText(event.target.value)} /></div></label>
+      <small>{page?.declaredScale ? t(`図面の表記から 1:${page.declaredScale} を読み取りました。用紙サイズどおりの縮尺であることを確認してください。`, `Read 1:${page.declaredScale} from the sheet. Check the PDF is at its printed paper size.`) : t('縮尺を入力すると、AIの推定ではなく図面の縮尺で面積を計算します。', 'Enter the drawing scale to compute areas from the document instead of the AI estimate.')}</small>
+      {size && <small>{size.width.toLocaleString()} × {size.height.toLocaleString()} px{fits(dpi) ? '' : ` · ${t('大きすぎます', 'too large')}`}</small>}
+      <div className="floorplan-import-actions">
+        <button className="secondary" disabled={busy} onClick={onCancel}>{t('キャンセル', 'Cancel')}</button>
+        <button disabled={busy || !page || !validScale || !fits(dpi)} onClick={() => page && onConfirm(page, dpi, scaleText ? scaleDenominator : undefined)}>{busy ? t('変換中…', 'Rasterizing…') : t('このページを使う', 'Use this page')}</button>
+      </div>
+    </div>
+  </div>;
+}
@@ -0,0 +1,47 @@
+import React, { useMemo, useState } from 'react';
+import { pick, type Language } from '../i18n';
+import { VECTOR_UNITS, vectorRoomLayers, type VectorDrawing } from './floorplanVector';
+
+interface Props {
+  language: Language;
+  fileName: string;
+  drawing: VectorDrawing;
+  busy: boolean;
+  onConfirm: (layers: string[], metersPerUnit: number) => void;
+  onCancel: () => void;
+}
+
+export default function FloorplanVectorImport({ language, fileName, drawing, busy, onConfirm, onCancel }: Props) {
+  const t = (ja: string, en: string) => pick(language, ja, en);
+  const layers = useMemo(() => vectorRoomLayers(drawing), [drawing]);
+  const [selectedLayers, setSelectedLayers] = useState(() => {
+    const likely = layers.filter((layer) => layer.likelyRooms).map((layer) => layer.layer);
+    return likely.length ? likely : layers.map((layer) => layer.layer);
+  });
+  const [metersPerUnit, setMetersPerUnit] = useState(drawing.metersPerUnit || VECTOR_UNITS[0].metersPerUnit);
+  const declaredUnit = VECTOR_UNITS.find((unit) => unit.metersPerUnit === drawing.metersPerUnit);
+  const outlineCount = layers.filter((layer) => selectedLayers.includes(layer.layer)).reduce((sum, layer) => sum + layer.count, 0);
+
+  const toggleLayer = (layer: string) => setSelectedLayers((current) => current.includes(layer) ? current.filter((item) => item !== layer) : [...current, layer]);
+
+  return <div className="floorplan-vector-import" onClick={(event) => event.stopPropagation()} onKeyDown={(event) => { event.stopPropagation(); if (event.key === 'Escape') onCancel(); }}>
+    <div className="floorplan-import-settings">
+      <div><strong>{fileName}</strong><small>{drawing.format.toUpperCase()} · {t(`閉じた外形 ${drawing.polygons.length}件 · 文字 ${drawing.texts.length}件`, `${drawing.polygons.length} closed outlines · ${drawing.texts.length} labels`)}</small></div>
+      <label><span>{t('図面単位', 'Drawing unit')}</span><select value={metersPerUnit} disabled={busy} onChange={(event) => setMetersPerUnit(Number(event.target.value))}>
+        {VECTOR_UNITS.map((unit) => <option key={unit.id} value={unit.metersPerUnit}>{t(unit.labelJa, unit.labelEn)}{unit === declaredUnit ? ` · ${t('ファイル指定', 'from file')}` : ''}</option>)}
+      </select></label>
+      <div>
+        <small>{t('部屋の外形として読み込むレイヤー', 'Layers to read as room outlines')}</small>
+        <ul className="floorplan-vector-layers">{layers.map((layer) => <li key={layer.layer}><label>
+          <input type="checkbox" checked={selectedLayers.includes(layer.layer)} disabled={busy} onChange={() => toggleLayer(layer.layer)} />
+          <span>{layer.layer}</span><small>{layer.count}</small>
+        </label></li>)}</ul>
+      </div>
+      <small>{t('別の外形を2つ以上囲む外形は建物外周として除外します。部屋名は外形内の文字から付けます。', 'Outlines enclosing two or more others are treated as the building envelope and skipped. Rooms are named from the labels inside them.')}</small>
+      <div className="floorplan-import-actions">
+        <button className="secondary" disabled={busy} onClick={onCancel}>{t('キャンセル', 'Cancel')}</button>
+        <button disabled={busy || !outlineCount} onClick={() => onConfirm(selectedLayers, metersPerUnit)}>{busy ? t('読み込み中…', 'Importing…') : t(`${outlineCount}件を読み込む`, `Import ${outlineCount} outlines`)}</button>
+      </div>
+    </div>
+  </div>;
+}
@@ -1,11 +1,26 @@
 import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 import { pick, type Language } from '../i18n';
 import { prepareImage, readJsonResponse, MAX_SINGLE_IMAGE_LENGTH } from './downscaleImage';
-import { clearStoredFloorplan } from './floorplanImageStore';
-import { countLineCrossings, hasSelfIntersection, polygonArea, splitPolygon, type FloorplanPoint } from './floorplanGeometry';
+import { clearStoredFloorplan, readStoredFloorplan, writeStoredFloorplan } from './floorplanImageStore';
+import { buildWallGraph, countLineCrossings, hasSelfIntersection, longestEdge, moveWallJunction, nearestBoundaryPoint, pointInPolygon, polygonArea, polygonsOverlap, splitPolygon, unionPolygons, type FloorplanPoint, type FloorplanWall, type WallJunction } from './floorplanGeometry';
+import { DEFAULT_OPENING_HEIGHT_M, netWallArea, openingSymbol, openingTypeLabel, type FloorplanOpening } from './floorplanOpenings';
+import FloorplanOpeningEditor from './FloorplanOpeningEditor';
+import { buildAdjacencyGraph, type AdjacencyWarning } from './floorplanAdjacency';
+import { fitPixelsPerMeter, referencePixelLength, type ScaleReference } from './floorplanScale';
+import { dominantAxis, orthogonalPoint, snapPoint, type VertexSnap } from './floorplanSnapping';
+import FloorplanPdfPicker from './FloorplanPdfPicker';
+import { MAX_PDF_BYTES, openPdf, pdfPixelsPerMeter, rasterizePdfPage, type PdfPageInfo, type PdfSource } from './floorplanPdf';
+import FloorplanVectorImport from './FloorplanVectorImport';
+import { buildVectorFloorplan, isVectorFile, MAX_VECTOR_BYTES, parseDxf, parseSvg, type VectorDrawing, type VectorSource } from './floorplanVector';
+import { exportRoomCenter, finishLayerName, floorplanDxf, type ExportRoom } from './floorplanExport';
+import { canvasToBlob, colorPlanScale, COLOR_PLAN_SIZES, floorPatternKind, MAX_COLOR_PLAN_EDGE, renderColorPlan, type ColorPlanSize } from './floorplanColorPlan';
+import { mergeTileResults, planTiles, TILE_EDGE_PX, TILED_ANALYSIS_MIN_EDGE, type TileResult } from './floorplanTiles';
 import { demoAiErrorMessage } from './demoAiErrors';
-import { downloadImageAsJpeg, imageFileSlug } from './downloadImage';
+import { activeRenderJob, cancelRenderJob, isPollingStopped, startRenderJob, waitForRenderJob, type RenderJob } from './renderJobs';
+import { downloadBlob, downloadImageAsJpeg, imageFileSlug } from './downloadImage';
 import { CATALOG } from './catalog';
+import { productReferencePayload } from './productReferences';
 
 export interface FloorplanRoom {
   id: string;
@@ -25,21 +40,50 @@ export interface FloorplanRoom {
 
 interface FloorplanAnalysis {
   rooms: FloorplanRoom[];
+  openings?: FloorplanOpening[];
+  walls?: FloorplanWall[];
+  dimensions?: ScaleReference[];
   detectedDoorCount: number;
   assumedDoorWidthM: number;
   confidence: 'low' | 'medium' | 'high';
   assumptionJa: string;
   assumptionEn: string;
-  scaleSource?: 'explicit-dimension' | 'door-width' | 'unknown';
+  scaleSource?: 'explicit-dimension' | 'door-width' | 'document-scale' | 'vector-units' | 'unknown';
   scaleEvidence?: string;
   validationIssues?: string[];
-  measurementStatus?: 'unverified-ai-estimate' | 'human-reviewed';
+  /** vector-import rooms were read from CAD geometry in real units rather than estimated. */
+  measurementStatus?: 'unverified-ai-estimate' | 'vector-import' | 'human-reviewed';
   model?: string;
   promptVersion?: string;
+  /** Number of overlapping tiles the plan was analyzed in, when it was too large for one image. */
+  tileCount?: number;
+  /** Page and DPI of a floorplan rasterized from a PDF, or the units and layers of an imported CAD file. */
+  source?: FloorplanSource;
+}
+
+type FloorplanSource = PdfSource | VectorSource;
+
+/** A successful `/api/analyze-floorplan` response. */
+interface FloorplanAnalysisResponse {
+  analysis: FloorplanAnalysis;
+  model?: string;
+  promptVersion?: string;
+}
+
+/** One reviewed room with its finishes, as handed to the proposal's room tabs. */
+export interface FloorplanRoomTakeoff {
+  room: FloorplanRoom;
+  floorMaterialId?: string;
+  wallMaterialId?: string;
 }
 
 interface Props {
   language: Language;
+  /** Scopes the workspace saved in this browser to one project. */
+  projectKey: string;
+  /** Floor areas of the rooms already linked to proposal tabs, by floorplan room id. */
+  linkedRooms: Record<string, number>;
+  onUseRooms: (rooms: FloorplanRoomTakeoff[]) => { created: number; updated: number; unlinked: number };
 }
 
 const ROOM_COLORS = ['#1f4cda', '#0f766e', '#b45309', '#7c3aed', '#be123c', '#0369a1', '#4d7c0f', '#9333ea'];
@@ -78,9 +122,10 @@ const MIN_ZOOM = 1;
 const MAX_ZOOM = 5;
 const FLOORPLAN_STORAGE_KEY = 'archix-floorplan-workspace-v1';
 const LEGACY_FLOORPLAN_IMAGE_KEY = 'archix-floorplan-image-v1';
+const FLOORPLAN_IMAGE_OPTIONS = { maxEdge: 3000, jpegQuality: 0.95, preservePng: true, maxLength: MAX_SINGLE_IMAGE_LENGTH };
 
 type Point = FloorplanPoint;
-type GeometryTool = 'draw-room' | 'split-room';
+type GeometryTool = 'draw-room' | 'split-room' | 'add-opening' | 'draw-wall' | 'insert-vertex' | 'delete-vertex' | 'merge-rooms';
 type FloorplanRenderStyle = 'watercolor' | 'soft-marker' | 'japanese-brochure' | '3d-render' | 'photorealistic' | 'photo-dollhouse';
 type FloorplanView = 'plan' | 'render';
 
@@ -115,15 +160,49 @@ const defaultWallMaterialId = (room: FloorplanRoom) => {
   return 'wall-vinyl-warm-white';
 };
 
-const isCriticalValidationIssue = (issue: string) => /missing|degenerate|self-intersect/i.test(issue);
-
-export default function FloorplanWorkspace({ language }: Props) {
+const isCriticalValidationIssue = (issue: string) => /missing|degenerate|self-intersect|unmeasured/i.test(issue);
+/** A tiled room joined from parts with no plan scale to measure the joined outline; recalculating it with a scale clears this. */
+const UNMEASURED_ISSUE = 'Area unmeasured: the outline was joined across tiles and no plan scale was found. Calibrate the scale.';
+const isUnmeasured = (room: FloorplanRoom) => Boolean(room.validationIssues?.includes(UNMEASURED_ISSUE));
+
+/** Openings snap to a room wall when placed or dragged within this distance, in plan percent. */
+const OPENING_SNAP_DISTANCE = 3;
+/** Wall ends closer than this, in plan percent, share a junction. */
+const WALL_SNAP_DISTANCE = 1.5;
+/** Snap reach for dragged corners, in screen pixels, so it stays the same at every zoom. */
+const SNAP_SCREEN_PX = 10;
+/** Widest wall gap, in metres, that merging two rooms closes. */
+const MERGE_GAP_M = 0.3;
+
+const polygonCenter = (polygon: Point[]) => ({
+  x: polygon.reduce((sum, point) => sum + point.x, 0) / polygon.length,
+  y: polygon.reduce((sum, point) => sum + point.y, 0) / polygon.length,
+});
+
+/** Pixels per metre fixed by the document itself: a declared PDF drawing scale or the units of a CAD file. */
+const sourcePixelsPerMeter = (source?: FloorplanSource) => source?.kind === 'vector'
+  ? source.pixelsPerMeter
+  : source?.scaleDenominator ? pdfPixelsPerMeter(source.dpi, source.scaleDenominator) : undefined;
+
+const withOpeningDeductions = (rooms: FloorplanRoom[], openings: FloorplanOpening[]) => rooms.map((room) => {
+  const netWallAreaM2 = netWallArea(room.id, room.perimeterM, openings);
+  return netWallAreaM2 === room.netWallAreaM2 ? room : { ...room, netWallAreaM2 };
+});
+
+export default function FloorplanWorkspace({ language, projectKey, linkedRooms, onUseRooms }: Props) {
   const [imageUrl, setImageUrl] = useState<string>();
   const [imageData, setImageData] = useState<string>();
   const [fileName, setFileName] = useState<string>();
   const [doorWidth, setDoorWidth] = useState(0.8);
   const [analysis, setAnalysis] = useState<FloorplanAnalysis>();
   const [loading, setLoading] = useState(false);
+  const [tiledAnalysis, setTiledAnalysis] = useState(false);
+  const [tileProgress, setTileProgress] = useState<{ done: number; total: number }>();
+  const [pdfPicker, setPdfPicker] = useState<{ fileName: string; pdf: PDFDocumentProxy }>();
+  const [rasterizingPdf, setRasterizingPdf] = useState(false);
+  const [vectorImport, setVectorImport] = useState<{ fileName: string; drawing: VectorDrawing }>();
+  const [importingVector, setImportingVector] = useState(false);
+  const [floorplanSource, setFloorplanSource] = useState<FloorplanSource>();
   const [error, setError] = useState<string>();
   const [dragActive, setDragActive] = useState(false);
   const [imageSize, setImageSize] = useState({ width: 1, height: 1 });
@@ -140,7 +219,17 @@ export default function FloorplanWorkspace({ language }: Props) {
   const [drawPoints, setDrawPoints] = useState<Point[]>([]);
   const [splitRoomId, setSplitRoomId] = useState<string>();
   const [splitPoints, setSplitPoints] = useState<Point[]>([]);
+  const [mergeRoomId, setMergeRoomId] = useState<string>();
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  const [orthogonalMode, setOrthogonalMode] = useState(false);
+  const [vertexSnap, setVertexSnap] = useState<VertexSnap>();
   const [geometryError, setGeometryError] = useState<string>();
+  const [selectedOpeningId, setSelectedOpeningId] = useState<string>();
+  const [wallEditing, setWallEditing] = useState(false);
+  const [selectedWallId, setSelectedWallId] = useState<string>();
+  const [showCirculation, setShowCirculation] = useState(false);
+  const [showDimensions, setShowDimensions] = useState(true);
+  const [highlightedDimensionId, setHighlightedDimensionId] = useState<string>();
   const [renamingRoomId, setRenamingRoomId] = useState<string>();
   const [renameDraft, setRenameDraft] = useState('');
   const [renameError, setRenameError] = useState<string>();
@@ -152,7 +241,13 @@ export default function FloorplanWorkspace({ language }: Props) {
   const [renderingFloorplan, setRenderingFloorplan] = useState(false);
   const [floorplanRenderError, setFloorplanRenderError] = useState<string>();
   const [floorplanRenderStale, setFloorplanRenderStale] = useState(false);
+  const [floorplanRenderProgress, setFloorplanRenderProgress] = useState(0);
   const [textureScalePercent, setTextureScalePercent] = useState(100);
+  const [colorPlanSize, setColorPlanSize] = useState<ColorPlanSize>('a3');
+  const [colorPlanFormat, setColorPlanFormat] = useState<'png' | 'jpeg'>('png');
+  const [exportingColorPlan, setExportingColorPlan] = useState(false);
+  const [roomSyncResult, setRoomSyncResult] = useState<{ created: number; updated: number; unlinked: number }>();
+  const [workspaceSaveState, setWorkspaceSaveState] = useState<'idle' | 'saving' | 'saved' | 'unavailable'>('idle');
   const inputRef = useRef<HTMLInputElement>(null);
   const viewportRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
@@ -162,12 +257,16 @@ export default function FloorplanWorkspace({ language }: Props) {
   const pointFrameRef = useRef<number>();
   const pendingPointRef = useRef<{ roomId: string; pointIndex: number; client: Point }>();
   const handleRectRef = useRef<DOMRect>();
+  const wallDragRef = useRef<WallJunction>(undefined);
   const objectUrlRef = useRef<string>();
+  const sourceFileRef = useRef<File>(undefined);
   const pointersRef = useRef(new Map<number, Point>());
   const gestureRef = useRef({ startDistance: 0, startZoom: 1, startMidpoint: { x: 0, y: 0 }, startPan: { x: 0, y: 0 }, dragStart: { x: 0, y: 0 }, viewportRect: undefined as DOMRect | undefined });
   const movedRef = useRef(false);
   const analysisInFlightRef = useRef(false);
   const renderInFlightRef = useRef(false);
+  const renderJobRef = useRef<{ id: string; controller: AbortController }>(undefined);
+  const workspaceHydratedRef = useRef(false);
   const t = (ja: string, en: string) => pick(language, ja, en);
   const criticalAnalysisIssues = (analysis?.validationIssues || []).filter(isCriticalValidationIssue);
 
@@ -176,6 +275,7 @@ export default function FloorplanWorkspace({ language }: Props) {
     setDrawPoints([]);
     setSplitRoomId(undefined);
     setSplitPoints([]);
+    setMergeRoomId(undefined);
     setGeometryError(undefined);
   };
 
@@ -198,9 +298,13 @@ export default function FloorplanWorkspace({ language }: Props) {
       localStorage.removeItem(LEGACY_FLOORPLAN_IMAGE_KEY);
       localStorage.removeItem(FLOORPLAN_STORAGE_KEY);
     } catch {
-      // Storage can be unavailable; the floorplan workspace is still session-only.
+      // Storage can be unavailable; earlier versions' keys are then simply left behind.
     }
-    void clearStoredFloorplan();
+    void restoreWorkspace().finally(() => { workspaceHydratedRef.current = true; });
+    const resumable = activeRenderJob('floorplan-color-render');
+    if (resumable) void followRenderJob({ id: resumable.jobId, kind: 'floorplan-color-render', status: 'running', progress: 0 });
+    return () => renderJobRef.current?.controller.abort();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   useEffect(() => {
@@ -209,6 +313,24 @@ export default function FloorplanWorkspace({ language }: Props) {
     setRenameError(undefined);
   }, [language]);
 
+  useEffect(() => {
+    const image = sourceFileRef.current;
+    if (!workspaceHydratedRef.current || !image || !imageUrl) return;
+    setWorkspaceSaveState('saving');
+    const timeout = window.setTimeout(() => {
+      void writeStoredFloorplan(projectKey, {
+        image,
+        imageName: image.name,
+        savedAt: new Date().toISOString(),
+        state: {
+          fileName, source: floorplanSource, doorWidth, analysis, manualPixelsPerMeter,
+          roomFloorMaterials, roomWallMaterials, renderStyle, renderedFloorplan, floorplanRenderStale, textureScalePercent,
+        },
+      }).then((saved) => setWorkspaceSaveState(saved ? 'saved' : 'unavailable'));
+    }, 500);
+    return () => window.clearTimeout(timeout);
+  }, [projectKey, imageUrl, fileName, floorplanSource, doorWidth, analysis, manualPixelsPerMeter, roomFloorMaterials, roomWallMaterials, renderStyle, renderedFloorplan, floorplanRenderStale, textureScalePercent]);
+
   useEffect(() => () => {
     if (zoomFrameRef.current !== undefined) cancelAnimationFrame(zoomFrameRef.current);
     if (pointFrameRef.current !== undefined) cancelAnimationFrame(pointFrameRef.current);
@@ -293,42 +415,184 @@ export default function FloorplanWorkspace({ language }: Props) {
 
   const loadFloorplan = (file?: File) => {
     if (!file) return;
+    if (file.type === 'application/pdf') {
+      openPdfPicker(file);
+      return;
+    }
+    if (isVectorFile(file)) {
+      openVectorImport(file);
+      return;
+    }
     if (!['image/png', 'image/jpeg'].includes(file.type)) {
-      setError(t('PNG または JPEG の平面図を選択してください。', 'Choose a PNG or JPEG floorplan.'));
+      setError(t('PNG・JPEG・PDF・DXF・SVG の平面図を選択してください。', 'Choose a PNG, JPEG, PDF, DXF, or SVG floorplan.'));
       return;
     }
     if (file.size > 12 * 1024 * 1024) {
       setError(t('画像は12MB以下にしてください。', 'The image must be 12 MB or smaller.'));
       return;
     }
-    void prepareImage(file, { maxEdge: 3000, jpegQuality: 0.95, preservePng: true, maxLength: MAX_SINGLE_IMAGE_LENGTH }).then((data) => {
-      const nextUrl = URL.createObjectURL(file);
-      if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
-      objectUrlRef.current = nextUrl;
-      setImageUrl(nextUrl);
-      setImageData(data);
-      setFileName(file.name);
-      setAnalysis(undefined);
-      setRoomFloorMaterials({});
-      setRoomWallMaterials({});
-      setRenderedFloorplan(undefined);
-      setFloorplanView('plan');
-      setFloorplanRenderStale(false);
-      setFloorplanRenderError(undefined);
-      setRenderImageSize(undefined);
-      setEditingRoomId(undefined);
-      setCalibrationMode(false);
-      setCalibrationPoints([]);
-      setManualPixelsPerMeter(undefined);
-      setOutlineNeedsCalibration(false);
-      cancelGeometryTool();
-      cancelRoomRename();
-      setImageSize({ width: 1, height: 1 });
-      zoomRef.current = 1;
-      panRef.current = { x: 0, y: 0 };
-      applyTransform();
-      setZoom(1);
+    loadFloorplanImage(file);
+  };
+
+  const closePdfPicker = () => {
+    void pdfPicker?.pdf.destroy();
+    setPdfPicker(undefined);
+  };
+
+  const openPdfPicker = (file: File) => {
+    if (file.size > MAX_PDF_BYTES) {
+      setError(t('PDFは40MB以下にしてください。', 'The PDF must be 40 MB or smaller.'));
+      return;
+    }
+    void openPdf(file).then((pdf) => {
+      void pdfPicker?.pdf.destroy();
+      setPdfPicker({ fileName: file.name, pdf });
+      setError(undefined);
+    }).catch(() => setError(t('PDFを開けませんでした。パスワード保護や破損がないか確認してください。', 'The PDF could not be opened. Check that it is not password-protected or damaged.')));
+  };
+
+  const choosePdfPage = (page: PdfPageInfo, dpi: number, scaleDenominator?: number) => {
+    if (!pdfPicker || rasterizingPdf) return;
+    const { fileName: pdfName, pdf } = pdfPicker;
+    setRasterizingPdf(true);
+    void rasterizePdfPage(pdf, page, dpi, pdfName).then((image) => {
+      loadFloorplanImage(image, { kind: 'pdf', fileName: pdfName, page: page.number, pageCount: pdf.numPages, dpi, scaleDenominator });
+      closePdfPicker();
+    }).catch((rasterError) => setError(rasterError instanceof Error ? rasterError.message : t('PDFページを画像に変換できませんでした。', 'The PDF page could not be rasterized.')))
+      .finally(() => setRasterizingPdf(false));
+  };
+
+  const openVectorImport = (file: File) => {
+    if (file.size > MAX_VECTOR_BYTES) {
+      setError(t('DXF・SVGは20MB以下にしてください。', 'The DXF or SVG file must be 20 MB or smaller.'));
+      return;
+    }
+    void file.text().then((text) => {
+      const drawing = /\.dxf$/i.test(file.name) ? parseDxf(text) : parseSvg(text);
+      if (!drawing.polygons.length) throw new Error(t('閉じたポリラインや図形が見つかりませんでした。部屋の外形を閉じた線で描いてください。', 'No closed polylines or shapes were found. Room outlines must be drawn as closed shapes.'));
+      setVectorImport({ fileName: file.name, drawing });
       setError(undefined);
+    }).catch((parseError) => setError(parseError instanceof Error ? parseError.message : t('CADファイルを読み込めませんでした。', 'The CAD file could not be read.')));
+  };
+
+  const importVectorRooms = (layers: string[], metersPerUnit: number) => {
+    if (!vectorImport || importingVector) return;
+    setImportingVector(true);
+    void buildVectorFloorplan(vectorImport.drawing, layers, metersPerUnit, vectorImport.fileName).then(({ image, rooms, source }) => {
+      loadFloorplanImage(image, source, {
+        rooms,
+        openings: [],
+        walls: [],
+        dimensions: [],
+        detectedDoorCount: 0,
+        assumedDoorWidthM: doorWidth,
+        confidence: rooms.some((room) => room.validationIssues.length) ? 'medium' : 'high',
+        assumptionJa: 'CADの閉じた外形から実寸で計算した面積です。建具と壁は読み込まれないため、必要に応じて追加してください。',
+        assumptionEn: 'Areas computed in real units from closed CAD outlines. Doors and walls are not imported; add them where needed.',
+        scaleSource: 'vector-units',
+        scaleEvidence: sourceScaleEvidence(source),
+        validationIssues: rooms.flatMap((room) => room.validationIssues.map((issue) => `${room.nameEn}: ${issue}`)),
+        measurementStatus: 'vector-import',
+      });
+      setVectorImport(undefined);
+    }).catch((importError) => setError(importError instanceof Error ? importError.message : t('CADファイルを読み込めませんでした。', 'The CAD file could not be read.')))
+      .finally(() => setImportingVector(false));
+  };
+
+  const sourceScaleEvidence = (source: FloorplanSource) => source.kind === 'vector'
+    ? `${source.format.toUpperCase()} · 1 ${t('単位', 'unit')} = ${Math.round(source.metersPerUnit * 100000) / 100} mm`
+    : `1:${source.scaleDenominator} · ${source.dpi} DPI`;
+
+  /** Drops everything derived from the current plan; the image itself is replaced or cleared by the caller. */
+  const resetPlanState = () => {
+    setTiledAnalysis(false);
+    setAnalysis(undefined);
+    setRoomSyncResult(undefined);
+    setRoomFloorMaterials({});
+    setRoomWallMaterials({});
+    setRenderedFloorplan(undefined);
+    setFloorplanView('plan');
+    setFloorplanRenderStale(false);
+    setFloorplanRenderError(undefined);
+    setRenderImageSize(undefined);
+    setEditingRoomId(undefined);
+    setCalibrationMode(false);
+    setCalibrationPoints([]);
+    setManualPixelsPerMeter(undefined);
+    setOutlineNeedsCalibration(false);
+    setSelectedOpeningId(undefined);
+    setWallEditing(false);
+    setSelectedWallId(undefined);
+    cancelGeometryTool();
+    cancelRoomRename();
+    setImageSize({ width: 1, height: 1 });
+    zoomRef.current = 1;
+    panRef.current = { x: 0, y: 0 };
+    applyTransform();
+    setZoom(1);
+    setError(undefined);
+  };
+
+  const showStoredImage = (file: File) => {
+    const nextUrl = URL.createObjectURL(file);
+    if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+    objectUrlRef.current = nextUrl;
+    sourceFileRef.current = file;
+    setImageUrl(nextUrl);
+  };
+
+  const restoreWorkspace = async () => {
+    const stored = await readStoredFloorplan(projectKey);
+    if (!stored) return;
+    const image = new File([stored.image], stored.imageName, { type: stored.image.type });
+    const data = await prepareImage(image, FLOORPLAN_IMAGE_OPTIONS).catch(() => undefined);
+    // A plan chosen while the saved one was loading wins.
+    if (!data || sourceFileRef.current) return;
+    const state = stored.state;
+    const restoredAnalysis = state.analysis && Array.isArray((state.analysis as FloorplanAnalysis).rooms) ? state.analysis as FloorplanAnalysis : undefined;
+    const roomIds = new Set(restoredAnalysis?.rooms.map((room) => room.id));
+    const knownMaterials = (value: unknown, materials: typeof CATALOG) => Object.fromEntries(Object.entries(value && typeof value === 'object' ? value as Record<string, unknown> : {})
+      .filter(([roomId, materialId]) => roomIds.has(roomId) && materials.some((item) => item.id === materialId)) as Array<[string, string]>);
+    const source = state.source as FloorplanSource | undefined;
+    showStoredImage(image);
+    setImageData(data);
+    setFileName(typeof state.fileName === 'string' ? state.fileName : image.name);
+    setFloorplanSource(source?.kind === 'pdf' || source?.kind === 'vector' ? source : undefined);
+    if (typeof state.doorWidth === 'number' && state.doorWidth > 0) setDoorWidth(state.doorWidth);
+    setAnalysis(restoredAnalysis);
+    setManualPixelsPerMeter(typeof state.manualPixelsPerMeter === 'number' && state.manualPixelsPerMeter > 0 ? state.manualPixelsPerMeter : undefined);
+    setRoomFloorMaterials(knownMaterials(state.roomFloorMaterials, FLOOR_MATERIALS));
+    setRoomWallMaterials(knownMaterials(state.roomWallMaterials, WALL_MATERIALS));
+    if (RENDER_STYLES.some((option) => option.id === state.renderStyle)) setRenderStyle(state.renderStyle as FloorplanRenderStyle);
+    if (typeof state.renderedFloorplan === 'string' && state.renderedFloorplan.startsWith('data:image/')) {
+      setRenderedFloorplan(state.renderedFloorplan);
+      setFloorplanRenderStale(state.floorplanRenderStale === true);
+    }
+    if (typeof state.textureScalePercent === 'number' && state.textureScalePercent >= 50 && state.textureScalePercent <= 200) setTextureScalePercent(state.textureScalePercent);
+    setWorkspaceSaveState('saved');
+  };
+
+  const clearWorkspace = () => {
+    if (!window.confirm(t('保存した平面図・部屋・仕上げをこのブラウザから削除しますか？', 'Remove the saved plan, rooms, and finishes from this browser?'))) return;
+    void clearStoredFloorplan(projectKey);
+    if (objectUrlRef.current) URL.revokeObjectURL(objectUrlRef.current);
+    sourceFileRef.current = undefined;
+    setImageUrl(undefined);
+    setImageData(undefined);
+    setFileName(undefined);
+    setFloorplanSource(undefined);
+    resetPlanState();
+    setWorkspaceSaveState('idle');
+  };
+
+  const loadFloorplanImage = (file: File, source?: FloorplanSource, importedAnalysis?: FloorplanAnalysis) => {
+    void prepareImage(file, FLOORPLAN_IMAGE_OPTIONS).then((data) => {
+      showStoredImage(file);
+      setImageData(data);
+      setFileName(source ? source.kind === 'pdf' ? `${source.fileName} · p.${source.page}` : source.fileName : file.name);
+      setFloorplanSource(source);
+      resetPlanState();
+      if (importedAnalysis) acceptAnalysis(importedAnalysis, source);
     }).catch((loadError) => setError(loadError instanceof Error ? loadError.message : t('平面図を読み込めませんでした。', 'The floorplan could not be loaded.')));
   };
 
@@ -345,25 +609,110 @@ export default function FloorplanWorkspace({ language }: Props) {
       });
       const payload = await readJsonResponse(response);
       if (!response.ok || !payload.analysis?.rooms?.length) throw new Error(payload.error || 'No rooms were detected.');
-      const nextAnalysis = { ...payload.analysis, model: payload.model, promptVersion: payload.promptVersion } as FloorplanAnalysis;
-      setAnalysis(nextAnalysis);
-      setRoomFloorMaterials(Object.fromEntries(nextAnalysis.rooms.map((room) => [room.id, defaultFloorMaterialId(room)])));
-      setRoomWallMaterials(Object.fromEntries(nextAnalysis.rooms.map((room) => [room.id, defaultWallMaterialId(room)])));
-      setRenderedFloorplan(undefined);
-      setFloorplanView('plan');
-      setFloorplanRenderStale(false);
-      setFloorplanRenderError(undefined);
-      setEditingRoomId(undefined);
-      setCalibrationMode(false);
-      setCalibrationPoints([]);
-      setManualPixelsPerMeter(undefined);
-      setOutlineNeedsCalibration(false);
-      cancelGeometryTool();
-      cancelRoomRename();
+      acceptAnalysis({ ...payload.analysis, model: payload.model, promptVersion: payload.promptVersion } as FloorplanAnalysis);
+    } catch (analysisError) {
+      setError(demoAiErrorMessage(analysisError, language, 'floorplan'));
+    } finally {
+      analysisInFlightRef.current = false;
+      setLoading(false);
+    }
+  };
+
+  const acceptAnalysis = (detected: FloorplanAnalysis, source = floorplanSource) => {
+    // A scale fixed by the document itself is exact, so AI-detected rooms are remeasured with it.
+    const declaredPixelsPerMeter = sourcePixelsPerMeter(source);
+    const nextAnalysis: FloorplanAnalysis = declaredPixelsPerMeter && source && detected.measurementStatus !== 'vector-import' ? {
+      ...detected,
+      rooms: recalculateRooms(detected.rooms, declaredPixelsPerMeter, detected.openings || []),
+      validationIssues: detected.validationIssues?.filter((issue) => !issue.endsWith(UNMEASURED_ISSUE)),
+      scaleSource: source.kind === 'vector' ? 'vector-units' : 'document-scale',
+      scaleEvidence: sourceScaleEvidence(source),
+      source,
+    } : { ...detected, source };
+    setAnalysis(nextAnalysis);
+    setRoomFloorMaterials(Object.fromEntries(nextAnalysis.rooms.map((room) => [room.id, defaultFloorMaterialId(room)])));
+    setRoomWallMaterials(Object.fromEntries(nextAnalysis.rooms.map((room) => [room.id, defaultWallMaterialId(room)])));
+    setRenderedFloorplan(undefined);
+    setFloorplanView('plan');
+    setFloorplanRenderStale(false);
+    setFloorplanRenderError(undefined);
+    setEditingRoomId(undefined);
+    setCalibrationMode(false);
+    setCalibrationPoints([]);
+    setManualPixelsPerMeter(declaredPixelsPerMeter);
+    setOutlineNeedsCalibration(false);
+    setSelectedOpeningId(undefined);
+    setWallEditing(false);
+    setSelectedWallId(undefined);
+    cancelGeometryTool();
+    cancelRoomRename();
+  };
+
+  const analyzeFloorplanTiles = async () => {
+    const file = sourceFileRef.current;
+    if (!file || analysisInFlightRef.current) return;
+    analysisInFlightRef.current = true;
+    setLoading(true);
+    setError(undefined);
+    const tiles = planTiles(imageSize);
+    try {
+      const results: Array<TileResult<FloorplanRoom>> = [];
+      const payloads: FloorplanAnalysisResponse[] = [];
+      for (const tile of tiles) {
+        setTileProgress({ done: tile.index, total: tiles.length });
+        const data = await prepareImage(file, { crop: tile.source, maxEdge: TILE_EDGE_PX, jpegQuality: 0.95, preservePng: true, maxLength: MAX_SINGLE_IMAGE_LENGTH });
+        const response = await fetch('/api/analyze-floorplan', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ floorplan: data, standardDoorWidthM: doorWidth, tile: { index: tile.index, count: tiles.length, ...tile.plan } }),
+        });
+        const payload = await readJsonResponse(response);
+        // A tile of margin, title block, or corridor may hold no complete room.
+        if (response.status === 422) continue;
+        if (!response.ok || !payload.analysis) throw new Error(payload.error || `Tile ${tile.index + 1} could not be analyzed.`);
+        results.push({ tile, ...payload.analysis });
+        payloads.push(payload);
+      }
+      const merged = mergeTileResults(results);
+      if (!merged.rooms.length) throw new Error('No rooms were detected.');
+      // Each tile was measured on its own; one scale for the whole plan keeps rooms from different tiles comparable.
+      // Rooms cut by tile edges still carry one part's area, so they are left out of the inference and recalculated from their outline.
+      // Without a scale they cannot be, so their figures are marked unmeasured until the plan is calibrated.
+      const pixelsPerMeter = inferPixelsPerMeter(merged.rooms.filter((room) => !merged.joinedRoomIds.includes(room.id)));
+      const rooms = pixelsPerMeter
+        ? recalculateRooms(merged.rooms, pixelsPerMeter, merged.openings)
+        : withOpeningDeductions(merged.rooms, merged.openings).map((room) => merged.joinedRoomIds.includes(room.id)
+          ? { ...room, confidence: 'low' as const, validationIssues: [...room.validationIssues || [], UNMEASURED_ISSUE] }
+          : room);
+      const scaleSources = payloads.map((payload) => payload.analysis.scaleSource);
+      const scaleSource = scaleSources.includes('explicit-dimension') ? 'explicit-dimension' : scaleSources.includes('door-width') ? 'door-width' : 'unknown';
+      const evidence = payloads.find((payload) => payload.analysis.scaleSource === scaleSource)?.analysis;
+      acceptAnalysis({
+        rooms,
+        openings: merged.openings,
+        walls: merged.walls,
+        dimensions: merged.dimensions,
+        detectedDoorCount: merged.openings.filter((opening) => opening.type === 'door' || opening.type === 'sliding-door').length,
+        assumedDoorWidthM: doorWidth,
+        confidence: rooms.some((room) => room.validationIssues?.length) || scaleSource !== 'explicit-dimension' ? 'low' : 'medium',
+        assumptionJa: `${tiles.length}分割の高解像度解析を統合した概算です。タイル境界の部屋形状と面積を現場採寸で確認してください。`,
+        assumptionEn: `Estimate merged from ${tiles.length} overlapping high-resolution tiles. Verify room outlines at tile boundaries and all areas with site measurements.`,
+        scaleSource,
+        scaleEvidence: evidence?.scaleEvidence,
+        validationIssues: [
+          ...rooms.flatMap((room) => (room.validationIssues || []).map((issue) => `${room.nameEn}: ${issue}`)),
+          ...merged.walls.length ? [] : ['No wall centerlines were returned; shared walls cannot be resolved.'],
+        ],
+        measurementStatus: 'unverified-ai-estimate',
+        model: payloads[0]?.model,
+        promptVersion: payloads[0]?.promptVersion,
+        tileCount: tiles.length,
+      });
     } catch (analysisError) {
       setError(demoAiErrorMessage(analysisError, language, 'floorplan'));
     } finally {
       analysisInFlightRef.current = false;
+      setTileProgress(undefined);
       setLoading(false);
     }
   };
@@ -409,6 +758,91 @@ export default function FloorplanWorkspace({ language }: Props) {
       .catch((error) => setFloorplanRenderError(error instanceof Error ? error.message : t('画像を保存できませんでした。', 'The image could not be saved.')));
   };
 
+  const exportFileSlug = () => imageFileSlug((fileName || 'floorplan').replace(/\.[a-z0-9]+$/i, ''));
+
+  /** Room outlines converted to metres at the plan scale, each on the layer of its floor finish. */
+  const exportRooms = (pixelsPerMeter: number): ExportRoom[] => (analysis?.rooms || []).map((room) => ({
+    name: language === 'ja' ? room.nameJa : room.nameEn,
+    areaM2: room.floorAreaM2,
+    polygon: room.polygon.map((point) => ({ x: point.x / 100 * imageSize.width / pixelsPerMeter, y: point.y / 100 * imageSize.height / pixelsPerMeter })),
+    layer: finishLayerName(roomFloorMaterials[room.id]),
+  }));
+
+  const downloadFloorplanDxf = () => {
+    if (!analysis || !vectorPixelsPerMeter) return;
+    const dxf = floorplanDxf(exportRooms(vectorPixelsPerMeter), imageSize.height / vectorPixelsPerMeter);
+    downloadBlob(new Blob([dxf], { type: 'application/dxf' }), `${exportFileSlug()}-finishes.dxf`);
+  };
+
+  const downloadFloorplanSvg = async () => {
+    if (!analysis || !vectorPixelsPerMeter) return;
+    const { renderToStaticMarkup } = await import('react-dom/server');
+    const widthMm = imageSize.width / vectorPixelsPerMeter * 1000;
+    const heightMm = imageSize.height / vectorPixelsPerMeter * 1000;
+    const rooms = exportRooms(vectorPixelsPerMeter);
+    const layers = [...new Set(rooms.map((room) => room.layer))];
+    // Outlines and hatches stay in the workspace's 0–100 plan space, scaled to millimetres, so the patterns match the screen exactly.
+    const markup = renderToStaticMarkup(<svg xmlns="http://www.w3.org/2000/svg" width={`${widthMm}mm`} height={`${heightMm}mm`} viewBox={`0 0 ${widthMm} ${heightMm}`}>
+      <title>{fileName || 'Floorplan'}</title>
+      <defs>{analysis.rooms.map((room) => {
+        const material = FLOOR_MATERIALS.find((item) => item.id === roomFloorMaterials[room.id]);
+        return material ? vectorFloorPattern(room, material.id, material.swatch) : null;
+      })}</defs>
+      {layers.map((layer) => <g key={layer} id={layer}>
+        <g transform={`scale(${widthMm / 100} ${heightMm / 100})`}>
+          {analysis.rooms.filter((_, index) => rooms[index].layer === layer).map((room) => <polygon key={room.id} points={room.polygon.map((point) => `${point.x},${point.y}`).join(' ')}
+            fill={roomFloorMaterials[room.id] ? `url(#${roomPatternId(room.id)})` : 'none'} stroke="#222222" strokeWidth="0.35" vectorEffect="non-scaling-stroke" />)}
+        </g>
+        {rooms.filter((room) => room.layer === layer).map((room, index) => {
+          const center = exportRoomCenter(room.polygon);
+          return <text key={index} x={center.x * 1000} y={center.y * 1000} fontFamily="sans-serif" fontSize="200" textAnchor="middle" fill="#222222">
+            <tspan x={center.x * 1000} dy="-40">{room.name}</tspan>
+            <tspan x={center.x * 1000} dy="240">{room.areaM2.toFixed(1)} m²</tspan>
+          </text>;
+        })}
+      </g>)}
+    </svg>);
+    downloadBlob(new Blob([`<?xml version="1.0" encoding="UTF-8"?>\n${markup}`], { type: 'image/svg+xml' }), `${exportFileSlug()}-finishes.svg`);
+  };
+
+  const downloadColorPlan = async () => {
+    if (!analysis || !imageUrl || exportingColorPlan) return;
+    setExportingColorPlan(true);
+    setFloorplanRenderError(undefined);
+    try {
+      const rooms = analysis.rooms.map((room) => {
+        const material = FLOOR_MATERIALS.find((item) => item.id === roomFloorMaterials[room.id]);
+        const wall = WALL_MATERIALS.find((item) => item.id === roomWallMaterials[room.id]);
+        const module = (material && FLOOR_TEXTURE_MODULES[material.id]) || { widthM: 0.12, lengthM: 0.9 };
+        return {
+          polygon: room.polygon,
+          floorSwatch: material?.swatch,
+          pattern: floorPatternKind(material?.id || ''),
+          moduleWidthM: module.widthM,
+          moduleLengthM: module.lengthM,
+          wallSwatch: wall?.swatch,
+          accentWall: Boolean(wall && (wall.id.includes('accent') || wall.id.includes('panel'))),
+        };
+      });
+      const canvas = await renderColorPlan(imageUrl, imageSize, rooms, planPixelsPerMeter, textureScalePercent / 100, colorPlanScale(imageSize, colorPlanSize));
+      const blob = await canvasToBlob(canvas, colorPlanFormat === 'png' ? 'image/png' : 'image/jpeg');
+      downloadBlob(blob, `${exportFileSlug()}-color-plan-${colorPlanSize}.${colorPlanFormat === 'png' ? 'png' : 'jpg'}`);
+    } catch (exportError) {
+      setFloorplanRenderError(exportError instanceof Error ? exportError.message : t('カラープランを書き出せませんでした。', 'The colour plan could not be exported.'));
+    } finally {
+      setExportingColorPlan(false);
+    }
+  };
+
+  const sendRoomsToProposal = () => {
+    if (!analysis?.rooms.length || analysis.rooms.some(isUnmeasured)) return;
+    setRoomSyncResult(onUseRooms(analysis.rooms.map((room) => ({
+      room,
+      floorMaterialId: roomFloorMaterials[room.id],
+      wallMaterialId: roomWallMaterials[room.id],
+    }))));
+  };
+
   const showFloorplanView = (view: FloorplanView) => {
     if (view === 'render' && !renderedFloorplan) return;
     cancelGeometryTool();
@@ -435,39 +869,54 @@ export default function FloorplanWorkspace({ language }: Props) {
     renderInFlightRef.current = true;
     setRenderingFloorplan(true);
     setFloorplanRenderError(undefined);
+    let job: RenderJob;
     try {
-      const response = await fetch('/api/generate-floorplan-color-render', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          floorplan: imageData,
-          style: renderStyle,
-          doorWidthM: analysis.assumedDoorWidthM || doorWidth,
-          textureScalePercent,
-          rooms: scheduledRooms.map(({ room, material, wall }) => {
-            const textureGeometry = roomTextureGeometry(room, material!.id);
-            return {
-              name: language === 'ja' ? room.nameJa : room.nameEn,
-              materialName: language === 'ja' ? material!.nameJa : material!.nameEn,
-              materialColor: language === 'ja' ? material!.colorJa : material!.colorEn,
-              specification: language === 'ja' ? material!.specificationJa : material!.specificationEn,
-              wallMaterialName: language === 'ja' ? wall!.nameJa : wall!.nameEn,
-              wallMaterialColor: language === 'ja' ? wall!.colorJa : wall!.colorEn,
-              wallSpecification: language === 'ja' ? wall!.specificationJa : wall!.specificationEn,
-              wallSwatchHex: wall!.swatch,
-              wallIsAccent: wall!.id.includes('accent') || wall!.id.includes('panel'),
-              textureModule: FLOOR_TEXTURE_MODULES[material!.id]?.label || material!.size,
-              moduleWidthM: FLOOR_TEXTURE_MODULES[material!.id]?.widthM,
-              moduleLengthM: FLOOR_TEXTURE_MODULES[material!.id]?.lengthM,
-              patternAngleDeg: textureGeometry.angle,
-              alignmentRule: material!.id.includes('tile') ? 'centered grid aligned to the longest room wall' : 'long direction aligned to the longest room wall',
-              polygon: room.polygon,
-            };
-          }),
+      job = await startRenderJob('floorplan-color-render', {
+        floorplan: imageData,
+        style: renderStyle,
+        doorWidthM: analysis.assumedDoorWidthM || doorWidth,
+        textureScalePercent,
+        forceRegenerate: Boolean(renderedFloorplan && !floorplanRenderStale),
+        references: await productReferencePayload(scheduledRooms.flatMap(({ material, wall }) => [material!, wall!]), imageData.length),
+        rooms: scheduledRooms.map(({ room, material, wall }) => {
+          const textureGeometry = roomTextureGeometry(room, material!.id);
+          return {
+            name: language === 'ja' ? room.nameJa : room.nameEn,
+            materialName: language === 'ja' ? material!.nameJa : material!.nameEn,
+            materialColor: language === 'ja' ? material!.colorJa : material!.colorEn,
+            specification: language === 'ja' ? material!.specificationJa : material!.specificationEn,
+            wallMaterialName: language === 'ja' ? wall!.nameJa : wall!.nameEn,
+            wallMaterialColor: language === 'ja' ? wall!.colorJa : wall!.colorEn,
+            wallSpecification: language === 'ja' ? wall!.specificationJa : wall!.specificationEn,
+            wallSwatchHex: wall!.swatch,
+            wallIsAccent: wall!.id.includes('accent') || wall!.id.includes('panel'),
+            textureModule: FLOOR_TEXTURE_MODULES[material!.id]?.label || material!.size,
+            moduleWidthM: FLOOR_TEXTURE_MODULES[material!.id]?.widthM,
+            moduleLengthM: FLOOR_TEXTURE_MODULES[material!.id]?.lengthM,
+            patternAngleDeg: textureGeometry.angle,
+            alignmentRule: material!.id.includes('tile') ? 'centered grid aligned to the longest room wall' : 'long direction aligned to the longest room wall',
+            polygon: room.polygon,
+          };
         }),
       });
-      const payload = await readJsonResponse(response);
-      if (!response.ok || !payload.image) throw new Error(payload.error || 'The reconstructed floorplan was not returned.');
+    } catch (renderError) {
+      setFloorplanRenderError(demoAiErrorMessage(renderError, language, 'preview'));
+      renderInFlightRef.current = false;
+      setRenderingFloorplan(false);
+      return;
+    }
+    await followRenderJob(job);
+  };
+
+  const followRenderJob = async (job: RenderJob) => {
+    const active = { id: job.id, controller: new AbortController() };
+    renderJobRef.current = active;
+    renderInFlightRef.current = true;
+    setRenderingFloorplan(true);
+    setFloorplanRenderError(undefined);
+    try {
+      const payload = await waitForRenderJob(job, active.controller.signal, setFloorplanRenderProgress);
+      if (!payload?.image) throw new Error('The reconstructed floorplan was not returned.');
       setRenderedFloorplan(payload.image);
       setRenderImageSize(undefined);
       setFloorplanRenderStale(false);
@@ -477,13 +926,24 @@ export default function FloorplanWorkspace({ language }: Props) {
       applyTransform();
       setZoom(1);
     } catch (renderError) {
-      setFloorplanRenderError(demoAiErrorMessage(renderError, language, 'preview'));
+      if (!isPollingStopped(renderError)) setFloorplanRenderError(demoAiErrorMessage(renderError, language, 'preview'));
     } finally {
-      renderInFlightRef.current = false;
-      setRenderingFloorplan(false);
+      if (renderJobRef.current === active) {
+        renderJobRef.current = undefined;
+        renderInFlightRef.current = false;
+        setRenderingFloorplan(false);
+        setFloorplanRenderProgress(0);
+      }
     }
   };
 
+  const cancelFloorplanRender = () => {
+    const active = renderJobRef.current;
+    if (!active) return;
+    active.controller.abort();
+    void cancelRenderJob('floorplan-color-render', active.id);
+  };
+
   const beginRoomRename = (room: FloorplanRoom) => {
     cancelGeometryTool();
     setEditingRoomId(undefined);
@@ -522,8 +982,9 @@ export default function FloorplanWorkspace({ language }: Props) {
   const pointFromEvent = (event: React.PointerEvent<SVGElement> | React.MouseEvent<SVGElement>): Point =>
     pointFromRect(svgRectOf(event.currentTarget), event.clientX, event.clientY);
 
-  const recalculateRooms = (rooms: FloorplanRoom[], pixelsPerMeter: number, onlyRoomId?: string) => rooms.map((room) => {
+  const recalculateRooms = (rooms: FloorplanRoom[], pixelsPerMeter: number, openings: FloorplanOpening[], onlyRoomId?: string) => rooms.map((room) => {
     if (onlyRoomId && room.id !== onlyRoomId) return room;
+    const validationIssues = room.validationIssues?.filter((issue) => issue !== UNMEASURED_ISSUE);
     const pixelPoints = room.polygon.map((point) => ({ x: point.x / 100 * imageSize.width, y: point.y / 100 * imageSize.height }));
     const twiceArea = pixelPoints.reduce((sum, point, index) => {
       const next = pixelPoints[(index + 1) % pixelPoints.length];
@@ -537,22 +998,22 @@ export default function FloorplanWorkspace({ language }: Props) {
     const ys = pixelPoints.map((point) => point.y);
     const floorAreaM2 = Math.max(0.5, Math.abs(twiceArea) / 2 / (pixelsPerMeter ** 2));
     const perimeterM = Math.max(2, perimeterPx / pixelsPerMeter);
-    const openingFactor = Math.max(0.55, Math.min(1, room.netWallAreaM2 / Math.max(1, room.perimeterM * 2.4)));
     return {
       ...room,
       floorAreaM2: Math.round(floorAreaM2 * 10) / 10,
       ceilingAreaM2: Math.round(floorAreaM2 * 10) / 10,
       perimeterM: Math.round(perimeterM * 10) / 10,
-      netWallAreaM2: Math.round(perimeterM * 2.4 * openingFactor * 10) / 10,
+      netWallAreaM2: netWallArea(room.id, perimeterM, openings),
       roomWidthM: Math.round((Math.max(...xs) - Math.min(...xs)) / pixelsPerMeter * 10) / 10,
       roomDepthM: Math.round((Math.max(...ys) - Math.min(...ys)) / pixelsPerMeter * 10) / 10,
-      confidence: (room.validationIssues?.length ? 'low' : 'medium') as 'low' | 'medium',
+      confidence: (validationIssues?.length ? 'low' : 'medium') as 'low' | 'medium',
+      validationIssues,
     };
   });
 
   const inferPixelsPerMeter = (rooms: FloorplanRoom[]) => {
     const candidates = rooms.flatMap((room) => {
-      if (room.floorAreaM2 <= 0 || room.polygon.length < 3) return [];
+      if (room.floorAreaM2 <= 0 || room.polygon.length < 3 || isUnmeasured(room)) return [];
       const pixelPolygon = room.polygon.map((point) => ({ x: point.x / 100 * imageSize.width, y: point.y / 100 * imageSize.height }));
       const inferred = Math.sqrt(polygonArea(pixelPolygon) / room.floorAreaM2);
       return Number.isFinite(inferred) && inferred > 0 ? [inferred] : [];
@@ -586,12 +1047,73 @@ export default function FloorplanWorkspace({ language }: Props) {
     setCalibrationPoints([]);
   };
 
+  const beginMergeRoom = (roomId: string) => {
+    cancelGeometryTool();
+    cancelRoomRename();
+    setGeometryTool('merge-rooms');
+    setMergeRoomId(roomId);
+    setEditingRoomId(undefined);
+    setCalibrationMode(false);
+    setCalibrationPoints([]);
+  };
+
+  /** Adding and removing points work on the outline being edited, so they keep the room selected. */
+  const toggleVertexTool = (tool: 'insert-vertex' | 'delete-vertex') => {
+    setGeometryTool((current) => current === tool ? undefined : tool);
+    setGeometryError(undefined);
+  };
+
+  const beginAddOpening = () => {
+    cancelRoomRename();
+    setGeometryTool('add-opening');
+    setDrawPoints([]);
+    setSplitRoomId(undefined);
+    setSplitPoints([]);
+    setGeometryError(undefined);
+    setSelectedOpeningId(undefined);
+    setEditingRoomId(undefined);
+    setCalibrationMode(false);
+    setCalibrationPoints([]);
+  };
+
+  const beginDrawWall = () => {
+    cancelRoomRename();
+    setGeometryTool('draw-wall');
+    setDrawPoints([]);
+    setSplitRoomId(undefined);
+    setSplitPoints([]);
+    setGeometryError(undefined);
+    setSelectedWallId(undefined);
+  };
+
+  const toggleWallEditing = () => {
+    const nextEditing = !wallEditing;
+    cancelGeometryTool();
+    cancelRoomRename();
+    setWallEditing(nextEditing);
+    setSelectedWallId(undefined);
+    setEditingRoomId(undefined);
+    setCalibrationMode(false);
+    setCalibrationPoints([]);
+  };
+
   const handleGeometryPoint = (event: React.MouseEvent<SVGRectElement>) => {
     event.stopPropagation();
     const point = pointFromEvent(event);
     setGeometryError(undefined);
     if (geometryTool === 'draw-room') setDrawPoints((current) => [...current, point]);
     if (geometryTool === 'split-room') setSplitPoints((current) => current.length >= 2 ? [point] : [...current, point]);
+    if (geometryTool === 'add-opening') addOpeningAt(point);
+    if (geometryTool === 'insert-vertex') insertVertexAt(point);
+    if (geometryTool === 'merge-rooms') {
+      const target = analysis?.rooms.find((room) => room.id !== mergeRoomId && pointInPolygon(point, room.polygon));
+      if (target) finishRoomMerge(target.id);
+      else setGeometryError(t('結合する隣の部屋の内側をクリックしてください。', 'Click inside the neighbouring room to merge with.'));
+    }
+    if (geometryTool === 'draw-wall') {
+      const junction = wallGraph?.junctions.find((candidate) => Math.hypot(candidate.point.x - point.x, candidate.point.y - point.y) <= WALL_SNAP_DISTANCE);
+      setDrawPoints((current) => current.length >= 2 ? [junction?.point || point] : [...current, junction?.point || point]);
+    }
   };
 
   const finishDrawnRoom = () => {
@@ -627,7 +1149,7 @@ export default function FloorplanWorkspace({ language }: Props) {
       setGeometryError(t('面積を計算する縮尺がありません。先に縮尺を補正してください。', 'No usable scale is available for area calculation. Calibrate the scale first.'));
       return;
     }
-    const nextRoom = recalculateRooms([draftRoom], pixelsPerMeter)[0];
+    const nextRoom = recalculateRooms([draftRoom], pixelsPerMeter, analysis.openings || [])[0];
     setAnalysis({
       ...analysis,
       rooms: [...analysis.rooms, nextRoom],
@@ -670,13 +1192,24 @@ export default function FloorplanWorkspace({ language }: Props) {
       setGeometryError(t('面積を計算する縮尺がありません。先に縮尺を補正してください。', 'No usable scale is available for area calculation. Calibrate the scale first.'));
       return;
     }
-    const [recalculatedFirst, recalculatedSecond] = recalculateRooms([firstRoom, secondRoom], pixelsPerMeter);
+    // Openings of the split room move to whichever part's boundary they sit on.
+    const openings = (analysis.openings || []).map((opening) => {
+      if (!opening.roomIds.includes(sourceRoom.id)) return opening;
+      const partId = nearestBoundaryPoint(opening.center, secondPolygon).distance < nearestBoundaryPoint(opening.center, firstPolygon).distance ? nextId : sourceRoom.id;
+      return {
+        ...opening,
+        roomIds: opening.roomIds.map((id) => id === sourceRoom.id ? partId : id),
+        swingRoomId: opening.swingRoomId === sourceRoom.id ? partId : opening.swingRoomId,
+      };
+    });
+    const [recalculatedFirst, recalculatedSecond] = recalculateRooms([firstRoom, secondRoom], pixelsPerMeter, openings);
     const sourceIndex = analysis.rooms.findIndex((room) => room.id === sourceRoom.id);
     const nextRooms = [...analysis.rooms];
     nextRooms.splice(sourceIndex, 1, recalculatedFirst, recalculatedSecond);
     setAnalysis({
       ...analysis,
-      rooms: nextRooms,
+      rooms: withOpeningDeductions(nextRooms, openings),
+      openings,
       confidence: 'low',
       measurementStatus: 'unverified-ai-estimate',
       validationIssues: [...new Set([...(analysis.validationIssues || []), geometryIssue])],
@@ -688,41 +1221,188 @@ export default function FloorplanWorkspace({ language }: Props) {
     cancelGeometryTool();
   };
 
-  const applyManualCalibration = () => {
-    if (!analysis || calibrationPoints.length !== 2 || calibrationLengthM <= 0) return;
-    const [start, end] = calibrationPoints;
-    const pixelDistance = Math.hypot((end.x - start.x) / 100 * imageSize.width, (end.y - start.y) / 100 * imageSize.height);
-    const pixelsPerMeter = pixelDistance / calibrationLengthM;
-    if (!Number.isFinite(pixelsPerMeter) || pixelsPerMeter <= 0) return;
-    const rooms = recalculateRooms(analysis.rooms, pixelsPerMeter);
+  /** Replaces one room's outline after a point is added or removed, rejecting outlines that collapse or cross themselves. */
+  const replaceRoomPolygon = (roomId: string, polygon: Point[]) => {
+    if (!analysis) return;
+    if (polygon.length < 3 || polygonArea(polygon) < 0.02) {
+      setGeometryError(t('輪郭が小さすぎます。3点以上を残してください。', 'The outline would be too small. Keep at least three points.'));
+      return;
+    }
+    if (hasSelfIntersection(polygon)) {
+      setGeometryError(t('この変更では輪郭線が交差します。', 'That change would make the outline cross itself.'));
+      return;
+    }
+    const pixelsPerMeter = manualPixelsPerMeter || inferPixelsPerMeter(analysis.rooms);
+    const rooms = analysis.rooms.map((room) => room.id === roomId ? { ...room, polygon } : room);
+    setAnalysis({ ...analysis, rooms: pixelsPerMeter ? recalculateRooms(rooms, pixelsPerMeter, analysis.openings || [], roomId) : rooms });
+    setGeometryError(undefined);
+    if (!manualPixelsPerMeter) setOutlineNeedsCalibration(true);
+    if (renderedFloorplan) setFloorplanRenderStale(true);
+  };
+
+  const insertVertexAt = (point: Point) => {
+    const room = analysis?.rooms.find((candidate) => candidate.id === editingRoomId);
+    if (!room) return;
+    const nearest = nearestBoundaryPoint(point, room.polygon);
+    if (nearest.distance > OPENING_SNAP_DISTANCE) {
+      setGeometryError(t('輪郭線の上か近くをクリックしてください。', 'Click on or near the outline.'));
+      return;
+    }
+    if (nearest.edge.some((end) => Math.hypot(end.x - nearest.point.x, end.y - nearest.point.y) < 0.3)) {
+      setGeometryError(t('既存の点に近すぎます。', 'That is too close to an existing point.'));
+      return;
+    }
+    const polygon = [...room.polygon];
+    polygon.splice(nearest.edgeIndex + 1, 0, nearest.point);
+    replaceRoomPolygon(room.id, polygon);
+  };
+
+  const removeVertex = (pointIndex: number) => {
+    const room = analysis?.rooms.find((candidate) => candidate.id === editingRoomId);
+    if (!room) return;
+    if (room.polygon.length <= 3) {
+      setGeometryError(t('部屋には3点以上が必要です。', 'A room needs at least three points.'));
+      return;
+    }
+    replaceRoomPolygon(room.id, room.polygon.filter((_, index) => index !== pointIndex));
+  };
+
+  const finishRoomMerge = (targetId: string) => {
+    const keptRoom = analysis?.rooms.find((room) => room.id === mergeRoomId);
+    const mergedRoom = analysis?.rooms.find((room) => room.id === targetId);
+    if (!analysis || !keptRoom || !mergedRoom) return;
+    const tolerance = Math.max(0.5, MERGE_GAP_M * planPixelsPerMeter / Math.min(imageSize.width, imageSize.height) * 100);
+    const polygon = unionPolygons(keptRoom.polygon, mergedRoom.polygon, tolerance);
+    if (!polygon) {
+      setGeometryError(t('2つの部屋が壁を共有していません。先に輪郭を寄せてください。', 'These rooms do not share a wall. Drag their outlines together first.'));
+      return;
+    }
+    if (hasSelfIntersection(polygon)) {
+      setGeometryError(t('部屋が重なっているため結合できません。先に輪郭を修正してください。', 'The rooms overlap, so they cannot be merged. Fix the outlines first.'));
+      return;
+    }
+    const pixelsPerMeter = manualPixelsPerMeter || inferPixelsPerMeter(analysis.rooms);
+    if (!pixelsPerMeter) {
+      setGeometryError(t('面積を計算する縮尺がありません。先に縮尺を補正してください。', 'No usable scale is available for area calculation. Calibrate the scale first.'));
+      return;
+    }
+    // Openings between the two rooms are now inside one room; the rest of the merged room's openings move to the kept room.
+    const openings = (analysis.openings || [])
+      .filter((opening) => !(opening.roomIds.includes(keptRoom.id) && opening.roomIds.includes(mergedRoom.id)))
+      .map((opening) => opening.roomIds.includes(mergedRoom.id) ? {
+        ...opening,
+        roomIds: opening.roomIds.map((id) => id === mergedRoom.id ? keptRoom.id : id),
+        swingRoomId: opening.swingRoomId === mergedRoom.id ? keptRoom.id : opening.swingRoomId,
+      } : opening);
+    const geometryIssue = 'User-merged room: verify the combined outline and measurements.';
+    const [nextRoom] = recalculateRooms([{
+      ...keptRoom,
+      polygon,
+      confidence: 'low',
+      validationIssues: [...new Set([...(keptRoom.validationIssues || []), geometryIssue])],
+    }], pixelsPerMeter, openings);
+    const rooms = analysis.rooms.filter((room) => room.id !== mergedRoom.id).map((room) => room.id === keptRoom.id ? nextRoom : room);
     setAnalysis({
       ...analysis,
+      rooms: withOpeningDeductions(rooms, openings),
+      openings,
+      confidence: 'low',
+      measurementStatus: 'unverified-ai-estimate',
+      validationIssues: [...new Set([...(analysis.validationIssues || []), geometryIssue])],
+    });
+    const withoutMerged = (current: Record<string, string>) => Object.fromEntries(Object.entries(current).filter(([roomId]) => roomId !== mergedRoom.id));
+    setRoomFloorMaterials(withoutMerged);
+    setRoomWallMaterials(withoutMerged);
+    if (renderedFloorplan) setFloorplanRenderStale(true);
+    if (!manualPixelsPerMeter) setOutlineNeedsCalibration(true);
+    cancelGeometryTool();
+  };
+
+  /** Refits the scale over every accepted reference and recomputes all rooms; with none accepted the current scale stays. */
+  const applyScaleReferences = (current: FloorplanAnalysis, dimensions: ScaleReference[]) => {
+    const fit = fitPixelsPerMeter(dimensions, imageSize);
+    if (!fit) {
+      setAnalysis({ ...current, dimensions });
+      return;
+    }
+    const rooms = recalculateRooms(current.rooms, fit.pixelsPerMeter, current.openings || []);
+    const [single] = dimensions.filter((reference) => reference.status === 'accepted');
+    setAnalysis({
+      ...current,
+      dimensions,
       rooms,
       confidence: rooms.some((room) => room.validationIssues?.length) ? 'low' : 'medium',
+      validationIssues: current.validationIssues?.filter((issue) => !issue.endsWith(UNMEASURED_ISSUE)),
       measurementStatus: 'unverified-ai-estimate',
-      assumptionJa: `図面上の2点間 ${calibrationLengthM.toFixed(2)}m で手動縮尺補正。面積は現場採寸で最終確認してください。`,
-      assumptionEn: `Manually calibrated from a ${calibrationLengthM.toFixed(2)} m two-point reference. Verify final areas on site.`,
+      assumptionJa: fit.referenceCount > 1
+        ? `採用した寸法${fit.referenceCount}件から最小二乗法で縮尺を算出（誤差RMS ${fit.rmsPercent}%）。面積は現場採寸で最終確認してください。`
+        : single.kind === 'manual'
+          ? `図面上の2点間 ${single.lengthM.toFixed(2)}m で手動縮尺補正。面積は現場採寸で最終確認してください。`
+          : `図面の寸法「${single.text}」（${single.lengthM.toFixed(2)}m）で縮尺補正。面積は現場採寸で最終確認してください。`,
+      assumptionEn: fit.referenceCount > 1
+        ? `Scale fitted by least squares over ${fit.referenceCount} accepted references (RMS error ${fit.rmsPercent}%). Verify final areas on site.`
+        : single.kind === 'manual'
+          ? `Manually calibrated from a ${single.lengthM.toFixed(2)} m two-point reference. Verify final areas on site.`
+          : `Calibrated from the drawn dimension "${single.text}" (${single.lengthM.toFixed(2)} m). Verify final areas on site.`,
     });
     if (renderedFloorplan) setFloorplanRenderStale(true);
-    setManualPixelsPerMeter(pixelsPerMeter);
+    setManualPixelsPerMeter(fit.pixelsPerMeter);
     setOutlineNeedsCalibration(false);
+  };
+
+  const applyManualCalibration = () => {
+    if (!analysis || calibrationPoints.length !== 2 || calibrationLengthM <= 0) return;
+    const [start, end] = calibrationPoints;
+    const reference: ScaleReference = { id: `manual-${Date.now()}`, kind: 'manual', text: `${calibrationLengthM.toFixed(2)} m`, lengthM: calibrationLengthM, start, end, status: 'accepted' };
+    if (!(referencePixelLength(reference, imageSize) > 0)) return;
+    applyScaleReferences(analysis, [...(analysis.dimensions || []), reference]);
     setCalibrationMode(false);
     setCalibrationPoints([]);
   };
 
+  const reviewScaleReference = (referenceId: string, status: 'accepted' | 'rejected') => {
+    if (!analysis?.dimensions) return;
+    applyScaleReferences(analysis, analysis.dimensions.map((reference) => reference.id === referenceId
+      ? { ...reference, status: reference.status === status ? undefined : status }
+      : reference));
+  };
+
   const updatePolygonPoint = (roomId: string, pointIndex: number, point: Point) => {
     setAnalysis((current) => {
       if (!current) return current;
       let rooms = current.rooms.map((room) => room.id === roomId
         ? { ...room, polygon: room.polygon.map((candidate, index) => index === pointIndex ? point : candidate) }
         : room);
-      if (manualPixelsPerMeter) rooms = recalculateRooms(rooms, manualPixelsPerMeter, roomId);
+      if (manualPixelsPerMeter) rooms = recalculateRooms(rooms, manualPixelsPerMeter, current.openings || [], roomId);
       return { ...current, rooms };
     });
     if (!manualPixelsPerMeter) setOutlineNeedsCalibration(true);
     if (renderedFloorplan) setFloorplanRenderStale(true);
   };
 
+  /** Applies snapping and the orthogonal constraint to a dragged corner. In orthogonal mode only a corner snap may break the constraint. */
+  const constrainVertex = (roomId: string, pointIndex: number, point: Point) => {
+    const room = analysis?.rooms.find((candidate) => candidate.id === roomId);
+    if (!analysis || !room) return point;
+    const tolerance = SNAP_SCREEN_PX / (Math.min(fittedSize.width, fittedSize.height) * zoom) * 100;
+    const others = analysis.rooms.filter((candidate) => candidate.id !== roomId);
+    const snap = snapEnabled ? snapPoint(point, {
+      vertices: others.flatMap((candidate) => candidate.polygon),
+      edges: others.flatMap((candidate) => candidate.polygon.map((start, index) => [start, candidate.polygon[(index + 1) % candidate.polygon.length]] as [Point, Point])),
+      walls: (analysis.walls || []).flatMap((wall) => {
+        const [startLeft, endLeft, endRight, startRight] = wallCorners(wall);
+        return [[startLeft, endLeft], [startRight, endRight]] as Array<[Point, Point]>;
+      }),
+    }, tolerance) : undefined;
+    if (orthogonalMode && room.polygon.length >= 3 && snap?.kind !== 'vertex') {
+      setVertexSnap(undefined);
+      const count = room.polygon.length;
+      return orthogonalPoint(room.polygon[(pointIndex + count - 1) % count], room.polygon[(pointIndex + 1) % count], point, planAxis, imageSize, tolerance);
+    }
+    setVertexSnap(snap);
+    return snap?.point || point;
+  };
+
   const queuePolygonPoint = (roomId: string, pointIndex: number, client: Point) => {
     pendingPointRef.current = { roomId, pointIndex, client };
     if (pointFrameRef.current !== undefined) return;
@@ -730,10 +1410,92 @@ export default function FloorplanWorkspace({ language }: Props) {
       pointFrameRef.current = undefined;
       const pending = pendingPointRef.current;
       const rect = handleRectRef.current;
-      if (pending && rect) updatePolygonPoint(pending.roomId, pending.pointIndex, pointFromRect(rect, pending.client.x, pending.client.y));
+      if (pending && rect) updatePolygonPoint(pending.roomId, pending.pointIndex, constrainVertex(pending.roomId, pending.pointIndex, pointFromRect(rect, pending.client.x, pending.client.y)));
     });
   };
 
+  const updateOpenings = (update: (openings: FloorplanOpening[]) => FloorplanOpening[]) => setAnalysis((current) => {
+    if (!current) return current;
+    const openings = update(current.openings || []);
+    return { ...current, openings, rooms: withOpeningDeductions(current.rooms, openings) };
+  });
+
+  /** Nearest room wall within snapping distance, its direction, and the (at most two) rooms sharing it. */
+  const wallSnap = (point: Point, rooms: FloorplanRoom[]) => {
+    const hits = rooms.filter((room) => room.polygon.length >= 2)
+      .map((room) => ({ room, ...nearestBoundaryPoint(point, room.polygon) }))
+      .filter((hit) => hit.distance <= OPENING_SNAP_DISTANCE)
+      .sort((a, b) => a.distance - b.distance);
+    if (!hits.length) return undefined;
+    const [start, end] = hits[0].edge;
+    const center = hits[0].point;
+    const orientation: FloorplanOpening['orientation'] = Math.abs((end.x - start.x) * imageSize.width) >= Math.abs((end.y - start.y) * imageSize.height) ? 'horizontal' : 'vertical';
+    const roomIds = hits.filter((hit) => nearestBoundaryPoint(center, hit.room.polygon).distance <= OPENING_SNAP_DISTANCE).slice(0, 2).map((hit) => hit.room.id);
+    return { center, orientation, roomIds };
+  };
+
+  const addOpeningAt = (point: Point) => {
+    if (!analysis) return;
+    const snap = wallSnap(point, analysis.rooms);
+    if (!snap) {
+      setGeometryError(t('部屋の壁の上か近くをクリックしてください。', 'Click on or near a room wall.'));
+      return;
+    }
+    const opening: FloorplanOpening = {
+      id: `user-opening-${Date.now()}`,
+      type: 'door',
+      ...snap,
+      widthM: analysis.assumedDoorWidthM || doorWidth,
+      heightM: DEFAULT_OPENING_HEIGHT_M.door,
+      hinge: 'start',
+      swingRoomId: snap.roomIds[0],
+    };
+    updateOpenings((openings) => [...openings, opening]);
+    cancelGeometryTool();
+    setSelectedOpeningId(opening.id);
+  };
+
+  const moveOpening = (openingId: string, point: Point) => setAnalysis((current) => {
+    const opening = current?.openings?.find((candidate) => candidate.id === openingId);
+    if (!current || !opening) return current;
+    const ownRooms = current.rooms.filter((room) => opening.roomIds.includes(room.id));
+    const snap = wallSnap(point, ownRooms.length ? ownRooms : current.rooms);
+    if (!snap) return current;
+    return { ...current, openings: current.openings!.map((candidate) => candidate.id === openingId ? { ...candidate, center: snap.center, orientation: snap.orientation } : candidate) };
+  });
+
+  const updateOpening = (openingId: string, patch: Partial<FloorplanOpening>) =>
+    updateOpenings((openings) => openings.map((opening) => opening.id === openingId ? { ...opening, ...patch } : opening));
+
+  const removeOpening = (openingId: string) => {
+    updateOpenings((openings) => openings.filter((opening) => opening.id !== openingId));
+    setSelectedOpeningId(undefined);
+  };
+
+  const updateWalls = (update: (walls: FloorplanWall[]) => FloorplanWall[]) =>
+    setAnalysis((current) => current && { ...current, walls: update(current.walls || []) });
+
+  const finishDrawnWall = () => {
+    if (drawPoints.length !== 2) return;
+    const [start, end] = drawPoints;
+    if (Math.hypot(end.x - start.x, end.y - start.y) < WALL_SNAP_DISTANCE) {
+      setGeometryError(t('壁が短すぎます。両端を離して指定してください。', 'The wall is too short. Place its ends farther apart.'));
+      return;
+    }
+    const wall: FloorplanWall = { id: `user-wall-${Date.now()}`, start, end, thicknessM: 0.12, exterior: false };
+    updateWalls((walls) => [...walls, wall]);
+    cancelGeometryTool();
+    setSelectedWallId(wall.id);
+  };
+
+  const updateWall = (wallId: string, patch: Partial<FloorplanWall>) =>
+    updateWalls((walls) => walls.map((wall) => wall.id === wallId ? { ...wall, ...patch } : wall));
+
+  const removeWall = (wallId: string) => {
+    updateWalls((walls) => walls.filter((wall) => wall.id !== wallId));
+    setSelectedWallId(undefined);
+  };
+
   const midpoint = (points: Point[]) => ({ x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 });
   const distance = (points: Point[]) => Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y);
 
@@ -801,12 +1563,63 @@ export default function FloorplanWorkspace({ language }: Props) {
 
   const selectedMaterialCount = analysis?.rooms.filter((room) => FLOOR_MATERIALS.some((item) => item.id === roomFloorMaterials[room.id])
     && WALL_MATERIALS.some((item) => item.id === roomWallMaterials[room.id])).length || 0;
+  const documentPixelsPerMeter = sourcePixelsPerMeter(analysis?.source);
+  const linkedPlanRooms = analysis?.rooms.filter((room) => room.id in linkedRooms) || [];
+  const unmeasuredRoomCount = analysis?.rooms.filter(isUnmeasured).length || 0;
+  const roomSyncStale = linkedPlanRooms.some((room) => Math.abs(linkedRooms[room.id] - room.floorAreaM2) >= 0.05);
+  const largePlan = Math.max(imageSize.width, imageSize.height) > TILED_ANALYSIS_MIN_EDGE;
   const vectorPixelsPerMeter = analysis ? manualPixelsPerMeter || inferPixelsPerMeter(analysis.rooms) : undefined;
+  const planPixelsPerMeter = vectorPixelsPerMeter || Math.max(imageSize.width, imageSize.height) / 10;
+  const wallGraph = analysis?.walls?.length
+    ? buildWallGraph(analysis.walls, analysis.rooms, planPixelsPerMeter * 200 / (imageSize.width + imageSize.height), WALL_SNAP_DISTANCE)
+    : undefined;
+  const scaleFit = analysis?.dimensions ? fitPixelsPerMeter(analysis.dimensions, imageSize) : undefined;
+  const adjacency = analysis ? buildAdjacencyGraph(analysis.rooms, analysis.openings || [], wallGraph?.sharedWalls) : undefined;
+  const overlappingRoomIds = new Set((analysis?.rooms || []).flatMap((room, index, rooms) => rooms.slice(index + 1)
+    .filter((other) => polygonsOverlap(room.polygon, other.polygon))
+    .flatMap((other) => [room.id, other.id])));
+  const planAxis = analysis ? dominantAxis(analysis.rooms.map((room) => room.polygon), imageSize) : 0;
+  const warnedRoomIds = new Set((adjacency?.warnings || []).flatMap((warning) => warning.kind === 'overlap' ? warning.roomIds : [warning.roomId]));
+  const selectedWallSegment = analysis?.walls?.find((wall) => wall.id === selectedWallId);
+  const roomNameOf = (roomId: string) => {
+    const room = analysis?.rooms.find((candidate) => candidate.id === roomId);
+    return room ? language === 'ja' ? room.nameJa : room.nameEn : roomId;
+  };
+  const floorNameOf = (roomId: string) => {
+    const material = FLOOR_MATERIALS.find((item) => item.id === roomFloorMaterials[roomId]);
+    return material ? language === 'ja' ? material.nameJa : material.nameEn : undefined;
+  };
+  const adjacencyWarningText = (warning: AdjacencyWarning) => {
+    if (warning.kind === 'overlap') {
+      const [first, second] = warning.roomIds.map(roomNameOf);
+      return t(`${first}と${second}が重なっています（小さい方の${warning.overlapPercent}%）。オープンプランの面積が二重に計上されている可能性があります。`, `${first} and ${second} overlap (${warning.overlapPercent}% of the smaller room). An open-plan zone may be counted twice.`);
+    }
+    const name = roomNameOf(warning.roomId);
+    return warning.kind === 'no-door'
+      ? t(`${name}にドアも開口もありません。解析結果を確認してください。`, `${name} has no door or passage. Check the analysis.`)
+      : t(`${name}には出入口からドアや開口を通って到達できません。`, `${name} cannot be reached from the entrance through doors or passages.`);
+  };
+  const wallLengthM = (wall: FloorplanWall) => Math.hypot((wall.end.x - wall.start.x) / 100 * imageSize.width, (wall.end.y - wall.start.y) / 100 * imageSize.height) / planPixelsPerMeter;
+  /** Wall corners offset by half the thickness in image pixels, so walls keep their width on a non-square plan. */
+  const wallCorners = (wall: FloorplanWall) => {
+    const dx = (wall.end.x - wall.start.x) * imageSize.width;
+    const dy = (wall.end.y - wall.start.y) * imageSize.height;
+    const length = Math.hypot(dx, dy) || 1;
+    const halfPx = wall.thicknessM * planPixelsPerMeter / 2;
+    const offset = { x: -dy / length * halfPx / imageSize.width * 100, y: dx / length * halfPx / imageSize.height * 100 };
+    return [
+      { x: wall.start.x + offset.x, y: wall.start.y + offset.y },
+      { x: wall.end.x + offset.x, y: wall.end.y + offset.y },
+      { x: wall.end.x - offset.x, y: wall.end.y - offset.y },
+      { x: wall.start.x - offset.x, y: wall.start.y - offset.y },
+    ];
+  };
+  const wallOutline = (wall: FloorplanWall) => wallCorners(wall).map((point) => `${point.x},${point.y}`).join(' ');
   const roomPatternId = (roomId: string) => `floor-pattern-${roomId.replace(/[^a-zA-Z0-9_-]/g, '-')}`;
   const roomTextureGeometry = (room: FloorplanRoom, materialId: string) => {
     const module = FLOOR_TEXTURE_MODULES[materialId] || { widthM: 0.12, lengthM: 0.9, label: 'generic floor module' };
     const scale = textureScalePercent / 100;
-    const pixelsPerMeter = vectorPixelsPerMeter || Math.max(imageSize.width, imageSize.height) / 10;
+    const pixelsPerMeter = planPixelsPerMeter;
     const widthX = Math.max(0.35, module.widthM * scale * pixelsPerMeter / imageSize.width * 100);
     const widthY = Math.max(0.35, module.widthM * scale * pixelsPerMeter / imageSize.height * 100);
     const lengthX = Math.max(widthX, module.lengthM * scale * pixelsPerMeter / imageSize.width * 100);
@@ -815,15 +1628,8 @@ export default function FloorplanWorkspace({ language }: Props) {
       x: room.polygon.reduce((sum, point) => sum + point.x, 0) / room.polygon.length,
       y: room.polygon.reduce((sum, point) => sum + point.y, 0) / room.polygon.length,
     };
-    const longestEdge = room.polygon.map((point, index) => {
-      const next = room.polygon[(index + 1) % room.polygon.length];
-      return {
-        dx: next.x - point.x,
-        dy: next.y - point.y,
-        length: Math.hypot((next.x - point.x) * imageSize.width, (next.y - point.y) * imageSize.height),
-      };
-    }).sort((a, b) => b.length - a.length)[0];
-    const angle = longestEdge ? Math.atan2(longestEdge.dy, longestEdge.dx) * 180 / Math.PI : 0;
+    const edge = longestEdge(room.polygon, imageSize);
+    const angle = edge ? Math.atan2(edge.dy, edge.dx) * 180 / Math.PI : 0;
     return { widthX, widthY, lengthX, lengthY, centroid, angle };
   };
 
@@ -858,11 +1664,25 @@ export default function FloorplanWorkspace({ language }: Props) {
     </pattern>;
   };
 
+  const openingSwingToward = (opening: FloorplanOpening) => {
+    const swingRoom = analysis?.rooms.find((room) => room.id === opening.swingRoomId);
+    if (swingRoom) return polygonCenter(swingRoom.polygon);
+    // A door with no swing room opens outward, away from its only room.
+    const ownRoom = analysis?.rooms.find((room) => room.id === opening.roomIds[0]);
+    if (!ownRoom) return undefined;
+    const inside = polygonCenter(ownRoom.polygon);
+    return { x: opening.center.x * 2 - inside.x, y: opening.center.y * 2 - inside.y };
+  };
+
   return <section className="floorplan-workspace" aria-label={t('カラー平面図の作成', 'Color floorplan creation')}>
     <div className="floorplan-main-panel">
       <header className="floorplan-header">
         <div><span>VECTOR COLOR + AI PRESENTATION</span><h2>{t('図面構造を保ち、平面図全体を自動カラー化', 'Automatically colorize the complete plan without changing its structure')}</h2><p>{t('部屋検出後、床・壁の仕上げと方向・タイルグリッドを自動設定し、正確なベクターカラー図を作成。最終レンダーでは家具・建具・設備まで同じスタイルで着彩します。', 'After room detection, floor and wall finishes, plank direction, and tile grids are assigned automatically in an accurate vector plan. The final render colours furniture, joinery, and fixtures in the same style.')}</p></div>
-        <button className="change-photo" disabled={loading || renderingFloorplan} onClick={() => inputRef.current?.click()}>{imageUrl ? t('平面図を変更', 'Change floorplan') : t('平面図を選択', 'Choose floorplan')}</button>
+        <div className="floorplan-header-actions">
+          {workspaceSaveState !== 'idle' && <span className={`project-save-state ${workspaceSaveState}`}>{workspaceSaveState === 'saving' ? t('保存中…', 'Saving…') : workspaceSaveState === 'unavailable' ? t('このブラウザでは保存不可', 'Local save unavailable') : `✓ ${t('ブラウザに保存済み', 'Saved in this browser')}`}</span>}
+          {imageUrl && <button className="change-photo" disabled={loading || renderingFloorplan} onClick={clearWorkspace}>{t('クリア', 'Clear')}</button>}
+          <button className="change-photo" disabled={loading || renderingFloorplan} onClick={() => inputRef.current?.click()}>{imageUrl ? t('平面図を変更', 'Change floorplan') : t('平面図を選択', 'Choose floorplan')}</button>
+        </div>
       </header>
 
       <div className="floorplan-workflow-steps" aria-label={t('カラー平面図ワークフロー', 'Color floorplan workflow')}>
@@ -871,13 +1691,15 @@ export default function FloorplanWorkspace({ language }: Props) {
         <div className={renderedFloorplan && !floorplanRenderStale ? 'complete' : analysis ? 'active' : ''}><b>3</b><span><strong>{t('図面全体を再構築', 'Recreate full plan')}</strong><small>{renderedFloorplan ? floorplanRenderStale ? t('更新が必要', 'Update needed') : t('生成済み', 'Ready') : t('スタイルを選択', 'Choose a style')}</small></span></div>
       </div>
 
-      <input ref={inputRef} type="file" accept="image/png,image/jpeg" hidden onChange={(event) => loadFloorplan(event.target.files?.[0])} />
-      <div className={`floorplan-stage ${dragActive ? 'dragging' : ''} ${!imageUrl ? 'empty' : ''}`}
+      <input ref={inputRef} type="file" accept="image/png,image/jpeg,application/pdf,image/svg+xml,.dxf,.svg" hidden onChange={(event) => loadFloorplan(event.target.files?.[0])} />
+      <div className={`floorplan-stage ${dragActive ? 'dragging' : ''} ${!activeImageUrl ? 'empty' : ''}`}
         onDragEnter={(event) => { event.preventDefault(); setDragActive(true); }} onDragOver={(event) => event.preventDefault()}
         onDragLeave={() => setDragActive(false)} onDrop={(event) => { event.preventDefault(); setDragActive(false); loadFloorplan(event.dataTransfer.files[0]); }}
-        onClick={() => { if (!imageUrl) inputRef.current?.click(); }} role={!imageUrl ? 'button' : undefined} tabIndex={!imageUrl ? 0 : undefined}
-        onKeyDown={(event) => { if (!imageUrl && event.key === 'Enter') inputRef.current?.click(); }}>
-        {loading || renderingFloorplan ? <div className="floorplan-loading"><span className="studio-spinner" /><strong>{renderingFloorplan ? t('図面全体を再構築しています', 'Reconstructing the complete floorplan') : t('壁・開口・部屋を解析しています', 'Detecting walls, openings, and rooms')}</strong><small>{renderingFloorplan ? t('壁・開口・建具・設備を固定し、選択スタイルを適用中…', 'Locking walls, openings, doors, and fixtures before applying the style…') : t('ドア幅から縮尺と面積を推定中…', 'Calibrating scale and areas from door width…')}</small></div>
+        onClick={() => { if (!activeImageUrl) inputRef.current?.click(); }} role={!activeImageUrl ? 'button' : undefined} tabIndex={!activeImageUrl ? 0 : undefined}
+        onKeyDown={(event) => { if (!activeImageUrl && event.key === 'Enter') inputRef.current?.click(); }}>
+        {vectorImport ? <FloorplanVectorImport language={language} fileName={vectorImport.fileName} drawing={vectorImport.drawing} busy={importingVector} onConfirm={importVectorRooms} onCancel={() => setVectorImport(undefined)} />
+          : pdfPicker ? <FloorplanPdfPicker language={language} fileName={pdfPicker.fileName} pdf={pdfPicker.pdf} busy={rasterizingPdf} onConfirm={choosePdfPage} onCancel={closePdfPicker} />
+          : loading || renderingFloorplan ? <div className="floorplan-loading"><span className="studio-spinner" /><strong>{renderingFloorplan ? t('図面全体を再構築しています', 'Reconstructing the complete floorplan') : t('壁・開口・部屋を解析しています', 'Detecting walls, openings, and rooms')}</strong><small>{renderingFloorplan ? `${t('壁・開口・建具・設備を固定し、選択スタイルを適用中…', 'Locking walls, openings, doors, and fixtures before applying the style…')} ${Math.round(floorplanRenderProgress * 100)}%` : tileProgress ? t(`タイル ${tileProgress.done + 1}/${tileProgress.total} を解析中…`, `Analyzing tile ${tileProgress.done + 1} of ${tileProgress.total}…`) : t('ドア幅から縮尺と面積を推定中…', 'Calibrating scale and areas from door width…')}</small>{renderingFloorplan && <button className="render-cancel-button" onClick={(event) => { event.stopPropagation(); cancelFloorplanRender(); }}>{t('生成を中止', 'Cancel render')}</button>}</div>
           : activeImageUrl ? <><div ref={viewportRef} className={`floorplan-viewport ${zoom > 1 ? 'zoomed' : ''}`}
             onPointerDown={startPointerGesture} onPointerMove={movePointerGesture} onPointerUp={endPointerGesture} onPointerCancel={endPointerGesture}
             onPointerLeave={(event) => { if (!event.currentTarget.hasPointerCapture(event.pointerId)) endPointerGesture(event); }}
@@ -890,7 +1712,7 @@ export default function FloorplanWorkspace({ language }: Props) {
               })}</defs>
               {analysis.rooms.map((room, index) => {
                 const material = FLOOR_MATERIALS.find((item) => item.id === roomFloorMaterials[room.id]);
-                return <g key={room.id} className={`selected ${material ? 'material-preview vector-colorized' : ''}`}>
+                return <g key={room.id} className={`selected ${material ? 'material-preview vector-colorized' : ''} ${overlappingRoomIds.has(room.id) ? 'overlapping' : ''}`}>
                 <title>{`${language === 'ja' ? room.nameJa : room.nameEn} · ${material ? language === 'ja' ? material.colorJa : material.colorEn : t('床材未選択', 'No floor selected')}`}</title>
                 <polygon points={room.polygon.map((point) => `${point.x},${point.y}`).join(' ')} style={{ '--room-color': material?.swatch || ROOM_COLORS[index % ROOM_COLORS.length], fill: material ? `url(#${roomPatternId(room.id)})` : undefined } as React.CSSProperties} />
                 {room.polygon[0] && <text x={room.polygon.reduce((sum, point) => sum + point.x, 0) / room.polygon.length} y={room.polygon.reduce((sum, point) => sum + point.y, 0) / room.polygon.length}>{index + 1}</text>}
@@ -898,14 +1720,68 @@ export default function FloorplanWorkspace({ language }: Props) {
                   onClick={(event) => event.stopPropagation()}
                   onPointerDown={(event) => { event.stopPropagation(); event.currentTarget.setPointerCapture(event.pointerId); handleRectRef.current = svgRectOf(event.currentTarget); }}
                   onPointerMove={(event) => { if (event.currentTarget.hasPointerCapture(event.pointerId)) queuePolygonPoint(room.id, pointIndex, { x: event.clientX, y: event.clientY }); }}
-                  onPointerUp={(event) => { event.stopPropagation(); event.currentTarget.releasePointerCapture(event.pointerId); }} />)}
+                  onPointerUp={(event) => { event.stopPropagation(); event.currentTarget.releasePointerCapture(event.pointerId); setVertexSnap(undefined); }} />)}
               </g>;})}
+              {vertexSnap && <circle className={`vertex-snap ${vertexSnap.kind}`} cx={vertexSnap.point.x} cy={vertexSnap.point.y} r={1.6 / zoom} />}
+              {(analysis.openings || []).map((opening) => {
+                const symbol = openingSymbol(opening, planPixelsPerMeter, imageSize, opening.type === 'door' ? openingSwingToward(opening) : undefined);
+                const [start, end] = symbol.jambs;
+                return <g key={opening.id} className={`floorplan-opening ${opening.type} ${selectedOpeningId === opening.id ? 'selected' : ''}`}
+                  onPointerDown={(event) => event.stopPropagation()} onClick={(event) => { event.stopPropagation(); setSelectedOpeningId(opening.id); }}>
+                  <title>{`${openingTypeLabel(opening.type)[language]} · ${opening.widthM.toFixed(2)} m`}</title>
+                  <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} />
+                  {symbol.leaf && <path d={`M ${symbol.leaf.hinge.x} ${symbol.leaf.hinge.y} L ${symbol.leaf.tip.x} ${symbol.leaf.tip.y} A ${symbol.leaf.rx} ${symbol.leaf.ry} 0 0 ${symbol.leaf.sweep} ${symbol.leaf.closing.x} ${symbol.leaf.closing.y}`} />}
+                  {selectedOpeningId === opening.id && <circle className="polygon-handle" cx={opening.center.x} cy={opening.center.y} r={1.15 / zoom}
+                    onPointerDown={(event) => { event.stopPropagation(); event.currentTarget.setPointerCapture(event.pointerId); handleRectRef.current = svgRectOf(event.currentTarget); }}
+                    onPointerMove={(event) => { if (event.currentTarget.hasPointerCapture(event.pointerId) && handleRectRef.current) moveOpening(opening.id, pointFromRect(handleRectRef.current, event.clientX, event.clientY)); }}
+                    onPointerUp={(event) => { event.stopPropagation(); event.currentTarget.releasePointerCapture(event.pointerId); }} />}
+                </g>;
+              })}
+              {showDimensions && Boolean(analysis.dimensions?.length) && <g className="dimension-layer">
+                {analysis.dimensions!.map((reference) => <g key={reference.id} className={`dimension-reference ${reference.kind} ${reference.status || 'pending'} ${highlightedDimensionId === reference.id ? 'highlighted' : ''}`}>
+                  <line x1={reference.start.x} y1={reference.start.y} x2={reference.end.x} y2={reference.end.y} />
+                  <circle cx={reference.start.x} cy={reference.start.y} r={0.55 / zoom} />
+                  <circle cx={reference.end.x} cy={reference.end.y} r={0.55 / zoom} />
+                  <text x={(reference.start.x + reference.end.x) / 2} y={(reference.start.y + reference.end.y) / 2}>{reference.text}</text>
+                </g>)}
+              </g>}
+              {showCirculation && adjacency && <g className="circulation-layer">
+                {adjacency.connections.map((connection) => {
+                  const [first, second] = connection.roomIds.map((roomId) => analysis.rooms.find((room) => room.id === roomId));
+                  if (!first || !second) return null;
+                  const opening = analysis.openings?.find((candidate) => connection.openingIds.includes(candidate.id) && candidate.type !== 'window');
+                  const points = [polygonCenter(first.polygon), ...opening ? [opening.center] : [], polygonCenter(second.polygon)];
+                  return <polyline key={connection.roomIds.join('-')} className={connection.via} points={points.map((point) => `${point.x},${point.y}`).join(' ')} />;
+                })}
+                {analysis.rooms.map((room) => {
+                  const center = polygonCenter(room.polygon);
+                  return <circle key={room.id} className={`${warnedRoomIds.has(room.id) ? 'warning' : ''} ${adjacency.entranceRoomIds.includes(room.id) ? 'entrance' : ''}`} cx={center.x} cy={center.y} r={1.6 / zoom} />;
+                })}
+              </g>}
+              {wallEditing && <g className="floorplan-wall-layer">
+                {(analysis.walls || []).map((wall) => <polygon key={wall.id} className={`floorplan-wall ${wall.exterior ? 'exterior' : ''} ${selectedWallId === wall.id ? 'selected' : ''}`} points={wallOutline(wall)}
+                  onPointerDown={(event) => event.stopPropagation()} onClick={(event) => { event.stopPropagation(); setSelectedWallId(wall.id); }}>
+                  <title>{`${wallLengthM(wall).toFixed(2)} m · ${t('厚さ', 'thickness')} ${wall.thicknessM.toFixed(2)} m`}</title>
+                </polygon>)}
+                {wallGraph?.junctions.map((junction) => <circle key={junction.id} className={`wall-junction ${junction.kind}`} cx={junction.point.x} cy={junction.point.y} r={0.95 / zoom}
+                  onClick={(event) => event.stopPropagation()}
+                  onPointerDown={(event) => { event.stopPropagation(); event.currentTarget.setPointerCapture(event.pointerId); handleRectRef.current = svgRectOf(event.currentTarget); wallDragRef.current = junction; }}
+                  onPointerMove={(event) => {
+                    const dragged = wallDragRef.current;
+                    const rect = handleRectRef.current;
+                    if (event.currentTarget.hasPointerCapture(event.pointerId) && dragged && rect) updateWalls((walls) => moveWallJunction(walls, dragged, pointFromRect(rect, event.clientX, event.clientY)));
+                  }}
+                  onPointerUp={(event) => { event.stopPropagation(); event.currentTarget.releasePointerCapture(event.pointerId); wallDragRef.current = undefined; }} />)}
+              </g>}
               {geometryTool && <g className="geometry-tool-layer">
-                {geometryTool === 'split-room' && splitRoomId && <polygon className="split-room-target" points={analysis.rooms.find((room) => room.id === splitRoomId)?.polygon.map((point) => `${point.x},${point.y}`).join(' ')} />}
+                {(geometryTool === 'split-room' || geometryTool === 'merge-rooms') && <polygon className="split-room-target" points={analysis.rooms.find((room) => room.id === (geometryTool === 'split-room' ? splitRoomId : mergeRoomId))?.polygon.map((point) => `${point.x},${point.y}`).join(' ')} />}
                 {geometryTool === 'draw-room' && drawPoints.length > 1 && <polygon className="draft-room-polygon" points={drawPoints.map((point) => `${point.x},${point.y}`).join(' ')} />}
                 {geometryTool === 'split-room' && splitPoints.length === 2 && <line className="draft-split-line" x1={splitPoints[0].x} y1={splitPoints[0].y} x2={splitPoints[1].x} y2={splitPoints[1].y} />}
+                {geometryTool === 'draw-wall' && drawPoints.length === 2 && <line className="draft-split-line" x1={drawPoints[0].x} y1={drawPoints[0].y} x2={drawPoints[1].x} y2={drawPoints[1].y} />}
                 <rect x="0" y="0" width="100" height="100" onPointerDown={(event) => event.stopPropagation()} onClick={handleGeometryPoint} />
-                {(geometryTool === 'draw-room' ? drawPoints : splitPoints).map((point, index) => <g className="geometry-point" key={index}><circle cx={point.x} cy={point.y} r={1.35 / zoom} /><text x={point.x} y={point.y}>{index + 1}</text></g>)}
+                {geometryTool === 'delete-vertex' && analysis.rooms.find((room) => room.id === editingRoomId)?.polygon.map((point, pointIndex) => <circle key={pointIndex} className="polygon-handle removable" cx={point.x} cy={point.y} r={1.15 / zoom}
+                  onPointerDown={(event) => event.stopPropagation()} onClick={(event) => { event.stopPropagation(); removeVertex(pointIndex); }} />)}
+                {(geometryTool === 'split-room' ? splitPoints : drawPoints).map((point, index) => <g className="geometry-point" key={index}><circle cx={point.x} cy={point.y} r={1.35 / zoom} /><text x={point.x} y={point.y}>{index + 1}</text></g>)}
               </g>}
               {calibrationMode && <g className="calibration-layer">
                 <rect x="0" y="0" width="100" height="100" onPointerDown={(event) => event.stopPropagation()} onClick={(event) => { event.stopPropagation(); const point = pointFromEvent(event); setCalibrationPoints((current) => current.length >= 2 ? [point] : [...current, point]); }} />
@@ -926,7 +1802,12 @@ export default function FloorplanWorkspace({ language }: Props) {
           {floorplanView === 'plan' && <div className="floorplan-edit-controls" onPointerDown={(event) => event.stopPropagation()}>
             <button className={calibrationMode ? 'active' : ''} disabled={!analysis} onClick={() => { const nextMode = !calibrationMode; cancelGeometryTool(); cancelRoomRename(); setCalibrationMode(nextMode); setCalibrationPoints([]); setEditingRoomId(undefined); }}>{t('縮尺を補正', 'Calibrate scale')}</button>
             <button className={geometryTool === 'draw-room' ? 'active' : ''} disabled={!analysis} onClick={() => geometryTool === 'draw-room' ? cancelGeometryTool() : beginDrawRoom()}>{t('部屋を描画', 'Draw room')}</button>
+            {Boolean(analysis?.dimensions?.length) && <button className={showDimensions ? 'active' : ''} onClick={() => setShowDimensions((current) => !current)}>{t('寸法', 'Dimensions')}</button>}
+            <button className={showCirculation ? 'active' : ''} disabled={!analysis} onClick={() => setShowCirculation((current) => !current)}>{t('動線', 'Circulation')}</button>
+            <button className={wallEditing ? 'active' : ''} disabled={!analysis} onClick={toggleWallEditing}>{t('壁を編集', 'Edit walls')}</button>
+            <button className={geometryTool === 'add-opening' ? 'active' : ''} disabled={!analysis} onClick={() => geometryTool === 'add-opening' ? cancelGeometryTool() : beginAddOpening()}>{t('開口を追加', 'Add opening')}</button>
             {manualPixelsPerMeter && <span>✓ {t('手動補正済み', 'Manually calibrated')}</span>}
+            {overlappingRoomIds.size > 0 && <span className="overlap-count">⚠ {t(`${overlappingRoomIds.size}室が重なっています`, `${overlappingRoomIds.size} rooms overlap`)}</span>}
           </div>}
           {floorplanView === 'render' && floorplanRenderStale && <div className="floorplan-render-stale">{t('仕上げまたはスタイルが変更されました · 再生成してください', 'Finishes or style changed · render again')}</div>}
           {floorplanView === 'plan' && calibrationMode && <div className="floorplan-calibration-editor" onPointerDown={(event) => event.stopPropagation()}>
@@ -934,19 +1815,50 @@ export default function FloorplanWorkspace({ language }: Props) {
             <label><span>{t('実寸', 'Actual length')}</span><input type="number" min="0.1" step="0.1" value={calibrationLengthM} onChange={(event) => setCalibrationLengthM(Number(event.target.value) || 1)} /><em>m</em></label>
             <button disabled={calibrationPoints.length !== 2} onClick={applyManualCalibration}>{t('補正を適用', 'Apply calibration')}</button>
           </div>}
-          {floorplanView === 'plan' && geometryTool && <div className="floorplan-geometry-editor" onPointerDown={(event) => event.stopPropagation()}>
+          {floorplanView === 'plan' && geometryTool === 'add-opening' && <div className="floorplan-geometry-editor" onPointerDown={(event) => event.stopPropagation()}>
+            <div><strong>{t('開口を置く壁をクリック', 'Click the wall where the opening is')}</strong><small>{t('開き戸として追加されます。種類と寸法は右の一覧で変更できます。', 'It is added as a door; change its type and size in the list.')}</small>{geometryError && <em>{geometryError}</em>}</div>
+            <button className="secondary" onClick={cancelGeometryTool}>{t('キャンセル', 'Cancel')}</button>
+          </div>}
+          {floorplanView === 'plan' && geometryTool === 'draw-wall' && <div className="floorplan-geometry-editor" onPointerDown={(event) => event.stopPropagation()}>
+            <div><strong>{t('壁の中心線の両端をクリック', 'Click both ends of the wall centerline')}</strong><small>{t(`${drawPoints.length}/2点を選択 · 近くの交点に吸着します`, `${drawPoints.length}/2 points selected · ends snap to nearby junctions`)}</small>{geometryError && <em>{geometryError}</em>}</div>
+            <button className="secondary" onClick={cancelGeometryTool}>{t('キャンセル', 'Cancel')}</button>
+            <button disabled={drawPoints.length !== 2} onClick={finishDrawnWall}>{t('壁を追加', 'Add wall')}</button>
+          </div>}
+          {floorplanView === 'plan' && wallEditing && !geometryTool && !calibrationMode && <div className="floorplan-wall-editor" onPointerDown={(event) => event.stopPropagation()}>
+            {selectedWallSegment ? <>
+              <div><strong>{t('壁', 'Wall')} · {wallLengthM(selectedWallSegment).toFixed(2)} m</strong><small>{[wallGraph?.sides[selectedWallSegment.id]?.left, wallGraph?.sides[selectedWallSegment.id]?.right].map((roomIds) => roomIds?.length ? roomIds.map(roomNameOf).join(', ') : t('屋外・なし', 'outside')).join(' ⟷ ')}</small></div>
+              <label><span>{t('厚さ', 'Thickness')}</span><input type="number" min="0.05" max="0.6" step="0.01" value={selectedWallSegment.thicknessM} onChange={(event) => { const thicknessM = Number(event.target.value); if (thicknessM >= 0.05 && thicknessM <= 0.6) updateWall(selectedWallSegment.id, { thicknessM }); }} /><em>m</em></label>
+              <label className="wall-exterior-toggle"><input type="checkbox" checked={selectedWallSegment.exterior} onChange={(event) => updateWall(selectedWallSegment.id, { exterior: event.target.checked })} /><span>{t('外壁', 'Exterior')}</span></label>
+              <button className="secondary" onClick={() => removeWall(selectedWallSegment.id)}>{t('削除', 'Delete')}</button>
+            </> : <div><strong>{t('壁をクリックして選択', 'Click a wall to select it')}</strong><small>{t('交点をドラッグすると、そこで接するすべての壁が一緒に動きます。', 'Drag a junction to move every wall that meets there.')}</small></div>}
+            <button onClick={beginDrawWall}>{t('壁を描画', 'Draw wall')}</button>
+          </div>}
+          {floorplanView === 'plan' && editingRoomId && (!geometryTool || geometryTool === 'insert-vertex' || geometryTool === 'delete-vertex') && <div className="floorplan-geometry-editor" onPointerDown={(event) => event.stopPropagation()}>
+            <div><strong>{geometryTool === 'insert-vertex' ? t('点を追加する輪郭線をクリック', 'Click the outline where a point should go') : geometryTool === 'delete-vertex' ? t('削除する点をクリック', 'Click a point to remove it') : t('点をドラッグして輪郭を調整', 'Drag points to adjust the outline')}</strong><small>{roomNameOf(editingRoomId)} · {t(`${analysis?.rooms.find((room) => room.id === editingRoomId)?.polygon.length || 0}点`, `${analysis?.rooms.find((room) => room.id === editingRoomId)?.polygon.length || 0} points`)}</small>{geometryError && <em>{geometryError}</em>}</div>
+            <button className={geometryTool === 'insert-vertex' ? '' : 'secondary'} onClick={() => toggleVertexTool('insert-vertex')}>{t('点を追加', 'Add point')}</button>
+            <button className={geometryTool === 'delete-vertex' ? '' : 'secondary'} onClick={() => toggleVertexTool('delete-vertex')}>{t('点を削除', 'Remove point')}</button>
+            <button className={snapEnabled ? '' : 'secondary'} aria-pressed={snapEnabled} onClick={() => setSnapEnabled((current) => !current)}>{t('スナップ', 'Snap')}</button>
+            <button className={orthogonalMode ? '' : 'secondary'} aria-pressed={orthogonalMode} onClick={() => setOrthogonalMode((current) => !current)}>{t('直交', 'Orthogonal')}</button>
+          </div>}
+          {floorplanView === 'plan' && geometryTool === 'merge-rooms' && <div className="floorplan-geometry-editor" onPointerDown={(event) => event.stopPropagation()}>
+            <div><strong>{t('結合する隣の部屋をクリック', 'Click the neighbouring room to merge')}</strong><small>{t(`${roomNameOf(mergeRoomId || '')}の名前と仕上げを残します`, `${roomNameOf(mergeRoomId || '')} keeps its name and finishes`)}</small>{geometryError && <em>{geometryError}</em>}</div>
+            <button className="secondary" onClick={cancelGeometryTool}>{t('キャンセル', 'Cancel')}</button>
+          </div>}
+          {floorplanView === 'plan' && (geometryTool === 'draw-room' || geometryTool === 'split-room') && <div className="floorplan-geometry-editor" onPointerDown={(event) => event.stopPropagation()}>
             <div><strong>{geometryTool === 'draw-room' ? t('部屋の角を順番にクリック', 'Click each room corner in order') : t('部屋を横切る分割線を指定', 'Place a line across the room')}</strong><small>{geometryTool === 'draw-room' ? t(`${drawPoints.length}点 · 3点以上必要`, `${drawPoints.length} points · at least 3 required`) : t(`${splitPoints.length}/2点を選択`, `${splitPoints.length}/2 points selected`)}</small>{geometryError && <em>{geometryError}</em>}</div>
             <button className="secondary" onClick={cancelGeometryTool}>{t('キャンセル', 'Cancel')}</button>
             <button disabled={geometryTool === 'draw-room' ? drawPoints.length < 3 : splitPoints.length !== 2} onClick={geometryTool === 'draw-room' ? finishDrawnRoom : finishRoomSplit}>{geometryTool === 'draw-room' ? t('部屋を追加', 'Add room') : t('分割を適用', 'Apply split')}</button>
           </div>}
-          {!calibrationMode && !geometryTool && <div className="floorplan-gesture-hint">{t('スクロールで拡大 · ドラッグで移動 · 2本指でピンチ', 'Scroll to zoom · drag to pan · pinch with two fingers')}</div>}</>
-          : <div className="upload-message"><span>＋</span><strong>{t('白黒の平面図をアップロード', 'Upload a black-and-white floorplan')}</strong><small>PNG / JPEG · {t('最大12MB', '12 MB max')}</small><em>{t('AIが部屋を検出した後、各室の床材・壁材と仕上がりスタイルを選べます。', 'AI will detect the rooms, then you can assign floors and walls and choose a presentation style.')}</em></div>}
+          {!calibrationMode && !geometryTool && !wallEditing && !editingRoomId && <div className="floorplan-gesture-hint">{t('スクロールで拡大 · ドラッグで移動 · 2本指でピンチ', 'Scroll to zoom · drag to pan · pinch with two fingers')}</div>}</>
+          : <div className="upload-message"><span>＋</span><strong>{t('白黒の平面図をアップロード', 'Upload a black-and-white floorplan')}</strong><small>PNG / JPEG · {t('最大12MB', '12 MB max')} · PDF · {t('最大40MB', '40 MB max')} · DXF / SVG</small><em>{t('AIが部屋を検出した後、各室の床材・壁材と仕上がりスタイルを選べます。', 'AI will detect the rooms, then you can assign floors and walls and choose a presentation style.')}</em></div>}
       </div>
 
       <footer className="floorplan-controls">
         <label><span>{t('基準ドア幅', 'Standard door width')}</span><div><input type="number" min="0.6" max="1.2" step="0.05" value={doorWidth} onChange={(event) => setDoorWidth(Number(event.target.value) || 0.8)} /><em>m</em></div></label>
-        <div><strong>{fileName || t('平面図未選択', 'No floorplan selected')}</strong><small>{t('一般的な室内ドアは0.8mとして設定済みです。図面に寸法があればAIが優先します。', 'Preset to a typical 0.8 m interior door. AI prioritizes written dimensions when present.')}</small></div>
-        <button className="render-button" disabled={!imageData || loading || renderingFloorplan} onClick={analyzeFloorplan}>{analysis ? t('部屋を再検出', 'Detect again') : t('部屋を検出', 'Detect rooms')} <span>→</span></button>
+        <div><strong>{fileName || t('平面図未選択', 'No floorplan selected')}</strong>{largePlan
+          ? <label className="floorplan-tiled-toggle"><input type="checkbox" checked={tiledAnalysis} disabled={loading || renderingFloorplan} onChange={(event) => setTiledAnalysis(event.target.checked)} /><small>{t(`高解像度タイル解析（${planTiles(imageSize).length}分割・部屋数の多い図面向け）`, `High-resolution tiles (${planTiles(imageSize).length} tiles, for plans with many rooms)`)}</small></label>
+          : <small>{t('一般的な室内ドアは0.8mとして設定済みです。図面に寸法があればAIが優先します。', 'Preset to a typical 0.8 m interior door. AI prioritizes written dimensions when present.')}</small>}</div>
+        <button className="render-button" disabled={!imageData || loading || renderingFloorplan} onClick={largePlan && tiledAnalysis ? analyzeFloorplanTiles : analyzeFloorplan}>{analysis ? t('部屋を再検出', 'Detect again') : t('部屋を検出', 'Detect rooms')} <span>→</span></button>
       </footer>
       {error && <div className="render-error demo-notice"><strong>{t('今回は解析されませんでした', 'Not analyzed this time')}</strong><span>{error}</span></div>}
     </div>
@@ -954,15 +1866,30 @@ export default function FloorplanWorkspace({ language }: Props) {
     <aside className="floorplan-room-panel">
       <div className="changes-heading"><div><span>ROOM FINISH MATERIALS</span><h2>{t('部屋ごとの仕上げ', 'Finishes by room')}</h2></div><strong>{analysis ? `${selectedMaterialCount}/${analysis.rooms.length}` : '0'}</strong></div>
       {analysis ? <>
-        <div className="floorplan-calibration"><span>{t('縮尺基準', 'Scale reference')}</span><strong>{manualPixelsPerMeter ? t('手動寸法', 'Manual dimension') : analysis.scaleSource === 'explicit-dimension' ? t('図面記載寸法', 'Written dimension') : analysis.scaleSource === 'door-width' ? `${analysis.assumedDoorWidthM.toFixed(2)} m ${t('ドア', 'door')}` : t('概算', 'Estimate')}</strong><small>{analysis.scaleEvidence || t(`ドア ${analysis.detectedDoorCount}箇所を検出`, `${analysis.detectedDoorCount} door(s) detected`)} · {analysis.confidence === 'high' ? t('詳細', 'Detailed') : analysis.confidence === 'medium' ? t('標準', 'Standard') : t('参考値', 'Indicative')}</small></div>
+        <div className="floorplan-calibration"><span>{t('縮尺基準', 'Scale reference')}</span><strong>{scaleFit && scaleFit.referenceCount > 1 ? t(`寸法${scaleFit.referenceCount}件 · 最小二乗`, `${scaleFit.referenceCount} references · least squares`) : manualPixelsPerMeter && manualPixelsPerMeter !== documentPixelsPerMeter ? t('手動寸法', 'Manual dimension') : analysis.source?.kind === 'pdf' && analysis.scaleSource === 'document-scale' ? t(`図面縮尺 1:${analysis.source.scaleDenominator}`, `Drawing scale 1:${analysis.source.scaleDenominator}`) : analysis.scaleSource === 'vector-units' ? t('CAD実寸', 'CAD units') : analysis.scaleSource === 'explicit-dimension' ? t('図面記載寸法', 'Written dimension') : analysis.scaleSource === 'door-width' ? `${analysis.assumedDoorWidthM.toFixed(2)} m ${t('ドア', 'door')}` : t('概算', 'Estimate')}</strong><small>{analysis.scaleEvidence || t(`ドア ${analysis.detectedDoorCount}箇所を検出`, `${analysis.detectedDoorCount} door(s) detected`)} · {analysis.confidence === 'high' ? t('詳細', 'Detailed') : analysis.confidence === 'medium' ? t('標準', 'Standard') : t('参考値', 'Indicative')}{analysis.tileCount ? ` · ${t(`${analysis.tileCount}タイル統合`, `${analysis.tileCount} tiles merged`)}` : ''}</small></div>
+        {Boolean(analysis.dimensions?.length) && <div className="floorplan-scale-references">
+          <div className="floorplan-openings-heading"><strong>{t('縮尺の基準寸法', 'Scale references')}</strong><small>{scaleFit?.referenceCount || 0}/{analysis.dimensions!.length}</small></div>
+          <ul>{analysis.dimensions!.map((reference) => {
+            const residual = scaleFit?.residualPercent[reference.id];
+            return <li key={reference.id} className={reference.status || 'pending'} onMouseEnter={() => setHighlightedDimensionId(reference.id)} onMouseLeave={() => setHighlightedDimensionId(undefined)}>
+              <span><strong>{reference.text}</strong><small>{reference.kind === 'manual' ? t('手動2点', 'Manual two-point') : reference.kind === 'scale-bar' ? t('スケールバー', 'Scale bar') : t('寸法', 'Dimension')} · {reference.lengthM.toFixed(2)} m{residual !== undefined && <b className={Math.abs(residual) > 5 ? 'outlier' : ''}> · {residual > 0 ? '+' : ''}{residual.toFixed(1)}%</b>}</small></span>
+              <button className={reference.status === 'accepted' ? 'active' : ''} aria-pressed={reference.status === 'accepted'} onClick={() => reviewScaleReference(reference.id, 'accepted')}>{t('採用', 'Accept')}</button>
+              <button className={reference.status === 'rejected' ? 'active reject' : 'reject'} aria-pressed={reference.status === 'rejected'} onClick={() => reviewScaleReference(reference.id, 'rejected')}>{t('除外', 'Reject')}</button>
+            </li>;
+          })}</ul>
+          <p>{scaleFit
+            ? t(`1 m = ${scaleFit.pixelsPerMeter.toFixed(1)} px · 誤差RMS ${scaleFit.rmsPercent}%`, `1 m = ${scaleFit.pixelsPerMeter.toFixed(1)} px · RMS error ${scaleFit.rmsPercent}%`)
+            : t('寸法を採用すると、採用した全寸法から最小二乗法で縮尺を算出します。', 'Accept dimensions to fit the scale to all of them by least squares.')}</p>
+        </div>}
         <button className="floorplan-auto-materials" onClick={autoAssignMaterials}><span>✦</span><strong>{t('全室の床・壁を自動提案', 'Auto-assign all floors and walls')}</strong><small>{t('室名と用途から選択 · 方向とグリッドも自動整列', 'Uses room type · also aligns plank direction and tile grids')}</small></button>
         <div className="detected-room-list">
           {analysis.rooms.map((detectedRoom, index) => {
             const criticalRoomIssues = (detectedRoom.validationIssues || []).filter(isCriticalValidationIssue);
             const selectedMaterial = FLOOR_MATERIALS.find((item) => item.id === roomFloorMaterials[detectedRoom.id]);
             const selectedWall = WALL_MATERIALS.find((item) => item.id === roomWallMaterials[detectedRoom.id]);
+            const sharedWith = [...new Set((wallGraph?.sharedWalls || []).filter((shared) => shared.roomIds.includes(detectedRoom.id)).map((shared) => shared.roomIds[0] === detectedRoom.id ? shared.roomIds[1] : shared.roomIds[0]))];
             return <article className={`detected-room-card selected ${editingRoomId === detectedRoom.id ? 'editing' : ''} ${renamingRoomId === detectedRoom.id ? 'renaming' : ''}`} key={detectedRoom.id}>
-              <div className="detected-room-title"><span className="room-index" style={{ background: ROOM_COLORS[index % ROOM_COLORS.length] }}>{index + 1}</span><span><strong>{language === 'ja' ? detectedRoom.nameJa : detectedRoom.nameEn}</strong><small>{detectedRoom.floorAreaM2.toFixed(1)} m² · {detectedRoom.roomWidthM.toFixed(1)} × {detectedRoom.roomDepthM.toFixed(1)} m</small>{Boolean(criticalRoomIssues.length) && <em className="room-validation-warning">⚠ {t('輪郭を確認してください', 'Outline needs attention')}</em>}</span></div>
+              <div className="detected-room-title"><span className="room-index" style={{ background: ROOM_COLORS[index % ROOM_COLORS.length] }}>{index + 1}</span><span><strong>{language === 'ja' ? detectedRoom.nameJa : detectedRoom.nameEn}</strong><small>{isUnmeasured(detectedRoom) ? t('面積未計測 · 縮尺を補正してください', 'Area not measured · calibrate the scale') : `${detectedRoom.floorAreaM2.toFixed(1)} m² · ${detectedRoom.roomWidthM.toFixed(1)} × ${detectedRoom.roomDepthM.toFixed(1)} m`}</small>{Boolean(criticalRoomIssues.length) && <em className="room-validation-warning">⚠ {t('輪郭を確認してください', 'Outline needs attention')}</em>}</span></div>
               {renamingRoomId === detectedRoom.id && <form className="room-rename-editor" onSubmit={saveRoomRename} onKeyDown={(event) => { if (event.key === 'Escape') cancelRoomRename(); }}>
                 <label><span>{t('部屋名', 'Room name')}</span><input autoFocus value={renameDraft} onChange={(event) => { setRenameDraft(event.target.value); setRenameError(undefined); }} /></label>
                 {renameError && <em>{renameError}</em>}
@@ -992,7 +1919,9 @@ export default function FloorplanWorkspace({ language }: Props) {
                 <button className={renamingRoomId === detectedRoom.id ? 'rename-room-button active' : 'rename-room-button'} onClick={() => renamingRoomId === detectedRoom.id ? cancelRoomRename() : beginRoomRename(detectedRoom)}>{t('名前を変更', 'Rename')}</button>
                 <button className="edit-outline-button" onClick={() => { cancelGeometryTool(); cancelRoomRename(); setEditingRoomId((current) => current === detectedRoom.id ? undefined : detectedRoom.id); setCalibrationMode(false); setCalibrationPoints([]); }}>{editingRoomId === detectedRoom.id ? t('編集を終了', 'Finish editing') : t('輪郭を編集', 'Edit outline')}</button>
                 <button className={geometryTool === 'split-room' && splitRoomId === detectedRoom.id ? 'split-room-button active' : 'split-room-button'} onClick={() => geometryTool === 'split-room' && splitRoomId === detectedRoom.id ? cancelGeometryTool() : beginSplitRoom(detectedRoom.id)}>{t('部屋を分割', 'Subdivide room')}</button>
+                <button className={geometryTool === 'merge-rooms' && mergeRoomId === detectedRoom.id ? 'active' : ''} disabled={analysis.rooms.length < 2} onClick={() => geometryTool === 'merge-rooms' && mergeRoomId === detectedRoom.id ? cancelGeometryTool() : beginMergeRoom(detectedRoom.id)}>{t('部屋を結合', 'Merge rooms')}</button>
               </div>
+              {Boolean(sharedWith.length) && <small className="room-shared-walls">{t('共有壁', 'Shares walls with')}: {sharedWith.map(roomNameOf).join(', ')}</small>}
               <div className="room-area-summary">
                 <div><span>{t('床', 'Floor')}</span><b>{detectedRoom.floorAreaM2.toFixed(1)} m²</b></div>
                 <div><span>{t('壁', 'Walls')}</span><b>{detectedRoom.netWallAreaM2.toFixed(1)} m²</b></div>
@@ -1001,6 +1930,57 @@ export default function FloorplanWorkspace({ language }: Props) {
             </article>;
           })}
         </div>
+        {adjacency && <div className="floorplan-circulation">
+          <div className="floorplan-openings-heading"><strong>{t('部屋のつながり', 'Room connections')}</strong><small>{adjacency.connections.length}</small></div>
+          {adjacency.warnings.map((warning, index) => <em key={index}>⚠ {adjacencyWarningText(warning)}</em>)}
+          {adjacency.connections.length ? <ul>{adjacency.connections.map((connection) => {
+            const [firstFloor, secondFloor] = connection.roomIds.map(floorNameOf);
+            const openingCount = connection.openingIds.length;
+            return <li key={connection.roomIds.join('-')} className={connection.via}>
+              <strong>{connection.roomIds.map(roomNameOf).join(' ⟷ ')}</strong>
+              <small>{connection.via === 'door' ? t(`ドア · 開口${openingCount}`, `Door · ${openingCount} opening(s)`) : connection.via === 'passage' ? t('開口（建具なし）', 'Open passage') : t('壁のみ', 'Wall only')}
+                {connection.via !== 'wall' && firstFloor && secondFloor && ` · ${firstFloor === secondFloor ? t('床材が連続', 'same floor') : `${t('見切り', 'transition')}: ${firstFloor} → ${secondFloor}`}`}</small>
+            </li>;
+          })}</ul> : <p>{t('接している部屋はありません。', 'No rooms touch each other.')}</p>}
+        </div>}
+        <div className="floorplan-openings">
+          <div className="floorplan-openings-heading"><strong>{t('建具・開口', 'Doors and windows')}</strong><small>{(analysis.openings || []).length}</small></div>
+          {analysis.openings?.length ? <ul>{analysis.openings.map((opening) => {
+            const roomNames = opening.roomIds.map((id) => analysis.rooms.find((room) => room.id === id)).filter(Boolean).map((room) => language === 'ja' ? room!.nameJa : room!.nameEn);
+            return <li key={opening.id} className={selectedOpeningId === opening.id ? 'selected' : ''}>
+              <button onClick={() => setSelectedOpeningId((current) => current === opening.id ? undefined : opening.id)}><strong>{openingTypeLabel(opening.type)[language]}</strong><small>{opening.widthM.toFixed(2)} × {opening.heightM.toFixed(2)} m · {roomNames.join(' / ')}{opening.roomIds.length < 2 ? ` / ${t('屋外', 'outside')}` : ''}</small></button>
+              {selectedOpeningId === opening.id && <FloorplanOpeningEditor language={language} opening={opening} rooms={analysis.rooms}
+                onChange={(patch) => updateOpening(opening.id, patch)} onRemove={() => removeOpening(opening.id)} onClose={() => setSelectedOpeningId(undefined)} />}
+            </li>;
+          })}</ul> : <p>{t('開口は検出されていません。「開口を追加」で壁に配置できます。', 'No openings detected. Use “Add opening” to place one on a wall.')}</p>}
+        </div>
+        <div className={`floorplan-room-sync ${roomSyncStale ? 'stale' : ''}`}>
+          <div className="floorplan-openings-heading"><strong>{t('提案の部屋へ反映', 'Proposal rooms')}</strong><small>{linkedPlanRooms.length ? t(`${linkedPlanRooms.length}室がリンク済み`, `${linkedPlanRooms.length} linked`) : t('未リンク', 'Not linked')}</small></div>
+          <button className="floorplan-download-button" disabled={!analysis.rooms.length || unmeasuredRoomCount > 0} onClick={sendRoomsToProposal}>{linkedPlanRooms.length ? t('リンクした部屋を更新', 'Update linked rooms') : t('この部屋を使う', 'Use these rooms')} →</button>
+          <p>{unmeasuredRoomCount
+            ? t(`${unmeasuredRoomCount}室の面積が未計測です。縮尺を補正すると反映できます。`, `${unmeasuredRoomCount} room${unmeasuredRoomCount === 1 ? ' has' : 's have'} no measured area yet. Calibrate the scale to send them.`)
+            : roomSyncStale
+              ? t('輪郭の変更がまだ部屋タブに反映されていません。', 'Outline edits have not reached the room tabs yet.')
+              : roomSyncResult
+                ? t(`作成 ${roomSyncResult.created}室 · 更新 ${roomSyncResult.updated}室${roomSyncResult.unlinked ? ` · 図面にない${roomSyncResult.unlinked}室のリンクを解除` : ''}`, `${roomSyncResult.created} created · ${roomSyncResult.updated} updated${roomSyncResult.unlinked ? ` · ${roomSyncResult.unlinked} no longer in the plan were unlinked` : ''}`)
+                : t('部屋ごとにタブを作成し、床・壁（開口控除）・天井の面積と床材・壁材を数量と仕上表へ渡します。', 'Creates a tab per room and carries floor, net wall, and ceiling areas plus the floor and wall finishes into quantities and the finish schedule.')}</p>
+        </div>
+        <div className="floorplan-cad-export">
+          <div className="floorplan-openings-heading"><strong>{t('CAD書き出し', 'CAD export')}</strong><small>{t('仕上げごとにレイヤー分け', 'One layer per finish')}</small></div>
+          <div><button className="floorplan-download-button" disabled={!vectorPixelsPerMeter} onClick={downloadFloorplanDxf}>↓ DXF</button><button className="floorplan-download-button" disabled={!vectorPixelsPerMeter} onClick={() => { void downloadFloorplanSvg(); }}>↓ SVG</button></div>
+          <p>{vectorPixelsPerMeter ? t('DXFはメートル単位の外形線と室名・面積、SVGは実寸（mm）で床柄付きです。', 'DXF has outlines in metres with room names and areas; SVG is at full size in millimetres with the floor patterns drawn.') : t('書き出すには縮尺が必要です。先に縮尺を補正してください。', 'A scale is needed to export. Calibrate the scale first.')}</p>
+        </div>
+        <div className="floorplan-color-plan">
+          <div className="floorplan-openings-heading"><strong>{t('カラープラン', 'Colour plan')}</strong><small>{t('AIを使わず即時に書き出し', 'Instant · no AI')}</small></div>
+          <div>
+            <select aria-label={t('出力サイズ', 'Output size')} value={colorPlanSize} onChange={(event) => setColorPlanSize(event.target.value as ColorPlanSize)}>
+              {COLOR_PLAN_SIZES.map((option) => <option key={option.id} value={option.id} disabled={Math.max(imageSize.width, imageSize.height) * colorPlanScale(imageSize, option.id) > MAX_COLOR_PLAN_EDGE}>{t(option.labelJa, option.labelEn)}</option>)}
+            </select>
+            <select aria-label={t('形式', 'Format')} value={colorPlanFormat} onChange={(event) => setColorPlanFormat(event.target.value as 'png' | 'jpeg')}><option value="png">PNG</option><option value="jpeg">JPEG</option></select>
+          </div>
+          <button className="floorplan-download-button" disabled={exportingColorPlan || !selectedMaterialCount} onClick={() => { void downloadColorPlan(); }}>{exportingColorPlan ? t('書き出し中…', 'Exporting…') : `↓ ${t('カラープランを保存', 'Save colour plan')}`}</button>
+          <p>{t('元図面に、実寸の床柄（部屋の長辺方向）と壁色の帯を重ねます。下のAIスタイルは任意です。', 'Composites the source plan with floor textures at real size, aligned to each room’s longest wall, and a wall-tone band. The AI styles below are optional.')}</p>
+        </div>
         <div className="floorplan-render-panel">
           <div className="floorplan-render-heading"><span>STEP 03</span><strong>{t('図面全体のスタイル', 'Whole-plan style')}</strong></div>
           <div className="floorplan-structure-lock"><b>STRUCTURE LOCK</b><span>{t('部屋数・隣接関係・壁・開口・建具・設備位置を元図面に固定。着彩は全要素、追加はしません。', 'Locks room count, adjacency, walls, openings, doors, and fixed elements to the source. Everything is coloured; nothing is added.')}</span></div>
@@ -16,10 +16,15 @@ import {
   type SelectionSlot,
 } from './catalog';
 import { blankFinishScheduleRow, cloneFinishSchedule, scheduleText, DERIVED_SCHEDULE_FIELDS, type DerivedFinishScheduleField, type FinishScheduleField, type FinishScheduleRow } from './finishSchedule';
-import { prepareImage, readJsonResponse, MAX_SINGLE_IMAGE_LENGTH } from './downscaleImage';
+import { prepareImage, readJsonResponse, MAX_MULTI_PHOTO_IMAGE_LENGTH, MAX_PAIRED_IMAGE_LENGTH, MAX_SINGLE_IMAGE_LENGTH } from './downscaleImage';
 import { downloadBlob, downloadImageAsJpeg, imageFileSlug } from './downloadImage';
-import FloorplanWorkspace from './FloorplanWorkspace';
+import FloorplanWorkspace, { type FloorplanRoomTakeoff } from './FloorplanWorkspace';
+import { FLOORPLAN_CEILING_HEIGHT_M } from './floorplanOpenings';
 import { demoAiErrorMessage } from './demoAiErrors';
+import { activeRenderJob, cancelRenderJob, isPollingStopped, startRenderJob, waitForRenderJob, type RenderJob } from './renderJobs';
+import { compositeWithinMasks, maskHasArea, rasterizeMasks, type SurfaceMask } from './surfaceMasks';
+import SurfaceMaskEditor from './SurfaceMaskEditor';
+import { productReferencePayload, swatchBackground } from './productReferences';
 import '../../styles/archix.css';
 import './InteriorProposalApp.css';
 
@@ -29,6 +34,8 @@ interface RoomTab {
   ja: string;
   en: string;
   custom?: boolean;
+  /** Floorplan room this tab was created from; re-syncing the plan updates the tab in place. */
+  floorplanRoomId?: string;
 }
 
 const DEFAULT_ROOM_TABS: RoomTab[] = [
@@ -63,6 +70,12 @@ const FINISH_SCHEDULE_COLUMNS: Array<{ field: FinishScheduleField; ja: string; e
   { field: 'remarks', ja: '備考', en: 'Remarks' },
 ];
 
+const MAX_CORRECTION_ATTEMPTS = 2;
+const MAX_SOURCE_PHOTOS = 6;
+/** Matches the server threshold below which multi-photo estimates are flagged. */
+const LOW_AGREEMENT_SCORE = 60;
+const AUDIT_STATUS_RANK: Record<PreviewAudit['status'], number> = { fail: 0, review: 1, pass: 2 };
+
 const DEFAULT_SLOT_QUANTITY: Record<SelectionSlot, number> = {
   floor: 42, walls: 118, ceiling: 42, counter: 1, cabinet: 1, backsplash: 1, faucet: 1, sink: 1, hardware: 12, lighting: 3,
 };
@@ -77,6 +90,17 @@ const activeSlotsForRoom = (roomType: RoomTab['type']): SelectionSlot[] => {
   return coreSlots;
 };
 
+interface EstimatedWall {
+  nameJa: string;
+  nameEn: string;
+  lengthM: number;
+  heightM: number;
+  grossAreaM2: number;
+  /** Gross area minus the openings, computed on the server. */
+  netAreaM2: number;
+  openings: Array<{ type: 'door' | 'window'; widthM: number; heightM: number; count: number }>;
+}
+
 interface SurfaceEstimate {
   floorAreaM2: number;
   netWallAreaM2: number;
@@ -87,20 +111,71 @@ interface SurfaceEstimate {
   confidence: 'low' | 'medium' | 'high';
   assumptionJa: string;
   assumptionEn: string;
-  measurementSource?: 'photo-ai-suggestion';
+  measurementSource?: 'photo-ai-suggestion' | 'floorplan';
   reviewedAt?: string;
   validationIssues?: string[];
   measurementStatus?: string;
+  photoCount?: number;
+  walls?: EstimatedWall[];
+  /** Size each photo suggests on its own, in upload order; only set for multi-photo estimates. */
+  perPhoto?: Array<{ roomWidthM?: number; roomDepthM?: number; assumptionJa: string; assumptionEn: string }>;
+  agreementScore?: number;
+  model?: string;
+  promptVersion?: string;
+}
+
+interface SourcePhoto {
+  url: string;
+  data: string;
+  name: string;
+}
+
+interface PreviewAudit {
+  status: 'pass' | 'review' | 'fail';
+  structureScore: number;
+  scheduleScore: number;
+  issues: string[];
+  missingItems: string[];
+  unexpectedChanges: string[];
+  model?: string;
+  promptVersion?: string;
+  auditedAt: string;
+}
+
+interface PreviewAttempt {
+  /** Image data is kept in memory only, like previewUrl. */
+  imageUrl?: string;
+  audit?: PreviewAudit;
+  corrective: boolean;
+  /** Position among the candidates of the initial render; unset for corrections. */
+  candidate?: number;
+  model?: string;
+  promptVersion?: string;
+  generatedAt: string;
+}
+
+interface RefinementTurn {
+  instruction: string;
+  /** Schedule items the instruction contradicts; undefined when the check could not run. */
+  conflicts?: string[];
+  /** Image data is kept in memory only, like previewUrl. */
+  imageUrl?: string;
+  audit?: PreviewAudit;
   model?: string;
   promptVersion?: string;
+  /** Unset while the turn is still rendering. */
+  generatedAt?: string;
 }
 
 interface RoomDraft {
   style: string;
   requestNote: string;
-  sourcePhotoUrl?: string;
-  sourcePhotoData?: string;
-  sourcePhotoName?: string;
+  /** Photos of the same room from different positions. Kept in memory only. */
+  sourcePhotos?: SourcePhoto[];
+  /** Index of the photo that renders, masks, and audits use. */
+  renderBasePhoto?: number;
+  /** Regions of the render base photo each slot may change. Kept in memory only, like the photos. */
+  surfaceMasks?: SurfaceMask[];
   selections: Record<SelectionSlot, string>;
   enabledSlots: SelectionSlot[];
   accessories: string[];
@@ -108,10 +183,21 @@ interface RoomDraft {
   previewUrl?: string;
   previewStale: boolean;
   previewApprovedAt?: string;
-  renderMetadata?: { model?: string; promptVersion?: string; generatedAt: string };
+  /** Reason recorded when a preview is approved despite a failed audit. */
+  previewApprovalOverride?: string;
+  previewAudit?: PreviewAudit;
+  /** The initial render's candidates plus any audit-driven correction attempts, in order. */
+  previewAttempts?: PreviewAttempt[];
+  chosenAttempt?: number;
+  /** Follow-up edits on top of the chosen attempt; activeTurn unset means the attempt itself is shown. */
+  refinementTurns?: RefinementTurn[];
+  activeTurn?: number;
+  renderMetadata?: { model?: string; promptVersion?: string; generatedAt: string; candidateIndex?: number; candidateCount?: number; refinementTurn?: number };
   assumedCeilingHeight: number;
   surfaceEstimate?: SurfaceEstimate;
   surfaceEstimateSuggestion?: SurfaceEstimate;
+  /** Index into the reviewed estimate's walls for single-wall finishes; unset means the largest wall. */
+  accentWall?: number;
   renderedAt?: string;
 }
 
@@ -147,6 +233,7 @@ const sanitizeRoomTabs = (value: unknown): RoomTab[] => {
       ja: typeof entry.ja === 'string' && entry.ja ? entry.ja : entry.id,
       en: typeof entry.en === 'string' && entry.en ? entry.en : entry.id,
       custom: entry.custom === true,
+      ...(typeof entry.floorplanRoomId === 'string' ? { floorplanRoomId: entry.floorplanRoomId } : {}),
     } as RoomTab];
   });
   const unique = tabs.filter((tab, index) => tabs.findIndex((candidate) => candidate.id === tab.id) === index);
@@ -172,13 +259,68 @@ const sanitizeRoomDraft = (value: unknown): RoomDraft => {
       ? Object.fromEntries(Object.entries(draft.quantities).filter(([, quantity]) => Number.isFinite(quantity)))
       : { ...base.quantities },
     assumedCeilingHeight: Number.isFinite(draft.assumedCeilingHeight) ? (draft.assumedCeilingHeight as number) : base.assumedCeilingHeight,
-    sourcePhotoUrl: undefined,
-    sourcePhotoData: undefined,
+    previewAttempts: (Array.isArray(draft.previewAttempts) ? draft.previewAttempts : [])
+      .filter((attempt) => attempt && typeof attempt.generatedAt === 'string')
+      .map((attempt) => ({ ...attempt, imageUrl: undefined })),
+    refinementTurns: (Array.isArray(draft.refinementTurns) ? draft.refinementTurns : [])
+      .filter((turn) => turn && typeof turn.instruction === 'string')
+      .map((turn) => ({ ...turn, imageUrl: undefined })),
+    sourcePhotos: undefined,
+    renderBasePhoto: undefined,
+    surfaceMasks: undefined,
     previewUrl: undefined,
     previewStale: false,
   };
 };
 
+/** Highest audit status first, then the best combined score; unaudited attempts rank last. */
+const bestAttemptIndex = (attempts: PreviewAttempt[]) => attempts.reduce((best, attempt, index) => {
+  const rank = (candidate: PreviewAttempt) => candidate.imageUrl && candidate.audit
+    ? AUDIT_STATUS_RANK[candidate.audit.status] * 1000 + candidate.audit.structureScore + candidate.audit.scheduleScore
+    : -1;
+  return rank(attempt) > rank(attempts[best]) ? index : best;
+}, 0);
+
+const candidateAttempts = (attempts: PreviewAttempt[]) => attempts.filter((attempt) => attempt.candidate !== undefined);
+
+const withChosenAttempt = (draft: RoomDraft, index: number): RoomDraft => {
+  const attempt = draft.previewAttempts?.[index];
+  if (!attempt?.imageUrl) return draft;
+  const candidateCount = candidateAttempts(draft.previewAttempts || []).length;
+  return {
+    ...draft,
+    previewUrl: attempt.imageUrl,
+    previewAudit: attempt.audit,
+    previewApprovedAt: undefined,
+    previewApprovalOverride: undefined,
+    chosenAttempt: index,
+    refinementTurns: undefined,
+    activeTurn: undefined,
+    renderedAt: attempt.generatedAt,
+    renderMetadata: {
+      model: attempt.model,
+      promptVersion: attempt.promptVersion,
+      generatedAt: attempt.generatedAt,
+      ...(attempt.candidate !== undefined ? { candidateIndex: attempt.candidate, candidateCount } : {}),
+    },
+  };
+};
+
+const withActiveTurn = (draft: RoomDraft, index: number): RoomDraft => {
+  const turn = draft.refinementTurns?.[index];
+  if (!turn?.imageUrl || !turn.generatedAt) return draft;
+  return {
+    ...draft,
+    previewUrl: turn.imageUrl,
+    previewAudit: turn.audit,
+    previewApprovedAt: undefined,
+    previewApprovalOverride: undefined,
+    activeTurn: index,
+    renderedAt: turn.generatedAt,
+    renderMetadata: { ...draft.renderMetadata, model: turn.model, promptVersion: turn.promptVersion, generatedAt: turn.generatedAt, refinementTurn: index + 1 },
+  };
+};
+
 const sanitizeScheduleRow = (value: unknown, tab: RoomTab): FinishScheduleRow => {
   const row = (value && typeof value === 'object' ? value : {}) as Partial<FinishScheduleRow>;
   const blank = blankFinishScheduleRow(tab.id, tab.ja, tab.en);
@@ -202,10 +344,16 @@ const sanitizeScheduleRow = (value: unknown, tab: RoomTab): FinishScheduleRow =>
   };
 };
 
-const surfaceQuantity = (estimate: SurfaceEstimate | undefined, slot: SelectionSlot) => {
+const accentWallOf = (estimate: SurfaceEstimate | undefined, accentWall?: number) => {
+  const walls = estimate?.walls;
+  if (!walls?.length) return undefined;
+  return walls[accentWall ?? -1] || walls.reduce((largest, wall) => wall.netAreaM2 > largest.netAreaM2 ? wall : largest);
+};
+
+const surfaceQuantity = (estimate: SurfaceEstimate | undefined, slot: SelectionSlot, itemId?: string, accentWall?: number) => {
   if (!estimate) return undefined;
   if (slot === 'floor') return estimate.floorAreaM2;
-  if (slot === 'walls') return estimate.netWallAreaM2;
+  if (slot === 'walls') return (itemId && catalogItem(itemId)?.coverage === 'one-wall' && accentWallOf(estimate, accentWall)?.netAreaM2) || estimate.netWallAreaM2;
   if (slot === 'ceiling') return estimate.ceilingAreaM2;
   return undefined;
 };
@@ -230,6 +378,10 @@ const finishSchedulePatch = (draft: RoomDraft, roomType: RoomTab['type']): Pick<
     if (draft.surfaceEstimate) lines.push(targetLanguage === 'ja'
       ? `数量：床 ${draft.surfaceEstimate.floorAreaM2} m²・壁 ${draft.surfaceEstimate.netWallAreaM2} m²・天井 ${draft.surfaceEstimate.ceilingAreaM2} m²`
       : `Quantities: floor ${draft.surfaceEstimate.floorAreaM2} m² · walls ${draft.surfaceEstimate.netWallAreaM2} m² · ceiling ${draft.surfaceEstimate.ceilingAreaM2} m²`);
+    const accentWall = draft.enabledSlots.includes('walls') && catalogItem(draft.selections.walls)?.coverage === 'one-wall' ? accentWallOf(draft.surfaceEstimate, draft.accentWall) : undefined;
+    if (accentWall) lines.push(targetLanguage === 'ja'
+      ? `アクセント壁：${accentWall.nameJa}（${accentWall.netAreaM2} m²）`
+      : `Accent wall: ${accentWall.nameEn} (${accentWall.netAreaM2} m²)`);
     return lines.length ? lines.join('\n') : '—';
   };
   return {
@@ -312,6 +464,8 @@ const ScheduleRow = React.memo(function ScheduleRow({
   </tr>;
 });
 
+const auditItemsFor = (items: CatalogItem[]) => items.map((item) => `${SECTION_LABELS[item.section].en}: ${item.nameEn} — ${item.colorEn}`);
+
 const escapeHtml = (value: string) => value.replace(/[&<>'"]/g, (char) => ({
   '&': '&amp;', '<': '&lt;', '>': '&gt;', "'": '&#39;', '"': '&quot;',
 }[char] || char));
@@ -320,14 +474,23 @@ export default function InteriorProposalApp() {
   const [language, setLanguage] = useState<Language>('ja');
   const [projectName, setProjectName] = useState('サンプル邸 内装計画');
   const [customerName, setCustomerName] = useState('サンプル建設株式会社');
+  const [projectId, setProjectId] = useState<string>();
   const [roomTabs, setRoomTabs] = useState<RoomTab[]>(DEFAULT_ROOM_TABS);
   const [activeRoomId, setActiveRoomId] = useState(DEFAULT_ROOM_TABS[0].id);
   const [workspaceView, setWorkspaceView] = useState<'floorplan' | 'room'>('floorplan');
   const [roomDrafts, setRoomDrafts] = useState<Record<string, RoomDraft>>(createInitialRoomDrafts);
   const [priceOverrides, setPriceOverrides] = useState<Record<string, number>>({});
-  const [viewMode, setViewMode] = useState<'source' | 'preview'>('source');
+  const [viewMode, setViewMode] = useState<'source' | 'preview' | 'candidates'>('source');
   const [previewLoading, setPreviewLoading] = useState(false);
   const [previewError, setPreviewError] = useState<string>();
+  const [previewProgress, setPreviewProgress] = useState(0);
+  const [auditingRoomId, setAuditingRoomId] = useState<string>();
+  const [auditError, setAuditError] = useState<{ roomId: string; message: string }>();
+  const [overrideReason, setOverrideReason] = useState('');
+  const [correction, setCorrection] = useState<{ roomId: string; attempt: number }>();
+  const [candidateCount, setCandidateCount] = useState(1);
+  const [maskEditing, setMaskEditing] = useState(false);
+  const [refinementText, setRefinementText] = useState('');
   const [estimateLoading, setEstimateLoading] = useState(false);
   const [estimateError, setEstimateError] = useState<string>();
   const [finishScheduleRows, setFinishScheduleRows] = useState(cloneFinishSchedule);
@@ -341,20 +504,35 @@ export default function InteriorProposalApp() {
   const roomDraftsRef = useRef<Record<string, RoomDraft>>({});
   const roomTabsRef = useRef<RoomTab[]>(DEFAULT_ROOM_TABS);
   const previewInFlightRef = useRef(false);
+  const previewJobRef = useRef<{ id: string; kind: RenderJob['kind']; controller: AbortController }>(undefined);
   const estimateInFlightRef = useRef(false);
 
   const t = (ja: string, en: string) => pick(language, ja, en);
   const room = roomTabs.find((candidate) => candidate.id === activeRoomId) || roomTabs[0] || DEFAULT_ROOM_TABS[0];
   const roomType = room.type;
   const activeDraft = useMemo(() => roomDrafts[activeRoomId] || createRoomDraft(), [roomDrafts, activeRoomId]);
-  const { style, requestNote, sourcePhotoUrl, sourcePhotoData, sourcePhotoName, selections, enabledSlots, accessories, quantities, previewUrl, previewStale, previewApprovedAt, assumedCeilingHeight, surfaceEstimate, surfaceEstimateSuggestion } = activeDraft;
+  const { style, requestNote, sourcePhotos = [], renderBasePhoto = 0, surfaceMasks = [], selections, enabledSlots, accessories, quantities, previewUrl, previewStale, previewApprovedAt, previewApprovalOverride, previewAudit, previewAttempts = [], chosenAttempt, refinementTurns = [], activeTurn, assumedCeilingHeight, surfaceEstimate, surfaceEstimateSuggestion, accentWall } = activeDraft;
+  const auditLoading = auditingRoomId === activeRoomId;
+  const activeAuditError = auditError?.roomId === activeRoomId ? auditError.message : undefined;
   const displayedSurfaceEstimate = surfaceEstimateSuggestion || surfaceEstimate;
+  const basePhoto = sourcePhotos[renderBasePhoto] || sourcePhotos[0];
+  const sourcePhotoUrl = basePhoto?.url;
+  const sourcePhotoData = basePhoto?.data;
+  const previewCandidates = candidateAttempts(previewAttempts);
+  const activeTurnConflicts = activeTurn !== undefined ? refinementTurns[activeTurn]?.conflicts || [] : [];
+  // Only a completed, passing audit of a turn without schedule conflicts can be approved without a reason.
+  const approvalNeedsReason = previewAudit?.status !== 'pass' || activeTurnConflicts.length > 0;
+  const candidatePickerVisible = previewCandidates.length > 1 && previewCandidates.every((attempt) => attempt.imageUrl);
 
   useEffect(() => {
+    let tabs = DEFAULT_ROOM_TABS;
+    let restoredProjectId: string | undefined;
     try {
       const saved = localStorage.getItem(PROJECT_STORAGE_KEY);
       if (saved) {
         const parsed = JSON.parse(saved);
+        // Projects saved before they had an id keep the key their floorplan was already stored under.
+        restoredProjectId = typeof parsed.projectId === 'string' && parsed.projectId ? parsed.projectId : PROJECT_STORAGE_KEY;
         if (parsed.language === 'ja' || parsed.language === 'en') setLanguage(parsed.language);
         if (typeof parsed.projectName === 'string') setProjectName(parsed.projectName);
         if (typeof parsed.customerName === 'string') setCustomerName(parsed.customerName);
@@ -362,6 +540,7 @@ export default function InteriorProposalApp() {
         const restoredDrafts = Object.fromEntries(restoredTabs.map((tab) => [tab.id, sanitizeRoomDraft(parsed.roomDrafts?.[tab.id])]));
         const persistedRows: unknown[] = Array.isArray(parsed.finishScheduleRows) ? parsed.finishScheduleRows : [];
         const restoredRows = restoredTabs.map((tab) => sanitizeScheduleRow(persistedRows.find((row: any) => row?.id === tab.id), tab));
+        tabs = restoredTabs;
         setRoomTabs(restoredTabs);
         setRoomDrafts(restoredDrafts);
         setFinishScheduleRows(restoredRows);
@@ -373,6 +552,7 @@ export default function InteriorProposalApp() {
         }
         if (parsed.scheduleView === 'finishes' || parsed.scheduleView === 'estimate' || parsed.scheduleView === 'project') setScheduleView(parsed.scheduleView);
         if (typeof parsed.scheduleExpanded === 'boolean') setScheduleExpanded(parsed.scheduleExpanded);
+        if ([1, 2, 3, 4].includes(parsed.candidateCount)) setCandidateCount(parsed.candidateCount);
         if (typeof parsed.savedAt === 'string') setSavedAt(parsed.savedAt);
       }
       setSaveState('saved');
@@ -381,6 +561,21 @@ export default function InteriorProposalApp() {
     } finally {
       projectHydratedRef.current = true;
     }
+    setProjectId(restoredProjectId || crypto.randomUUID());
+    const resumable = activeRenderJob('interior-preview');
+    if (resumable?.target && tabs.some((tab) => tab.id === resumable.target)) {
+      setActiveRoomId(resumable.target);
+      setWorkspaceView('room');
+      void followPreviewJob({ id: resumable.jobId, kind: 'interior-preview', status: 'running', progress: 0 }, resumable.target);
+    }
+    const resumableRefinement = activeRenderJob('interior-refinement');
+    if (!resumable && resumableRefinement?.target && tabs.some((tab) => tab.id === resumableRefinement.target)) {
+      setActiveRoomId(resumableRefinement.target);
+      setWorkspaceView('room');
+      void followRefinementJob({ id: resumableRefinement.jobId, kind: 'interior-refinement', status: 'running', progress: 0 }, resumableRefinement.target);
+    }
+    return () => previewJobRef.current?.controller.abort();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   useEffect(() => {
@@ -390,15 +585,18 @@ export default function InteriorProposalApp() {
       try {
         const persistableDrafts = Object.fromEntries(Object.entries(roomDrafts).map(([id, draft]) => [id, {
           ...draft,
-          sourcePhotoUrl: undefined,
-          sourcePhotoData: undefined,
+          sourcePhotos: undefined,
+          renderBasePhoto: undefined,
+          surfaceMasks: undefined,
           previewUrl: undefined,
+          previewAttempts: draft.previewAttempts?.map((attempt) => ({ ...attempt, imageUrl: undefined })),
+          refinementTurns: draft.refinementTurns?.map((turn) => ({ ...turn, imageUrl: undefined })),
         }]));
         const nextSavedAt = new Date().toISOString();
         localStorage.setItem(PROJECT_STORAGE_KEY, JSON.stringify({
-          language, projectName, customerName, roomTabs, activeRoomId, workspaceView,
+          projectId, language, projectName, customerName, roomTabs, activeRoomId, workspaceView,
           roomDrafts: persistableDrafts, priceOverrides, finishScheduleRows,
-          scheduleView, scheduleExpanded, savedAt: nextSavedAt,
+          scheduleView, scheduleExpanded, candidateCount, savedAt: nextSavedAt,
         }));
         setSavedAt(nextSavedAt);
         setSaveState('saved');
@@ -407,7 +605,7 @@ export default function InteriorProposalApp() {
       }
     }, 500);
     return () => window.clearTimeout(timeout);
-  }, [language, projectName, customerName, roomTabs, activeRoomId, workspaceView, roomDrafts, priceOverrides, finishScheduleRows, scheduleView, scheduleExpanded]);
+  }, [projectId, language, projectName, customerName, roomTabs, activeRoomId, workspaceView, roomDrafts, priceOverrides, finishScheduleRows, scheduleView, scheduleExpanded, candidateCount]);
 
   useEffect(() => { roomDraftsRef.current = roomDrafts; }, [roomDrafts]);
 
@@ -415,7 +613,7 @@ export default function InteriorProposalApp() {
 
   useEffect(() => () => {
     Object.values(roomDraftsRef.current).forEach((draft) => {
-      if (draft.sourcePhotoUrl) URL.revokeObjectURL(draft.sourcePhotoUrl);
+      draft.sourcePhotos?.forEach((photo) => URL.revokeObjectURL(photo.url));
     });
   }, []);
 
@@ -453,6 +651,13 @@ export default function InteriorProposalApp() {
     return ids.map((id) => catalogItem(id)).filter(Boolean) as CatalogItem[];
   }, [activeSlotDefinitions, enabledSlots, selections, accessories]);
 
+  const maskableSlots = activeSlotDefinitions.filter((slot) => enabledSlots.includes(slot.id));
+  const activeMasks = surfaceMasks.filter((mask) => maskHasArea(mask) && maskableSlots.some((slot) => slot.id === mask.slot));
+  // With masks drawn, a render only changes the masked slots.
+  const renderItems = activeMasks.length
+    ? selectedItems.filter((item) => item.slot && activeMasks.some((mask) => mask.slot === item.slot))
+    : selectedItems;
+
   const getQuantity = (item: CatalogItem) => quantities[item.id] ?? (item.slot ? DEFAULT_SLOT_QUANTITY[item.slot] : 1);
   const getUnitPrice = (item: CatalogItem) => priceOverrides[item.id] ?? item.unitPrice;
   const subtotal = selectedItems.reduce((sum, item) => {
@@ -496,19 +701,24 @@ export default function InteriorProposalApp() {
   const activeScheduleRoomId = activeRoomId;
   const renderedRoomCount = roomTabs.filter((candidate) => roomDrafts[candidate.id]?.previewUrl && !roomDrafts[candidate.id]?.previewStale && roomDrafts[candidate.id]?.previewApprovedAt).length;
   const activeScheduleRow = finishScheduleRows.find((row) => row.id === activeScheduleRoomId);
-  const estimateRoomSurfaces = async (imageData: string, targetRoomId: string, targetRoomName: string, ceilingHeight: number) => {
+  const estimateRoomSurfaces = async (photos: string[], targetRoomId: string, targetRoomName: string, ceilingHeight: number, forceRegenerate = false) => {
     if (estimateInFlightRef.current) return;
     estimateInFlightRef.current = true;
     setEstimateLoading(true);
     setEstimateError(undefined);
     try {
+      // Several photos travel in one request, so each is shrunk to keep the body under the platform limit.
+      const photoPayload = photos.length > 1
+        ? { sourcePhotos: await Promise.all(photos.map((photo) => prepareImage(photo, { maxEdge: 1280, jpegQuality: 0.85, maxLength: MAX_MULTI_PHOTO_IMAGE_LENGTH }))) }
+        : { sourcePhoto: photos[0] };
       const response = await fetch('/api/estimate-room-surfaces', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          sourcePhoto: imageData,
+          ...photoPayload,
           room: targetRoomName,
           assumedCeilingHeight: ceilingHeight,
+          forceRegenerate,
         }),
       });
       const payload = await readJsonResponse(response);
@@ -533,32 +743,45 @@ export default function InteriorProposalApp() {
     }
   };
 
-  const loadSourcePhoto = (file?: File) => {
-    if (!file) return;
-    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+  const loadSourcePhotos = (files: File[]) => {
+    if (!files.length) return;
+    if (files.some((file) => !['image/png', 'image/jpeg'].includes(file.type))) {
       setPreviewError(t('PNG または JPEG の室内写真を選択してください。', 'Choose a PNG or JPEG room photo.'));
       return;
     }
-    if (file.size > 12 * 1024 * 1024) {
+    if (files.some((file) => file.size > 12 * 1024 * 1024)) {
       setPreviewError(t('画像は12MB以下にしてください。', 'The image must be 12 MB or smaller.'));
       return;
     }
+    const existing = sourcePhotos;
+    if (existing.length + files.length > MAX_SOURCE_PHOTOS) {
+      setPreviewError(t(`1部屋あたりの写真は${MAX_SOURCE_PHOTOS}枚までです。`, `A room can have at most ${MAX_SOURCE_PHOTOS} photos.`));
+      return;
+    }
     const targetRoomId = activeRoomId;
     const targetRoomName = room.en;
     const targetCeilingHeight = assumedCeilingHeight;
-    void prepareImage(file, { maxEdge: 2560, jpegQuality: 0.92, maxLength: MAX_SINGLE_IMAGE_LENGTH }).then((imageData) => {
-      const nextPhotoUrl = URL.createObjectURL(file);
-      if (sourcePhotoUrl) URL.revokeObjectURL(sourcePhotoUrl);
+    void Promise.all(files.map((file) => prepareImage(file, { maxEdge: 2560, jpegQuality: 0.92, maxLength: MAX_SINGLE_IMAGE_LENGTH }))).then((imageData) => {
+      const added = files.map((file, index) => ({ url: URL.createObjectURL(file), data: imageData[index], name: file.name }));
+      const photos = [...existing, ...added];
       setRoomDrafts((current) => {
         const draft = current[targetRoomId] || createRoomDraft();
+        // Extra angles only refine the estimate; the first upload starts the room over.
+        if (existing.length) return { ...current, [targetRoomId]: { ...draft, sourcePhotos: photos, surfaceEstimateSuggestion: undefined } };
         return { ...current, [targetRoomId]: {
           ...draft,
-          sourcePhotoUrl: nextPhotoUrl,
-          sourcePhotoData: imageData,
-          sourcePhotoName: file.name,
+          sourcePhotos: photos,
+          renderBasePhoto: 0,
+          surfaceMasks: undefined,
           previewUrl: undefined,
           previewStale: false,
           previewApprovedAt: undefined,
+          previewApprovalOverride: undefined,
+          previewAudit: undefined,
+          previewAttempts: undefined,
+          chosenAttempt: undefined,
+          refinementTurns: undefined,
+          activeTurn: undefined,
           renderMetadata: undefined,
           renderedAt: undefined,
           surfaceEstimate: undefined,
@@ -571,19 +794,47 @@ export default function InteriorProposalApp() {
           },
         } };
       });
-      setViewMode('source');
+      if (!existing.length) {
+        setViewMode('source');
+        setMaskEditing(false);
+      }
       setPreviewError(undefined);
       setEstimateError(undefined);
-      void estimateRoomSurfaces(imageData, targetRoomId, targetRoomName, targetCeilingHeight);
+      void estimateRoomSurfaces(photos.map((photo) => photo.data), targetRoomId, targetRoomName, targetCeilingHeight);
     }).catch((error) => {
       setPreviewError(t('画像を読み込めませんでした。', error instanceof Error ? error.message : 'The image could not be loaded.'));
     });
   };
 
+  /** Masks are drawn on the render base, so switching or removing it clears them and marks the preview stale. */
+  const setRenderBasePhoto = (index: number) => {
+    if (index === renderBasePhoto) return;
+    updateActiveDraft({ renderBasePhoto: index, surfaceMasks: undefined, previewStale: Boolean(previewUrl), previewApprovedAt: undefined });
+    setMaskEditing(false);
+    setViewMode('source');
+  };
+
+  const removeSourcePhoto = (index: number) => {
+    const removed = sourcePhotos[index];
+    if (!removed) return;
+    URL.revokeObjectURL(removed.url);
+    const remaining = sourcePhotos.filter((_, candidate) => candidate !== index);
+    const baseRemoved = index === renderBasePhoto;
+    updateActiveDraft({
+      sourcePhotos: remaining,
+      renderBasePhoto: baseRemoved ? 0 : renderBasePhoto - (index < renderBasePhoto ? 1 : 0),
+      ...(baseRemoved ? { surfaceMasks: undefined, previewStale: Boolean(previewUrl), previewApprovedAt: undefined } : {}),
+    });
+    if (baseRemoved) {
+      setMaskEditing(false);
+      setViewMode('source');
+    }
+  };
+
   const updateSelection = (slot: SelectionSlot, itemId: string) => {
     updateActiveDraft((current) => ({
       selections: { ...current.selections, [slot]: itemId },
-      quantities: { ...current.quantities, [itemId]: current.quantities[itemId] ?? surfaceQuantity(current.surfaceEstimate, slot) ?? DEFAULT_SLOT_QUANTITY[slot] },
+      quantities: { ...current.quantities, [itemId]: current.quantities[itemId] ?? surfaceQuantity(current.surfaceEstimate, slot, itemId, current.accentWall) ?? DEFAULT_SLOT_QUANTITY[slot] },
       previewStale: Boolean(current.previewUrl),
       previewApprovedAt: undefined,
     }));
@@ -594,15 +845,23 @@ export default function InteriorProposalApp() {
     updateActiveDraft((draft) => ({
       surfaceEstimate: { ...surfaceEstimateSuggestion, reviewedAt: new Date().toISOString() },
       surfaceEstimateSuggestion: undefined,
+      accentWall: undefined,
       quantities: {
         ...draft.quantities,
         [draft.selections.floor]: surfaceEstimateSuggestion.floorAreaM2,
-        [draft.selections.walls]: surfaceEstimateSuggestion.netWallAreaM2,
+        [draft.selections.walls]: surfaceQuantity(surfaceEstimateSuggestion, 'walls', draft.selections.walls) as number,
         [draft.selections.ceiling]: surfaceEstimateSuggestion.ceilingAreaM2,
       },
     }));
   };
 
+  const chooseAccentWall = (index: number) => {
+    updateActiveDraft((draft) => ({
+      accentWall: index,
+      quantities: { ...draft.quantities, [draft.selections.walls]: surfaceQuantity(draft.surfaceEstimate, 'walls', draft.selections.walls, index) ?? draft.quantities[draft.selections.walls] },
+    }));
+  };
+
   const discardSurfaceEstimate = () => updateActiveDraft({ surfaceEstimateSuggestion: undefined });
 
   const toggleSlot = (slot: SelectionSlot) => {
@@ -671,7 +930,7 @@ export default function InteriorProposalApp() {
     setRoomTabs(remaining);
     setRoomDrafts((current) => {
       const removed = current[rowId];
-      if (removed?.sourcePhotoUrl) URL.revokeObjectURL(removed.sourcePhotoUrl);
+      removed?.sourcePhotos?.forEach((photo) => URL.revokeObjectURL(photo.url));
       const next = { ...current };
       delete next[rowId];
       return next;
@@ -680,14 +939,101 @@ export default function InteriorProposalApp() {
     setActiveRoomId((current) => (current === rowId ? remaining[0].id : current));
   }, [roomTabs]);
 
+  const applyFloorplanRooms = (takeoff: FloorplanRoomTakeoff[]) => {
+    const reviewedAt = new Date().toISOString();
+    const planRoomIds = new Set(takeoff.map(({ room: planRoom }) => planRoom.id));
+    // Untouched sample tabs make way for the plan's rooms the first time it is used.
+    const keptTabs = roomTabs.some((tab) => tab.floorplanRoomId) ? roomTabs : roomTabs.filter((tab) => {
+      const draft = roomDrafts[tab.id];
+      const row = finishScheduleRows.find((candidate) => candidate.id === tab.id);
+      return !(draft && isPristineDraft(draft) && !draft.sourcePhotos?.length && (!row || isBlankScheduleRow(row)));
+    });
+    let unlinked = 0;
+    const tabs = keptTabs.map((tab) => {
+      if (!tab.floorplanRoomId || planRoomIds.has(tab.floorplanRoomId)) return tab;
+      unlinked += 1;
+      return { ...tab, floorplanRoomId: undefined };
+    });
+    const drafts: Record<string, RoomDraft> = Object.fromEntries(tabs.map((tab) => [tab.id, roomDrafts[tab.id] || createRoomDraft()]));
+    const rows = tabs.map((tab) => finishScheduleRows.find((row) => row.id === tab.id) || blankFinishScheduleRow(tab.id, tab.ja, tab.en));
+    let created = 0;
+    takeoff.forEach(({ room: planRoom, floorMaterialId, wallMaterialId }, index) => {
+      let tabIndex = tabs.findIndex((tab) => tab.floorplanRoomId === planRoom.id);
+      if (tabIndex < 0) {
+        const id = `floorplan-${Date.now()}-${index}`;
+        tabs.push({ id, type: planRoom.roomType, ja: planRoom.nameJa, en: planRoom.nameEn, custom: true, floorplanRoomId: planRoom.id });
+        drafts[id] = createRoomDraft();
+        rows.push(blankFinishScheduleRow(id, planRoom.nameJa, planRoom.nameEn));
+        tabIndex = tabs.length - 1;
+        created += 1;
+      } else {
+        tabs[tabIndex] = { ...tabs[tabIndex], type: planRoom.roomType, ja: planRoom.nameJa, en: planRoom.nameEn };
+      }
+      const tab = tabs[tabIndex];
+      const draft = drafts[tab.id];
+      const selections = {
+        ...draft.selections,
+        ...(catalogItem(floorMaterialId)?.slot === 'floor' ? { floor: floorMaterialId as string } : {}),
+        ...(catalogItem(wallMaterialId)?.slot === 'walls' ? { walls: wallMaterialId as string } : {}),
+      };
+      const estimate: SurfaceEstimate = {
+        floorAreaM2: planRoom.floorAreaM2,
+        netWallAreaM2: planRoom.netWallAreaM2,
+        ceilingAreaM2: planRoom.ceilingAreaM2,
+        roomWidthM: planRoom.roomWidthM,
+        roomDepthM: planRoom.roomDepthM,
+        ceilingHeightM: FLOORPLAN_CEILING_HEIGHT_M,
+        confidence: planRoom.confidence,
+        assumptionJa: '平面図の部屋輪郭から算出。壁は開口を控除した正味面積です。',
+        assumptionEn: 'Taken from the floorplan room outline. Walls are net of openings.',
+        measurementSource: 'floorplan',
+        reviewedAt,
+        validationIssues: planRoom.validationIssues,
+      };
+      const selectionsChanged = selections.floor !== draft.selections.floor || selections.walls !== draft.selections.walls;
+      // The accent wall belongs to the wall finish; a re-sync that keeps the finish keeps the chosen wall.
+      const accentWall = selections.walls === draft.selections.walls ? draft.accentWall : undefined;
+      const nextDraft: RoomDraft = {
+        ...draft,
+        selections,
+        enabledSlots: [...new Set<SelectionSlot>([...draft.enabledSlots, 'floor', 'walls', 'ceiling'])],
+        surfaceEstimate: estimate,
+        surfaceEstimateSuggestion: undefined,
+        accentWall,
+        assumedCeilingHeight: FLOORPLAN_CEILING_HEIGHT_M,
+        quantities: {
+          ...draft.quantities,
+          [selections.floor]: estimate.floorAreaM2,
+          [selections.walls]: surfaceQuantity(estimate, 'walls', selections.walls, accentWall) as number,
+          [selections.ceiling]: estimate.ceilingAreaM2,
+        },
+        ...(selectionsChanged && draft.previewUrl ? { previewStale: true, previewApprovedAt: undefined } : {}),
+      };
+      drafts[tab.id] = nextDraft;
+      rows[tabIndex] = withSchedulePatch({ ...rows[tabIndex], room: { ja: planRoom.nameJa, en: planRoom.nameEn } }, finishSchedulePatch(nextDraft, tab.type));
+    });
+    setRoomTabs(tabs);
+    setRoomDrafts(drafts);
+    setFinishScheduleRows(rows);
+    if (!tabs.some((tab) => tab.id === activeRoomId)) setActiveRoomId(tabs[0].id);
+    return { created, updated: takeoff.length - created, unlinked };
+  };
+
+  const linkedFloorplanRooms = useMemo(() => Object.fromEntries(roomTabs.flatMap((tab) => tab.floorplanRoomId
+    ? [[tab.floorplanRoomId, roomDrafts[tab.id]?.surfaceEstimate?.floorAreaM2 ?? 0]]
+    : [])), [roomTabs, roomDrafts]);
+
   const switchRoom = (roomId: string) => {
     if (previewLoading || estimateLoading) return;
     setActiveRoomId(roomId);
     setWorkspaceView('room');
     const nextDraft = roomDrafts[roomId];
     setViewMode(nextDraft?.previewUrl ? 'preview' : 'source');
+    setMaskEditing(false);
+    setRefinementText('');
     setPreviewError(undefined);
     setEstimateError(undefined);
+    setOverrideReason('');
   };
 
   const renameActiveRoom = (value: string) => {
@@ -704,7 +1050,185 @@ export default function InteriorProposalApp() {
       setEstimateError(t('先に室内写真をアップロードしてください。', 'Upload a room photo first.'));
       return;
     }
-    void estimateRoomSurfaces(sourcePhotoData, activeRoomId, room.en, assumedCeilingHeight);
+    // An explicit re-run asks for a fresh suggestion instead of the cached one.
+    void estimateRoomSurfaces(sourcePhotos.map((photo) => photo.data), activeRoomId, room.en, assumedCeilingHeight, Boolean(displayedSurfaceEstimate));
+  };
+
+  const auditPreview = async (roomId: string, sourcePhoto: string, renderedImage: string, items: string[]) => {
+    setAuditingRoomId(roomId);
+    setAuditError(undefined);
+    try {
+      // Both images travel in one request, so each gets half the usual payload budget.
+      const [pairedSource, pairedRender] = await Promise.all([sourcePhoto, renderedImage]
+        .map((image) => prepareImage(image, { maxEdge: 1280, maxLength: MAX_PAIRED_IMAGE_LENGTH })));
+      const response = await fetch('/api/verify-interior-preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourcePhoto: pairedSource, renderedImage: pairedRender, items }),
+      });
+      const payload = await readJsonResponse(response);
+      if (!response.ok || !payload.verification) throw new Error(payload.error || 'Preview audit failed');
+      const { status, structureScore, scheduleScore, issues, missingItems, unexpectedChanges, model, promptVersion } = payload.verification;
+      const audit: PreviewAudit = { status, structureScore, scheduleScore, issues, missingItems, unexpectedChanges, model, promptVersion, auditedAt: new Date().toISOString() };
+      setRoomDrafts((current) => {
+        const draft = current[roomId];
+        if (!draft) return current;
+        return { ...current, [roomId]: {
+          ...draft,
+          // Ignore the result for the live preview if the room was re-rendered while the audit ran.
+          previewAudit: draft.previewUrl === renderedImage ? audit : draft.previewAudit,
+          previewAttempts: draft.previewAttempts?.map((attempt) => attempt.imageUrl === renderedImage ? { ...attempt, audit } : attempt),
+          refinementTurns: draft.refinementTurns?.map((turn) => turn.imageUrl === renderedImage ? { ...turn, audit } : turn),
+        } };
+      });
+      return audit;
+    } catch (error) {
+      setAuditError({ roomId, message: demoAiErrorMessage(error, language, 'audit') });
+    } finally {
+      setAuditingRoomId((current) => (current === roomId ? undefined : current));
+    }
+  };
+
+  /** Polls a room render job with the shared progress and cancel UI, then hands the result to `apply`. */
+  const trackPreviewJob = async (job: RenderJob, apply: (payload: any) => Promise<string | undefined>) => {
+    const active = { id: job.id, kind: job.kind, controller: new AbortController() };
+    previewJobRef.current = active;
+    previewInFlightRef.current = true;
+    setPreviewLoading(true);
+    setPreviewError(undefined);
+    try {
+      const payload = await waitForRenderJob(job, active.controller.signal, setPreviewProgress);
+      if (!payload?.image) throw new Error('Preview generation failed');
+      return await apply(payload);
+    } catch (error) {
+      if (!isPollingStopped(error)) setPreviewError(demoAiErrorMessage(error, language, 'preview'));
+    } finally {
+      if (previewJobRef.current === active) {
+        previewJobRef.current = undefined;
+        previewInFlightRef.current = false;
+        setPreviewLoading(false);
+        setPreviewProgress(0);
+      }
+    }
+  };
+
+  /**
+   * Resolves with the committed preview image. When the render returned several
+   * candidates nothing is committed until one is picked from the grid.
+   */
+  const followPreviewJob = (job: RenderJob, roomId: string, corrective = false, composite?: { original: string; masks: SurfaceMask[] }) => trackPreviewJob(job, async (payload) => {
+    const renderedAt = new Date().toISOString();
+    const returned: string[] = Array.isArray(payload.candidates) && payload.candidates.length ? payload.candidates : [payload.image];
+    const images = composite
+      ? await Promise.all(returned.map((image) => compositeWithinMasks(composite.original, image, composite.masks)))
+      : returned;
+    const rendered = images.map((imageUrl, index): PreviewAttempt => ({
+      imageUrl,
+      corrective,
+      candidate: corrective ? undefined : index,
+      model: payload.model,
+      promptVersion: payload.promptVersion,
+      generatedAt: renderedAt,
+    }));
+    const awaitingPick = rendered.length > 1;
+    setRoomDrafts((current) => {
+      const draft = current[roomId];
+      if (!draft) return current;
+      const attempts = corrective ? [...(draft.previewAttempts || []), ...rendered] : rendered;
+      if (awaitingPick) {
+        return { ...current, [roomId]: {
+          ...draft,
+          previewAttempts: attempts,
+          chosenAttempt: undefined,
+          refinementTurns: undefined,
+          activeTurn: undefined,
+          previewUrl: undefined,
+          previewAudit: undefined,
+          previewApprovedAt: undefined,
+          previewApprovalOverride: undefined,
+          previewStale: false,
+        } };
+      }
+      return { ...current, [roomId]: { ...withChosenAttempt({ ...draft, previewAttempts: attempts }, attempts.length - 1), previewStale: false } };
+    });
+    setViewMode(awaitingPick ? 'candidates' : 'preview');
+    return awaitingPick ? undefined : images[0];
+  });
+
+  /** Fills the room's pending refinement turn with the rendered image and shows it. */
+  const followRefinementJob = (job: RenderJob, roomId: string, composite?: { original: string; masks: SurfaceMask[] }) => trackPreviewJob(job, async (payload) => {
+    const image: string = composite ? await compositeWithinMasks(composite.original, payload.image, composite.masks) : payload.image;
+    let applied = false;
+    setRoomDrafts((current) => {
+      const draft = current[roomId];
+      const index = draft?.refinementTurns?.findIndex((turn) => !turn.generatedAt) ?? -1;
+      if (!draft || index < 0) return current;
+      applied = true;
+      const turns = draft.refinementTurns!.map((turn, turnIndex) => turnIndex === index
+        ? { ...turn, imageUrl: image, model: payload.model, promptVersion: payload.promptVersion, generatedAt: new Date().toISOString() }
+        : turn);
+      return { ...current, [roomId]: withActiveTurn({ ...draft, refinementTurns: turns }, index) };
+    });
+    setViewMode('preview');
+    return applied ? image : undefined;
+  });
+
+  const previewItems = () => renderItems.map((item) => ({
+    section: item.section,
+    slot: item.slot,
+    name: item.nameEn,
+    specification: item.specificationEn,
+    color: item.colorEn,
+    code: item.productCode,
+    status: statusLabel(item.status, 'en'),
+    exactProductConfirmed: item.exactProductConfirmed,
+  }));
+
+  const previewRequestBody = async () => {
+    const masks = activeMasks.length && sourcePhotoData ? await rasterizeMasks(activeMasks, sourcePhotoData) : undefined;
+    const imageLength = (sourcePhotoData?.length || 0) + (masks || []).reduce((total, mask) => total + mask.image.length, 0);
+    return {
+      sourcePhoto: sourcePhotoData,
+      room: room.en,
+      style: designStyle.en,
+      note: requestNote,
+      language,
+      masks,
+      references: await productReferencePayload(renderItems, imageLength),
+      items: previewItems(),
+    };
+  };
+
+  /** Claims the preview slot before masks and references are prepared, releasing it if preparing them fails. */
+  const claimPreviewRequest = async () => {
+    previewInFlightRef.current = true;
+    setPreviewLoading(true);
+    setPreviewError(undefined);
+    try {
+      return await previewRequestBody();
+    } catch (error) {
+      setPreviewError(demoAiErrorMessage(error, language, 'preview'));
+      previewInFlightRef.current = false;
+      setPreviewLoading(false);
+      return undefined;
+    }
+  };
+
+  const renderPreviewAttempt = async (roomId: string, input: Record<string, unknown>, corrective: boolean) => {
+    const composite = activeMasks.length && sourcePhotoData ? { original: sourcePhotoData, masks: activeMasks } : undefined;
+    previewInFlightRef.current = true;
+    setPreviewLoading(true);
+    setPreviewError(undefined);
+    let job: RenderJob;
+    try {
+      job = await startRenderJob('interior-preview', input, roomId);
+    } catch (error) {
+      setPreviewError(demoAiErrorMessage(error, language, 'preview'));
+      previewInFlightRef.current = false;
+      setPreviewLoading(false);
+      return undefined;
+    }
+    return followPreviewJob(job, roomId, corrective, composite);
   };
 
   const generatePreview = async () => {
@@ -717,53 +1241,168 @@ export default function InteriorProposalApp() {
       setPreviewError(t('反映する仕上げまたは家具を1つ以上選択してください。', 'Select at least one finish or furniture item to apply.'));
       return;
     }
-    previewInFlightRef.current = true;
-    setPreviewLoading(true);
-    setPreviewError(undefined);
+    const roomId = activeRoomId;
+    const auditItems = auditItemsFor(renderItems);
+    setMaskEditing(false);
+    const body = await claimPreviewRequest();
+    if (!body) return;
+    const input = { ...body, candidateCount, forceRegenerate: Boolean((previewUrl || previewAttempts.length) && !previewStale) };
+    const renderedImage = await renderPreviewAttempt(roomId, input, false);
+    if (renderedImage) void auditPreview(roomId, sourcePhotoData, renderedImage, auditItems);
+  };
+
+  /**
+   * Re-renders with the latest audit findings as corrective instructions,
+   * auditing each attempt, until one passes or the attempt limit is reached.
+   * The best-scoring attempt is then selected; the salesperson can pick another.
+   */
+  const correctPreview = async () => {
+    if (previewInFlightRef.current || auditLoading || !sourcePhotoData || !previewAudit) return;
+    const roomId = activeRoomId;
+    const photo = sourcePhotoData;
+    const auditItems = auditItemsFor(renderItems);
+    let findings = previewAudit;
+    setCorrection({ roomId, attempt: 1 });
     try {
-      const previewItems = selectedItems.map((item) => ({
-        section: item.section,
-        name: item.nameEn,
-        specification: item.specificationEn,
-        color: item.colorEn,
-        code: item.productCode,
-        status: statusLabel(item.status, 'en'),
-        exactProductConfirmed: item.exactProductConfirmed,
-      }));
-      const response = await fetch('/api/generate-interior-preview', {
+      const body = await claimPreviewRequest();
+      if (!body) return;
+      for (let attempt = 1; attempt <= MAX_CORRECTION_ATTEMPTS; attempt += 1) {
+        setCorrection({ roomId, attempt });
+        const corrections = { missingItems: findings.missingItems, unexpectedChanges: findings.unexpectedChanges };
+        const renderedImage = await renderPreviewAttempt(roomId, { ...body, corrections, forceRegenerate: true }, true);
+        if (!renderedImage) break;
+        const audit = await auditPreview(roomId, photo, renderedImage, auditItems);
+        if (!audit) break;
+        findings = audit;
+        if (audit.status === 'pass' || (!audit.missingItems.length && !audit.unexpectedChanges.length)) break;
+      }
+    } finally {
+      setCorrection(undefined);
+    }
+    setRoomDrafts((current) => {
+      const draft = current[roomId];
+      return draft?.previewAttempts?.length ? { ...current, [roomId]: withChosenAttempt(draft, bestAttemptIndex(draft.previewAttempts)) } : current;
+    });
+  };
+
+  /** Commits an attempt as the room's preview, auditing it first if it has not been audited yet. */
+  const chooseAttempt = (index: number) => {
+    if (previewLoading || auditLoading || correction) return;
+    const attempt = previewAttempts[index];
+    if (!attempt?.imageUrl) return;
+    setOverrideReason('');
+    setRoomDrafts((current) => ({ ...current, [activeRoomId]: withChosenAttempt(current[activeRoomId] || createRoomDraft(), index) }));
+    setViewMode('preview');
+    if (!attempt.audit && sourcePhotoData) void auditPreview(activeRoomId, sourcePhotoData, attempt.imageUrl, auditItemsFor(renderItems));
+  };
+
+  const cancelPreview = () => {
+    const active = previewJobRef.current;
+    if (!active) return;
+    active.controller.abort();
+    void cancelRenderJob(active.kind, active.id);
+    if (active.kind === 'interior-refinement') dropPendingTurn(activeRoomId);
+  };
+
+  const dropPendingTurn = (roomId: string) => setRoomDrafts((current) => {
+    const draft = current[roomId];
+    if (!draft?.refinementTurns?.some((turn) => !turn.generatedAt)) return current;
+    return { ...current, [roomId]: { ...draft, refinementTurns: draft.refinementTurns.filter((turn) => turn.generatedAt) } };
+  });
+
+  const checkRefinement = async (instruction: string, items: string[]) => {
+    try {
+      const response = await fetch('/api/check-interior-refinement', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sourcePhoto: sourcePhotoData,
-          room: room.en,
-          style: designStyle.en,
-          note: requestNote,
-          language,
-          items: previewItems,
-        }),
+        body: JSON.stringify({ instruction, items }),
       });
       const payload = await readJsonResponse(response);
-      if (!response.ok || !payload.image) throw new Error(payload.error || 'Preview generation failed');
-      const renderedAt = new Date().toISOString();
-      updateActiveDraft({
-        previewUrl: payload.image,
-        previewStale: false,
-        previewApprovedAt: undefined,
-        renderedAt,
-        renderMetadata: { model: payload.model, promptVersion: payload.promptVersion, generatedAt: renderedAt },
+      if (!response.ok || !payload.check) throw new Error(payload.error || 'Refinement check failed');
+      return payload.check.conflicts as string[];
+    } catch {
+      // An unchecked turn is still allowed; the thread shows that it was not checked.
+      return undefined;
+    }
+  };
+
+  /**
+   * Edits the current preview with a follow-up instruction. Turns after the one
+   * being shown are discarded, so refining after a rollback starts a new branch.
+   */
+  const refinePreview = async () => {
+    const instruction = refinementText.trim();
+    if (previewInFlightRef.current || auditLoading || !instruction || !previewUrl || previewStale) return;
+    const roomId = activeRoomId;
+    const auditItems = auditItemsFor(renderItems);
+    const keptTurns = refinementTurns.slice(0, (activeTurn ?? -1) + 1);
+    previewInFlightRef.current = true;
+    setPreviewLoading(true);
+    setPreviewError(undefined);
+    let job: RenderJob;
+    try {
+      const [conflicts, { basePreview, references }] = await Promise.all([
+        checkRefinement(instruction, auditItems),
+        prepareImage(previewUrl, { maxEdge: 2048, maxLength: MAX_SINGLE_IMAGE_LENGTH })
+          .then(async (basePreview) => ({ basePreview, references: await productReferencePayload(renderItems, basePreview.length) })),
+      ]);
+      setRoomDrafts((current) => {
+        const draft = current[roomId];
+        return draft ? { ...current, [roomId]: { ...draft, refinementTurns: [...keptTurns, { instruction, conflicts }] } } : current;
       });
-      setViewMode('preview');
+      setRefinementText('');
+      job = await startRenderJob('interior-refinement', {
+        basePreview,
+        instruction,
+        history: keptTurns.map((turn) => turn.instruction),
+        room: room.en,
+        style: designStyle.en,
+        references,
+        items: previewItems(),
+      }, roomId);
     } catch (error) {
       setPreviewError(demoAiErrorMessage(error, language, 'preview'));
-    } finally {
+      dropPendingTurn(roomId);
       previewInFlightRef.current = false;
       setPreviewLoading(false);
+      return;
+    }
+    const composite = activeMasks.length && sourcePhotoData ? { original: sourcePhotoData, masks: activeMasks } : undefined;
+    const renderedImage = await followRefinementJob(job, roomId, composite);
+    if (!renderedImage) {
+      dropPendingTurn(roomId);
+      return;
     }
+    if (sourcePhotoData) void auditPreview(roomId, sourcePhotoData, renderedImage, auditItems);
+  };
+
+  /** Shows an earlier turn, or the chosen attempt itself for index -1. Later turns are kept until the next refinement. */
+  const rollbackToTurn = (index: number) => {
+    if (previewLoading || auditLoading) return;
+    setOverrideReason('');
+    setRoomDrafts((current) => {
+      const draft = current[activeRoomId];
+      if (!draft) return current;
+      if (index >= 0) return { ...current, [activeRoomId]: withActiveTurn(draft, index) };
+      if (draft.chosenAttempt === undefined) return current;
+      return { ...current, [activeRoomId]: { ...withChosenAttempt(draft, draft.chosenAttempt), refinementTurns: draft.refinementTurns } };
+    });
   };
 
   const approvePreview = () => {
-    if (!previewUrl || previewStale) return;
-    updateActiveDraft({ previewApprovedAt: new Date().toISOString() });
+    if (!previewUrl || previewStale || auditLoading) return;
+    const reason = overrideReason.trim();
+    if (approvalNeedsReason && !reason) return;
+    updateActiveDraft({
+      previewApprovedAt: new Date().toISOString(),
+      previewApprovalOverride: approvalNeedsReason ? reason : undefined,
+    });
+    setOverrideReason('');
+  };
+
+  const rerunAudit = () => {
+    if (!sourcePhotoData || !previewUrl || auditLoading) return;
+    void auditPreview(activeRoomId, sourcePhotoData, previewUrl, auditItemsFor(renderItems));
   };
 
   const downloadPreviewJpeg = () => {
@@ -772,6 +1411,8 @@ export default function InteriorProposalApp() {
       .catch((error) => setPreviewError(error instanceof Error ? error.message : t('画像を保存できませんでした。', 'The image could not be saved.')));
   };
 
+  const auditStatusLabel = (status: PreviewAudit['status']) => status === 'pass' ? t('合格', 'Pass') : status === 'review' ? t('要確認', 'Review') : t('不合格', 'Fail');
+
   const buildProposalHtml = () => {
     const rows = selectedItems.map((item) => {
       const quantity = getQuantity(item);
@@ -786,14 +1427,21 @@ export default function InteriorProposalApp() {
     }).join('');
     const generatedAt = longDateFormatter(language).format(new Date());
     const preview = previewUrl && previewApprovedAt ? `<img class="preview" src="${previewUrl}" alt="Human-reviewed AI interior preview">` : previewUrl ? `<div class="preview empty">${t('AIプレビューは未承認のため提案書から除外', 'AI preview omitted because human approval is pending')}</div>` : `<div class="preview empty">${t('AIプレビュー未生成', 'AI preview not generated')}</div>`;
+    const auditList = (title: string, entries: string[]) => entries.length ? `<b>${escapeHtml(title)}</b><ul>${entries.map((entry) => `<li>${escapeHtml(entry)}</li>`).join('')}</ul>` : '';
+    const appliedTurns = activeTurn === undefined ? [] : refinementTurns.slice(0, activeTurn + 1).map((turn) => turn.conflicts?.length
+      ? `${turn.instruction} — ⚠ ${t('仕上表と矛盾', 'contradicts the schedule')}: ${turn.conflicts.join('; ')}`
+      : turn.instruction);
+    const auditSummary = previewUrl && previewApprovedAt && previewAudit
+      ? `<div class="audit ${previewAudit.status}"><strong>${t('AI監査', 'AI audit')}: ${auditStatusLabel(previewAudit.status)}</strong><span>${t('構造', 'Structure')} ${previewAudit.structureScore}/100 · ${t('仕上げ反映', 'Schedule')} ${previewAudit.scheduleScore}/100</span>${previewApprovalOverride ? `<small>${t('理由付きで承認', 'Approved with a reason')}: ${escapeHtml(previewApprovalOverride)}</small>` : ''}${auditList(t('不足している項目', 'Missing items'), previewAudit.missingItems)}${auditList(t('想定外の変更', 'Unexpected changes'), previewAudit.unexpectedChanges)}${auditList(t('適用した調整', 'Refinements applied'), appliedTurns)}</div>`
+      : '';
     const measurementSummary = surfaceEstimate
-      ? `<div class="measurement"><strong>${t('写真からのAI面積概算', 'AI photo-based area estimate')}</strong><span>${t('床', 'Floor')} ${surfaceEstimate.floorAreaM2} m² · ${t('壁（開口控除）', 'Walls (net)')} ${surfaceEstimate.netWallAreaM2} m² · ${t('天井', 'Ceiling')} ${surfaceEstimate.ceilingAreaM2} m²</span><small>${escapeHtml(language === 'ja' ? surfaceEstimate.assumptionJa : surfaceEstimate.assumptionEn)}</small></div>`
+      ? `<div class="measurement"><strong>${surfaceEstimate.measurementSource === 'floorplan' ? t('平面図からの面積', 'Floorplan area takeoff') : t('写真からのAI面積概算', 'AI photo-based area estimate')}</strong><span>${t('床', 'Floor')} ${surfaceEstimate.floorAreaM2} m² · ${t('壁（開口控除）', 'Walls (net)')} ${surfaceEstimate.netWallAreaM2} m² · ${t('天井', 'Ceiling')} ${surfaceEstimate.ceilingAreaM2} m²</span><small>${escapeHtml(language === 'ja' ? surfaceEstimate.assumptionJa : surfaceEstimate.assumptionEn)}${surfaceEstimate.agreementScore !== undefined ? ` · ${t(`${surfaceEstimate.photoCount}枚の写真の一致度`, `Agreement across ${surfaceEstimate.photoCount} photos`)} ${surfaceEstimate.agreementScore}/100` : ''}</small></div>`
       : '';
     const finishScheduleHtml = finishScheduleRows.map((row) => `<tr>${(['room', 'floor', 'baseboard', 'dado', 'wall', 'ceiling', 'remarks'] as FinishScheduleField[]).map((field) => `<td>${escapeHtml(scheduleText(row[field], language)).replaceAll('\n', '<br>')}</td>`).join('')}</tr>`).join('');
     const pricingNote = unpricedCount
       ? t(`未入力単価 ${unpricedCount}件は合計に含まれていません。`, `${unpricedCount} unpriced item(s) are excluded from totals.`)
       : t('全選定品に単価が入力されています。', 'All selected items have entered prices.');
-    return `<!doctype html><html lang="${language}"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${escapeHtml(projectName)} ${t('内部仕上表', 'Interior Finish Schedule')}</title><link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Archivo:wght@600;700&family=Chivo+Mono:wght@400;500&family=Inter:wght@400;500;600;700&family=Noto+Sans+JP:wght@400;500;700&display=swap"><style>body{margin:0;background:#f7f8fa;color:#1c1e21;font-family:'Inter','Noto Sans JP',system-ui,sans-serif;font-size:13px;line-height:1.5}.page{max-width:1280px;margin:32px auto;background:#fff;border:1px solid #e5e7eb;padding:48px}.top{display:flex;justify-content:space-between;gap:32px;border-bottom:1px solid #e5e7eb;padding-bottom:24px}.eyebrow{font-size:10px;font-weight:600;letter-spacing:.15em;text-transform:uppercase;color:#9ca3af}.eyebrow::after{content:"";display:block;width:48px;height:2px;margin-top:8px;background:#1f4cda}h1{margin:16px 0 8px;font-family:'Archivo','Noto Sans JP',system-ui,sans-serif;font-size:32px;font-weight:700;letter-spacing:-.03em}.meta{font-size:12px;color:#6b7280}.summary{text-align:right}.summary strong{font-size:13px;font-weight:600}.preview{display:block;width:100%;max-height:600px;object-fit:contain;margin:32px 0;border:1px solid #e5e7eb;background:#f5f6fa}.preview.empty{height:280px;display:grid;place-items:center;color:#9ca3af;font-size:12px}.measurement{display:flex;gap:16px;align-items:baseline;padding:14px 16px;background:#eef3fd;border-left:2px solid #1f4cda;font-size:12px}.measurement strong{font-weight:600}.measurement span{font-family:'Chivo Mono',ui-monospace,monospace;font-variant-numeric:tabular-nums}.measurement small{margin-left:auto;color:#6b7280}h2{margin:32px 0 12px;font-family:'Archivo','Noto Sans JP',system-ui,sans-serif;font-size:20px;font-weight:700;letter-spacing:-.03em}table{width:100%;border-collapse:collapse;font-size:11px}th{background:#fff;text-align:left;padding:10px 8px;border-bottom:1px solid #e5e7eb;color:#9ca3af;font-size:10px;font-weight:600;letter-spacing:.15em;text-transform:uppercase}td{padding:10px 8px;border-bottom:1px solid #e5e7eb;vertical-align:top}td small{display:block;color:#6b7280;margin-top:4px}.finish-grid{table-layout:fixed;border:1px solid #1c1e21}.finish-grid th,.finish-grid td{border:1px solid #1c1e21;padding:7px 8px;vertical-align:top;white-space:normal}.finish-grid th{color:#1c1e21;background:#f5f6fa;letter-spacing:.04em;text-transform:none}.finish-grid th:first-child,.finish-grid td:first-child{width:12%}.finish-grid th:last-child,.finish-grid td:last-child{width:17%}.status{font-weight:600;color:#1f4cda}.swatch{display:block;width:36px;height:30px;border:1px solid #e5e7eb}.num{text-align:right;font-family:'Chivo Mono',ui-monospace,monospace;font-variant-numeric:tabular-nums}.totals{width:380px;margin:24px 0 0 auto}.totals div{display:flex;justify-content:space-between;padding:8px 0;border-bottom:1px solid #e5e7eb}.totals strong{font-family:'Chivo Mono',ui-monospace,monospace;font-variant-numeric:tabular-nums;font-weight:500}.totals .grand{font-size:18px;border-top:1px solid #1c1e21;border-bottom:0;margin-top:6px;padding-top:12px}.totals .grand strong{color:#1f4cda;font-weight:600}.pricing{color:#1f4cda;font-size:11px;text-align:right;margin-top:10px}.note{margin-top:32px;padding:14px 16px;background:#f5f6fa;font-size:11px;color:#6b7280}a{color:#1f4cda;text-decoration:none}@media print{body{background:#fff}.page{margin:0;max-width:none;border:0;padding:16px}.preview{max-height:350px}.finish-grid{font-size:9px}}</style></head><body><main class="page"><header class="top"><div><div class="eyebrow">ArchiX · Interior Proposal POC</div><h1>${escapeHtml(projectName)}</h1><div class="meta">${escapeHtml(customerName)} · ${escapeHtml(designStyle[language === 'ja' ? 'ja' : 'en'])}</div></div><div class="summary"><strong>${t('内部仕上表', 'Interior Finish Schedule')}</strong><div class="meta">${generatedAt}</div></div></header>${preview}${measurementSummary}<h2>${t('内部仕上表', 'Interior Finish Schedule')}</h2><table class="finish-grid"><thead><tr><th>${t('室名', 'Room')}</th><th>${t('床', 'Floor')}</th><th>${t('巾木', 'Baseboard')}</th><th>${t('腰', 'Wainscot')}</th><th>${t('壁', 'Wall')}</th><th>${t('天井', 'Ceiling')}</th><th>${t('備考', 'Remarks')}</th></tr></thead><tbody>${finishScheduleHtml}</tbody></table><h2>${t('見積明細', 'Estimate Details')}</h2><table><thead><tr><th>${t('画像', 'Image')}</th><th>${t('区分・状態', 'Section / status')}</th><th>${t('品名・仕様', 'Description / specification')}</th><th>${t('サイズ', 'Size')}</th><th>${t('色・品番', 'Color / code')}</th><th>${t('メーカー・出典', 'Maker / source')}</th><th>${t('数量', 'Qty')}</th><th>${t('単位', 'Unit')}</th><th>${t('単価', 'Unit price')}</th><th>${t('金額', 'Amount')}</th></tr></thead><tbody>${rows}</tbody></table><div class="totals"><div><span>${t('小計', 'Subtotal')}</span><strong>${currency(subtotal, language)}</strong></div><div><span>${t('消費税 10%', 'Tax 10%')}</span><strong>${currency(tax, language)}</strong></div><div class="grand"><span>${t('合計', 'Total')}</span><strong>${currency(total, language)}</strong></div></div><div class="pricing">${escapeHtml(pricingNote)}</div><div class="note">${t('本書の品番・単価・家具はブランドを使用しないPOCサンプルです。写真からの面積はAI概算であり、正式見積・発注前に現場採寸と実商品データへ置き換えてください。AI画像は完成イメージであり、製品外観を保証しません。', 'SKUs, prices, and furniture in this document are unbranded POC samples. Photo-derived areas are AI estimates; replace them with site measurements and real product data before formal estimating or ordering. AI imagery is conceptual and does not guarantee exact product appearance.')}</div></main></body></html>`;
+    return `<!doctype html><html lang="${language}"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${escapeHtml(projectName)} ${t('内部仕上表', 'Interior Finish Schedule')}</title><link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Archivo:wght@600;700&family=Chivo+Mono:wght@400;500&family=Inter:wght@400;500;600;700&family=Noto+Sans+JP:wght@400;500;700&display=swap"><style>body{margin:0;background:#f7f8fa;color:#1c1e21;font-family:'Inter','Noto Sans JP',system-ui,sans-serif;font-size:13px;line-height:1.5}.page{max-width:1280px;margin:32px auto;background:#fff;border:1px solid #e5e7eb;padding:48px}.top{display:flex;justify-content:space-between;gap:32px;border-bottom:1px solid #e5e7eb;padding-bottom:24px}.eyebrow{font-size:10px;font-weight:600;letter-spacing:.15em;text-transform:uppercase;color:#9ca3af}.eyebrow::after{content:"";display:block;width:48px;height:2px;margin-top:8px;background:#1f4cda}h1{margin:16px 0 8px;font-family:'Archivo','Noto Sans JP',system-ui,sans-serif;font-size:32px;font-weight:700;letter-spacing:-.03em}.meta{font-size:12px;color:#6b7280}.summary{text-align:right}.summary strong{font-size:13px;font-weight:600}.preview{display:block;width:100%;max-height:600px;object-fit:contain;margin:32px 0;border:1px solid #e5e7eb;background:#f5f6fa}.preview.empty{height:280px;display:grid;place-items:center;color:#9ca3af;font-size:12px}.audit{margin:-16px 0 32px;padding:14px 16px;border-left:2px solid #166534;background:#f0fdf4;font-size:12px}.audit.review{border-color:#b45309;background:#fffbeb}.audit.fail{border-color:#b91c1c;background:#fef2f2}.audit strong{margin-right:16px;font-weight:600}.audit span{font-family:'Chivo Mono',ui-monospace,monospace;font-variant-numeric:tabular-nums}.audit small{display:block;margin-top:6px;color:#6b7280}.audit b{display:block;margin-top:8px;font-weight:600}.audit ul{margin:4px 0 0;padding-left:18px}.measurement{display:flex;gap:16px;align-items:baseline;padding:14px 16px;background:#eef3fd;border-left:2px solid #1f4cda;font-size:12px}.measurement strong{font-weight:600}.measurement span{font-family:'Chivo Mono',ui-monospace,monospace;font-variant-numeric:tabular-nums}.measurement small{margin-left:auto;color:#6b7280}h2{margin:32px 0 12px;font-family:'Archivo','Noto Sans JP',system-ui,sans-serif;font-size:20px;font-weight:700;letter-spacing:-.03em}table{width:100%;border-collapse:collapse;font-size:11px}th{background:#fff;text-align:left;padding:10px 8px;border-bottom:1px solid #e5e7eb;color:#9ca3af;font-size:10px;font-weight:600;letter-spacing:.15em;text-transform:uppercase}td{padding:10px 8px;border-bottom:1px solid #e5e7eb;vertical-align:top}td small{display:block;color:#6b7280;margin-top:4px}.finish-grid{table-layout:fixed;border:1px solid #1c1e21}.finish-grid th,.finish-grid td{border:1px solid #1c1e21;padding:7px 8px;vertical-align:top;white-space:normal}.finish-grid th{color:#1c1e21;background:#f5f6fa;letter-spacing:.04em;text-transform:none}.finish-grid th:first-child,.finish-grid td:first-child{width:12%}.finish-grid th:last-child,.finish-grid td:last-child{width:17%}.status{font-weight:600;color:#1f4cda}.swatch{display:block;width:36px;height:30px;border:1px solid #e5e7eb}.num{text-align:right;font-family:'Chivo Mono',ui-monospace,monospace;font-variant-numeric:tabular-nums}.totals{width:380px;margin:24px 0 0 auto}.totals div{display:flex;justify-content:space-between;padding:8px 0;border-bottom:1px solid #e5e7eb}.totals strong{font-family:'Chivo Mono',ui-monospace,monospace;font-variant-numeric:tabular-nums;font-weight:500}.totals .grand{font-size:18px;border-top:1px solid #1c1e21;border-bottom:0;margin-top:6px;padding-top:12px}.totals .grand strong{color:#1f4cda;font-weight:600}.pricing{color:#1f4cda;font-size:11px;text-align:right;margin-top:10px}.note{margin-top:32px;padding:14px 16px;background:#f5f6fa;font-size:11px;color:#6b7280}a{color:#1f4cda;text-decoration:none}@media print{body{background:#fff}.page{margin:0;max-width:none;border:0;padding:16px}.preview{max-height:350px}.finish-grid{font-size:9px}}</style></head><body><main class="page"><header class="top"><div><div class="eyebrow">ArchiX · Interior Proposal POC</div><h1>${escapeHtml(projectName)}</h1><div class="meta">${escapeHtml(customerName)} · ${escapeHtml(designStyle[language === 'ja' ? 'ja' : 'en'])}</div></div><div class="summary"><strong>${t('内部仕上表', 'Interior Finish Schedule')}</strong><div class="meta">${generatedAt}</div></div></header>${preview}${auditSummary}${measurementSummary}<h2>${t('内部仕上表', 'Interior Finish Schedule')}</h2><table class="finish-grid"><thead><tr><th>${t('室名', 'Room')}</th><th>${t('床', 'Floor')}</th><th>${t('巾木', 'Baseboard')}</th><th>${t('腰', 'Wainscot')}</th><th>${t('壁', 'Wall')}</th><th>${t('天井', 'Ceiling')}</th><th>${t('備考', 'Remarks')}</th></tr></thead><tbody>${finishScheduleHtml}</tbody></table><h2>${t('見積明細', 'Estimate Details')}</h2><table><thead><tr><th>${t('画像', 'Image')}</th><th>${t('区分・状態', 'Section / status')}</th><th>${t('品名・仕様', 'Description / specification')}</th><th>${t('サイズ', 'Size')}</th><th>${t('色・品番', 'Color / code')}</th><th>${t('メーカー・出典', 'Maker / source')}</th><th>${t('数量', 'Qty')}</th><th>${t('単位', 'Unit')}</th><th>${t('単価', 'Unit price')}</th><th>${t('金額', 'Amount')}</th></tr></thead><tbody>${rows}</tbody></table><div class="totals"><div><span>${t('小計', 'Subtotal')}</span><strong>${currency(subtotal, language)}</strong></div><div><span>${t('消費税 10%', 'Tax 10%')}</span><strong>${currency(tax, language)}</strong></div><div class="grand"><span>${t('合計', 'Total')}</span><strong>${currency(total, language)}</strong></div></div><div class="pricing">${escapeHtml(pricingNote)}</div><div class="note">${t('本書の品番・単価・家具はブランドを使用しないPOCサンプルです。写真からの面積はAI概算であり、正式見積・発注前に現場採寸と実商品データへ置き換えてください。AI画像は完成イメージであり、製品外観を保証しません。', 'SKUs, prices, and furniture in this document are unbranded POC samples. Photo-derived areas are AI estimates; replace them with site measurements and real product data before formal estimating or ordering. AI imagery is conceptual and does not guarantee exact product appearance.')}</div></main></body></html>`;
   };
 
   const exportCsv = () => {
@@ -820,21 +1468,44 @@ export default function InteriorProposalApp() {
 
   const surfaceSlotDefinitions = activeSlotDefinitions.filter((slot) => ['floor', 'walls', 'ceiling', 'backsplash'].includes(slot.id));
   const fixtureSlotDefinitions = activeSlotDefinitions.filter((slot) => !['floor', 'walls', 'ceiling', 'backsplash'].includes(slot.id));
+  const referencePhotoNote = (item: CatalogItem) => item.referenceImages?.length ? ` · ${t(`参考写真 ${item.referenceImages.length}`, `${item.referenceImages.length} reference photo${item.referenceImages.length === 1 ? '' : 's'}`)}` : '';
+
   const renderSlotCards = (definitions: typeof activeSlotDefinitions) => definitions.map((slot) => {
     const item = catalogItem(selections[slot.id]) || CATALOG_BY_SLOT.get(slot.id)?.[0];
     const checked = enabledSlots.includes(slot.id);
     if (!item) return null;
     return <div className={`change-check ${checked ? 'checked' : ''}`} key={slot.id}>
-      <label><input type="checkbox" checked={checked} onChange={() => toggleSlot(slot.id)} /><span className="check-mark">✓</span><span className="mini-swatch" style={{ background: item.swatch }} /><span className="change-copy"><strong>{language === 'ja' ? slot.labelJa : slot.labelEn}</strong><small>{itemName(item, language)} · {itemColor(item, language)}</small></span></label>
+      <label><input type="checkbox" checked={checked} onChange={() => toggleSlot(slot.id)} /><span className="check-mark">✓</span><span className="mini-swatch" style={{ background: swatchBackground(item) }} /><span className="change-copy"><strong>{language === 'ja' ? slot.labelJa : slot.labelEn}</strong><small>{itemName(item, language)} · {itemColor(item, language)}{referencePhotoNote(item)}</small></span></label>
       <select value={item.id} disabled={!checked} onChange={(event) => updateSelection(slot.id, event.target.value)}>{(CATALOG_BY_SLOT.get(slot.id) || []).map((option) => <option key={option.id} value={option.id}>{itemName(option, language)} · {itemColor(option, language)}</option>)}</select>
     </div>;
   });
   const activeSummaryColumns = FINISH_SCHEDULE_COLUMNS.filter((column) => column.field !== 'room');
+  // Only the reviewed estimate drives quantities, so the accent wall is picked on it alone.
+  const accentWallPickable = Boolean(!surfaceEstimateSuggestion && surfaceEstimate?.walls?.length && enabledSlots.includes('walls') && catalogItem(selections.walls)?.coverage === 'one-wall');
+  const activeAccentWall = accentWallOf(surfaceEstimate, accentWall);
   const surfaceFigures = displayedSurfaceEstimate && <>
     <div><span>{t('床', 'Floor')}</span><strong>{displayedSurfaceEstimate.floorAreaM2} m²</strong></div>
     <div><span>{t('壁（開口控除）', 'Walls (net)')}</span><strong>{displayedSurfaceEstimate.netWallAreaM2} m²</strong></div>
     <div><span>{t('天井', 'Ceiling')}</span><strong>{displayedSurfaceEstimate.ceilingAreaM2} m²</strong></div>
-    <p><b>{displayedSurfaceEstimate.roomWidthM} × {displayedSurfaceEstimate.roomDepthM} × H{displayedSurfaceEstimate.ceilingHeightM} m</b><span>{t('概算', 'Estimate')} · {displayedSurfaceEstimate.confidence === 'high' ? t('高信頼', 'high confidence') : displayedSurfaceEstimate.confidence === 'medium' ? t('標準', 'standard') : t('参考値', 'indicative')}</span><small>{language === 'ja' ? displayedSurfaceEstimate.assumptionJa : displayedSurfaceEstimate.assumptionEn}</small></p>
+    <p><b>{displayedSurfaceEstimate.roomWidthM} × {displayedSurfaceEstimate.roomDepthM} × H{displayedSurfaceEstimate.ceilingHeightM} m</b><span>{displayedSurfaceEstimate.measurementSource === 'floorplan' ? t('平面図', 'Floorplan') : t('概算', 'Estimate')} · {displayedSurfaceEstimate.confidence === 'high' ? t('高信頼', 'high confidence') : displayedSurfaceEstimate.confidence === 'medium' ? t('標準', 'standard') : t('参考値', 'indicative')}</span><small>{language === 'ja' ? displayedSurfaceEstimate.assumptionJa : displayedSurfaceEstimate.assumptionEn}</small></p>
+    {displayedSurfaceEstimate.perPhoto && <div className={`estimate-agreement ${displayedSurfaceEstimate.agreementScore !== undefined && displayedSurfaceEstimate.agreementScore < LOW_AGREEMENT_SCORE ? 'low' : ''}`}>
+      <strong>{t('写真間の一致度', 'Agreement between photos')} {displayedSurfaceEstimate.agreementScore ?? '—'}/100</strong>
+      <ol>{displayedSurfaceEstimate.perPhoto.map((photo, index) => <li key={index}><b>{photo.roomWidthM && photo.roomDepthM ? `${photo.roomWidthM} × ${photo.roomDepthM} m` : '—'}</b> {language === 'ja' ? photo.assumptionJa : photo.assumptionEn}</li>)}</ol>
+    </div>}
+    {displayedSurfaceEstimate.walls?.length ? <div className="estimate-walls">
+      <table>
+        <thead><tr><th>{t('壁', 'Wall')}</th><th>{t('長さ × 高さ', 'Length × height')}</th><th>{t('開口', 'Openings')}</th><th>{t('総面積', 'Gross')}</th><th>{t('正味', 'Net')}</th>{accentWallPickable && <th>{t('アクセント', 'Accent')}</th>}</tr></thead>
+        <tbody>{displayedSurfaceEstimate.walls.map((wall, index) => <tr key={index} className={accentWallPickable && wall === activeAccentWall ? 'accent' : ''}>
+          <td>{language === 'ja' ? wall.nameJa : wall.nameEn}</td>
+          <td>{wall.lengthM} × {wall.heightM} m</td>
+          <td>{wall.openings.length ? wall.openings.map((opening) => `${opening.type === 'door' ? t('ドア', 'Door') : t('窓', 'Window')} ${opening.widthM}×${opening.heightM}${opening.count > 1 ? ` ×${opening.count}` : ''}`).join(' · ') : '—'}</td>
+          <td>{wall.grossAreaM2} m²</td>
+          <td>{wall.netAreaM2} m²</td>
+          {accentWallPickable && <td><input type="radio" name={`accent-wall-${activeRoomId}`} checked={wall === activeAccentWall} onChange={() => chooseAccentWall(index)} aria-label={t(`${wall.nameJa}をアクセント壁にする`, `Use ${wall.nameEn} as the accent wall`)} /></td>}
+        </tr>)}</tbody>
+      </table>
+      {displayedSurfaceEstimate.validationIssues?.length ? <em>{displayedSurfaceEstimate.validationIssues.join(' ')}</em> : null}
+    </div> : null}
   </>;
 
   return (
@@ -894,7 +1565,7 @@ export default function InteriorProposalApp() {
         </section>
 
         <div className={`workspace-pane ${workspaceView === 'floorplan' ? '' : 'is-inactive'}`} aria-hidden={workspaceView !== 'floorplan'}>
-          <FloorplanWorkspace language={language} />
+          {projectId && <FloorplanWorkspace key={projectId} language={language} projectKey={projectId} linkedRooms={linkedFloorplanRooms} onUseRooms={applyFloorplanRooms} />}
         </div>
         {workspaceView === 'room' && <>
         <section className="studio-workspace">
@@ -903,16 +1574,18 @@ export default function InteriorProposalApp() {
               <div className="view-tabs" role="tablist">
                 <button className={viewMode === 'source' ? 'active' : ''} onClick={() => setViewMode('source')} disabled={!sourcePhotoUrl}>{t('元の写真', 'Original')}</button>
                 <button className={viewMode === 'preview' ? 'active' : ''} onClick={() => setViewMode('preview')} disabled={!previewUrl}>{t('変更後', 'Preview')}</button>
+                {candidatePickerVisible && <button className={viewMode === 'candidates' ? 'active' : ''} onClick={() => setViewMode('candidates')}>{t(`候補 ${previewCandidates.length}`, `Candidates ${previewCandidates.length}`)}</button>}
               </div>
               <div className="visual-tools">
                 <span className={`render-state ${previewApprovedAt && !previewStale ? 'ready' : ''}`}>{previewLoading ? t('生成中…', 'Rendering…') : previewStale ? t('変更あり · 必要なら更新', 'Changes pending · update if needed') : previewApprovedAt ? t('デモ準備済み', 'Demo-ready preview') : previewUrl ? t('簡易確認待ち', 'Ready for review') : t('未生成', 'Not rendered')}</span>
+                {sourcePhotoUrl && <button className={`mask-toggle ${maskEditing ? 'active' : ''}`} disabled={previewLoading} onClick={() => { setViewMode('source'); setMaskEditing((current) => !current); }}>{activeMasks.length ? t(`マスク ${activeMasks.length}`, `Masks ${activeMasks.length}`) : t('マスク', 'Masks')}</button>}
                 {previewUrl && <button className="download-jpg" disabled={previewLoading} onClick={downloadPreviewJpeg}>↓ JPG</button>}
-                <button className="change-photo" disabled={estimateLoading || previewLoading} onClick={() => fileInputRef.current?.click()}>{sourcePhotoUrl ? t('写真を変更', 'Change photo') : t('写真を選択', 'Choose photo')}</button>
+                <button className="change-photo" disabled={estimateLoading || previewLoading || sourcePhotos.length >= MAX_SOURCE_PHOTOS} onClick={() => fileInputRef.current?.click()}>{sourcePhotos.length ? t('別の角度を追加', 'Add another angle') : t('写真を選択', 'Choose photos')}</button>
               </div>
             </div>
 
             <section className="surface-estimator" aria-label={t('面積の自動推定', 'Automatic surface estimate')}>
-                <div className="estimate-intro"><span>AUTOMATIC SPACE DIMENSIONS</span><strong>{estimateLoading ? t('写真から空間寸法を推定中…', 'Estimating space dimensions from the photo…') : surfaceEstimateSuggestion ? t('寸法候補を確認してください', 'Review the dimension suggestion') : surfaceEstimate ? t('確認済み寸法を使用中', 'Using reviewed dimensions') : sourcePhotoData ? t('寸法候補を準備中', 'Preparing dimension suggestion') : t('写真アップロード時に自動推定', 'Estimated automatically on photo upload')}</strong><small>{surfaceEstimateSuggestion ? t('確認すると床・壁・天井の数量へ反映されます。', 'Approve the suggestion to use it for floor, wall, and ceiling quantities.') : t('各部屋の写真ごとに1回実行します。必要ならボタンで再推定できます。', 'Runs once for each room photo. Use the button only when you need another estimate.')}</small></div>
+                <div className="estimate-intro"><span>AUTOMATIC SPACE DIMENSIONS</span><strong>{estimateLoading ? sourcePhotos.length > 1 ? t(`${sourcePhotos.length}枚の写真から空間寸法を推定中…`, `Estimating space dimensions from ${sourcePhotos.length} photos…`) : t('写真から空間寸法を推定中…', 'Estimating space dimensions from the photo…') : surfaceEstimateSuggestion ? t('寸法候補を確認してください', 'Review the dimension suggestion') : surfaceEstimate ? t('確認済み寸法を使用中', 'Using reviewed dimensions') : sourcePhotoData ? t('寸法候補を準備中', 'Preparing dimension suggestion') : t('写真アップロード時に自動推定', 'Estimated automatically on photo upload')}</strong><small>{surfaceEstimateSuggestion ? t('確認すると床・壁・天井の数量へ反映されます。', 'Approve the suggestion to use it for floor, wall, and ceiling quantities.') : t('各部屋の写真ごとに1回実行します。必要ならボタンで再推定できます。', 'Runs once for each room photo. Use the button only when you need another estimate.')}</small></div>
                 <label className="height-input"><span>{t('想定天井高', 'Assumed height')}</span><div><input type="number" min="2" max="5" step="0.1" value={assumedCeilingHeight} onChange={(event) => updateActiveDraft({ assumedCeilingHeight: Number(event.target.value) || 2.4 })} /><em>m</em></div></label>
                 <button className="estimate-button" disabled={!sourcePhotoData || estimateLoading} onClick={estimateSurfaces}>{estimateLoading ? t('推定中…', 'Estimating…') : displayedSurfaceEstimate ? t('別の候補を推定', 'Generate another suggestion') : t('候補を推定', 'Estimate suggestion')}</button>
                 {surfaceFigures && <div className={`estimate-result ${surfaceEstimateSuggestion ? 'pending-review' : 'reviewed'}`}>
@@ -922,19 +1595,77 @@ export default function InteriorProposalApp() {
                 {estimateError && <div className="estimate-error demo-notice">{estimateError}</div>}
               </section>
 
-            <input ref={fileInputRef} type="file" accept="image/png,image/jpeg" hidden onChange={(event) => loadSourcePhoto(event.target.files?.[0])} />
-            <div className={`visual-stage ${dragActive ? 'dragging' : ''} ${!sourcePhotoUrl ? 'empty' : ''}`} onDragEnter={(event) => { event.preventDefault(); setDragActive(true); }} onDragOver={(event) => event.preventDefault()} onDragLeave={() => setDragActive(false)} onDrop={(event) => { event.preventDefault(); setDragActive(false); loadSourcePhoto(event.dataTransfer.files[0]); }} onClick={() => { if (!sourcePhotoUrl) fileInputRef.current?.click(); }} role={!sourcePhotoUrl ? 'button' : undefined} tabIndex={!sourcePhotoUrl ? 0 : undefined} onKeyDown={(event) => { if (!sourcePhotoUrl && event.key === 'Enter') fileInputRef.current?.click(); }}>
-              {previewLoading ? <div className="rendering-message"><span className="studio-spinner" /><strong>{t('選んだ変更を反映しています', 'Applying your selected changes')}</strong><small>{t('30〜90秒ほどかかります', 'Usually 30–90 seconds')}</small></div>
-                : viewMode === 'preview' && previewUrl ? <><img src={previewUrl} alt={t('変更後の室内', 'Updated room')} />{previewStale && <span className="stale-chip">{t('選択が変わりました · 必要なら更新', 'Selections changed · update if needed')}</span>}{!previewStale && <span className="verification-chip pass">{previewApprovedAt ? `✓ ${t('デモ準備済み', 'Demo ready')}` : t('プレビュー完成 · 簡易確認待ち', 'Preview ready · quick review')}</span>}</>
+            <input ref={fileInputRef} type="file" accept="image/png,image/jpeg" multiple hidden onChange={(event) => { loadSourcePhotos(Array.from(event.target.files || [])); event.target.value = ''; }} />
+            {sourcePhotos.length > 0 && <div className="source-photo-strip" role="group" aria-label={t('この部屋の写真', 'Photos of this room')}>
+              {sourcePhotos.map((photo, index) => <div key={photo.url} className={index === renderBasePhoto ? 'active' : ''}>
+                <button disabled={previewLoading} onClick={() => setRenderBasePhoto(index)} title={photo.name}>
+                  <img src={photo.url} alt={t(`写真 ${index + 1}`, `Photo ${index + 1}`)} />
+                  <span>{index === renderBasePhoto ? t('生成の基準', 'Render base') : t('基準にする', 'Use as base')}</span>
+                </button>
+                <button className="remove" disabled={previewLoading || estimateLoading} onClick={() => removeSourcePhoto(index)} aria-label={t(`写真 ${index + 1} を削除`, `Remove photo ${index + 1}`)}>×</button>
+              </div>)}
+              <small>{sourcePhotos.length > 1 ? t(`${sourcePhotos.length}枚の写真から寸法を推定します。生成・マスク・監査には基準の写真を使います。`, `Dimensions are estimated from all ${sourcePhotos.length} photos. Renders, masks, and audits use the render base.`) : t('別の角から撮った写真を追加すると、カメラ背後の壁も推定に含まれます。', 'Add photos from other corners so the walls behind the camera are estimated too.')}</small>
+            </div>}
+            <div className={`visual-stage ${dragActive ? 'dragging' : ''} ${!sourcePhotoUrl ? 'empty' : ''}`} onDragEnter={(event) => { event.preventDefault(); setDragActive(true); }} onDragOver={(event) => event.preventDefault()} onDragLeave={() => setDragActive(false)} onDrop={(event) => { event.preventDefault(); setDragActive(false); loadSourcePhotos(Array.from(event.dataTransfer.files)); }} onClick={() => { if (!sourcePhotoUrl) fileInputRef.current?.click(); }} role={!sourcePhotoUrl ? 'button' : undefined} tabIndex={!sourcePhotoUrl ? 0 : undefined} onKeyDown={(event) => { if (!sourcePhotoUrl && event.key === 'Enter') fileInputRef.current?.click(); }}>
+              {previewLoading ? <div className="rendering-message"><span className="studio-spinner" /><strong>{correction?.roomId === activeRoomId ? t(`監査の指摘を反映して補正中（${correction.attempt}/${MAX_CORRECTION_ATTEMPTS}回目）`, `Correcting from the audit (attempt ${correction.attempt} of ${MAX_CORRECTION_ATTEMPTS})`) : refinementTurns.some((turn) => !turn.generatedAt) ? t('調整の指示を反映しています', 'Applying your refinement') : t('選んだ変更を反映しています', 'Applying your selected changes')}</strong><small>{t('30〜90秒ほどかかります', 'Usually 30–90 seconds')} · {Math.round(previewProgress * 100)}%</small><button className="render-cancel-button" onClick={(event) => { event.stopPropagation(); cancelPreview(); }}>{t('生成を中止', 'Cancel render')}</button></div>
+                : maskEditing && viewMode === 'source' && sourcePhotoUrl ? <SurfaceMaskEditor language={language} photoUrl={sourcePhotoUrl} masks={surfaceMasks} onClose={() => setMaskEditing(false)}
+                  slots={maskableSlots.map((slot) => ({ id: slot.id, label: t(slot.labelJa, slot.labelEn) }))}
+                  onChange={(masks) => updateActiveDraft({ surfaceMasks: masks, previewStale: Boolean(previewUrl), previewApprovedAt: undefined })} />
+                : viewMode === 'candidates' && candidatePickerVisible ? <div className="candidate-grid" role="group" aria-label={t('生成候補', 'Render candidates')}>
+                  {previewAttempts.map((attempt, index) => attempt.candidate === undefined ? null : <button key={index} className={index === chosenAttempt ? 'active' : ''} disabled={auditLoading} onClick={() => chooseAttempt(index)}>
+                    <img src={attempt.imageUrl} alt={t(`候補 ${attempt.candidate + 1}`, `Candidate ${attempt.candidate + 1}`)} />
+                    <span>{index === chosenAttempt ? `✓ ${t('採用中', 'Chosen')}` : t(`候補 ${attempt.candidate + 1} を採用`, `Use candidate ${attempt.candidate + 1}`)}</span>
+                  </button>)}
+                </div>
+                : viewMode === 'preview' && previewUrl ? <><img src={previewUrl} alt={t('変更後の室内', 'Updated room')} />{previewStale && <span className="stale-chip">{t('選択が変わりました · 必要なら更新', 'Selections changed · update if needed')}</span>}{!previewStale && <span className={`verification-chip ${previewAudit?.status || 'pass'}`}>{previewApprovedAt ? `✓ ${t('デモ準備済み', 'Demo ready')}` : auditLoading ? t('AI監査中…', 'Auditing…') : previewAudit ? `${t('AI監査', 'AI audit')}: ${auditStatusLabel(previewAudit.status)} · ${previewAudit.structureScore}/${previewAudit.scheduleScore}` : t('プレビュー完成 · 簡易確認待ち', 'Preview ready · quick review')}</span>}</>
                   : sourcePhotoUrl ? <img src={sourcePhotoUrl} alt={t('元の室内写真', 'Original room')} />
                     : <div className="upload-message"><span>＋</span><strong>{room[language]} · {t('写真をアップロード', 'Upload a photo')}</strong><small>PNG / JPEG · {t('最大12MB · 空間寸法を自動推定', '12 MB max · dimensions estimated automatically')}</small></div>}
             </div>
 
             {previewError && <div className="render-error demo-notice"><strong>{t('今回は生成されませんでした', 'Not generated this time')}</strong><span>{previewError}</span></div>}
-            {previewUrl && !previewStale && <div className="preview-verification-panel pass"><div><span>DEMO REVIEW</span><strong>{previewApprovedAt ? t('このプレビューはデモで使用できます', 'This preview is ready for the demo') : t('見た目を簡単に確認してください', 'Give the result a quick visual check')}</strong><small>{t('クレジット節約のため追加のAI監査と自動再試行は行いません。', 'To save credits, no additional AI audit or automatic retry is run.')}</small></div>{!previewApprovedAt && <button onClick={approvePreview}>{t('見た目を確認して使用', 'Looks good — use it')}</button>}</div>}
+            {previewUrl && !previewStale && <div className={`preview-verification-panel ${previewApprovedAt ? 'pass' : previewAudit?.status || 'review'}`}>
+              <div><span>AI AUDIT · DEMO REVIEW</span>
+                <strong>{previewApprovedAt ? previewApprovalOverride ? t('理由付きで承認済み', 'Approved with a recorded reason') : t('このプレビューはデモで使用できます', 'This preview is ready for the demo') : auditLoading ? t('AI監査を実行中…', 'Running the AI audit…') : activeTurnConflicts.length ? t('この調整は仕上表と矛盾します · 承認には理由が必要です', 'This refinement contradicts the schedule · approval needs a reason') : previewAudit?.status === 'pass' ? t('AI監査に合格 · 見た目を確認して使用', 'Audit passed · give it a quick visual check') : previewAudit?.status === 'review' ? t('AI監査で確認事項があります · 承認には理由が必要です', 'The audit flagged items to review · approval needs a reason') : previewAudit?.status === 'fail' ? t('AI監査で不合格 · 承認には理由が必要です', 'The audit failed · approval needs a reason') : t('AI監査の結果がありません · 監査を実行するか、理由を付けて承認してください', 'No audit result · run the audit, or approve with a reason')}</strong>
+                <small>{previewAudit ? `${t('構造', 'Structure')} ${previewAudit.structureScore}/100 · ${t('仕上げ反映', 'Schedule')} ${previewAudit.scheduleScore}/100 · ${t('AI監査は人の確認を置き換えません', 'The AI audit does not replace a human check')}` : activeAuditError || t('生成後に元写真と比較するAI監査を自動で実行します。', 'An AI audit against the source photo runs automatically after each render.')}</small></div>
+              {!previewApprovedAt && !auditLoading && !previewAudit && sourcePhotoData && <button className="secondary" onClick={rerunAudit}>{t('AI監査を実行', 'Run audit')}</button>}
+              {!previewApprovedAt && !auditLoading && !approvalNeedsReason && <button onClick={approvePreview}>{t('見た目を確認して使用', 'Looks good — use it')}</button>}
+              {!previewApprovedAt && !auditLoading && approvalNeedsReason && <form className="audit-override" onSubmit={(event) => { event.preventDefault(); approvePreview(); }}>
+                <input value={overrideReason} onChange={(event) => setOverrideReason(event.target.value)} placeholder={t('承認する理由（必須）', 'Reason for approving (required)')} aria-label={activeTurnConflicts.length ? t('仕上表と矛盾する調整を承認する理由', 'Reason for approving a refinement that contradicts the schedule') : previewAudit?.status === 'fail' ? t('監査不合格を承認する理由', 'Reason for overriding the failed audit') : t('合格した監査なしで承認する理由', 'Reason for approving without a passing audit')} />
+                <button type="submit" disabled={!overrideReason.trim()}>{t('理由を付けて承認', 'Approve with reason')}</button>
+              </form>}
+            </div>}
+            {previewUrl && !previewStale && previewAudit && Boolean(previewAudit.missingItems.length || previewAudit.unexpectedChanges.length) && <div className="preview-audit-findings">
+              {Boolean(previewAudit.missingItems.length) && <div><b>{t('不足している項目', 'Missing items')}</b><ul>{previewAudit.missingItems.map((entry, index) => <li key={index}>{entry}</li>)}</ul></div>}
+              {Boolean(previewAudit.unexpectedChanges.length) && <div><b>{t('想定外の変更', 'Unexpected changes')}</b><ul>{previewAudit.unexpectedChanges.map((entry, index) => <li key={index}>{entry}</li>)}</ul></div>}
+              {!previewApprovedAt && sourcePhotoData && <div className="audit-correction"><button disabled={previewLoading || auditLoading || Boolean(correction)} onClick={correctPreview}>{t(`指摘を反映して自動補正（最大${MAX_CORRECTION_ATTEMPTS}回）`, `Auto-correct from these findings (up to ${MAX_CORRECTION_ATTEMPTS} tries)`)}</button><small>{t('各回で画像生成と監査を1回ずつ実行し、すべての試行を保持します。', 'Each try runs one render and one audit; every attempt is kept.')}</small></div>}
+            </div>}
+            {previewUrl && !previewStale && previewAttempts.length > 1 && <div className="preview-attempts" role="group" aria-label={t('生成した試行', 'Render attempts')}>
+              {previewAttempts.map((attempt, index) => <button key={index} className={index === chosenAttempt ? 'active' : ''} disabled={!attempt.imageUrl || previewLoading || auditLoading || Boolean(correction)} onClick={() => chooseAttempt(index)}>
+                {attempt.imageUrl ? <img src={attempt.imageUrl} alt="" /> : <i />}
+                <span><strong>{attempt.corrective ? t(`補正 ${index - previewCandidates.length + 1}`, `Correction ${index - previewCandidates.length + 1}`) : previewCandidates.length > 1 ? t(`候補 ${index + 1}`, `Candidate ${index + 1}`) : t('初回', 'First render')}</strong><small>{attempt.audit ? `${auditStatusLabel(attempt.audit.status)} · ${attempt.audit.structureScore}/${attempt.audit.scheduleScore}` : t('未監査', 'Not audited')}</small></span>
+              </button>)}
+            </div>}
+            {previewUrl && !previewStale && <section className="refinement-thread" aria-label={t('プレビューの調整', 'Preview refinements')}>
+              <div className="refinement-heading"><span>REFINE THIS PREVIEW</span><small>{t('指示は現在のプレビューを編集します。仕上表が正であり、矛盾する指示には印が付きます。', 'Each instruction edits the current preview. The finish schedule stays the source of truth; contradicting turns are flagged.')}</small></div>
+              {refinementTurns.length > 0 && <ol>
+                <li className={activeTurn === undefined ? 'active' : ''}><button disabled={previewLoading || auditLoading} onClick={() => rollbackToTurn(-1)}><strong>{t('元のレンダリング', 'Base render')}</strong></button></li>
+                {refinementTurns.map((turn, index) => <li key={index} className={`${index === activeTurn ? 'active' : ''} ${turn.conflicts?.length ? 'flagged' : ''}`}>
+                  <button disabled={!turn.imageUrl || previewLoading || auditLoading} onClick={() => rollbackToTurn(index)}>
+                    <strong>{index + 1}. {turn.instruction}</strong>
+                    <small>{!turn.generatedAt ? t('生成中…', 'Rendering…') : turn.conflicts?.length ? `⚠ ${t('仕上表と矛盾', 'Contradicts the schedule')}: ${turn.conflicts.join(' · ')}` : turn.conflicts ? t('仕上表と矛盾なし', 'Consistent with the schedule') : t('仕上表との照合なし', 'Not checked against the schedule')}{turn.audit ? ` · ${t('AI監査', 'AI audit')} ${auditStatusLabel(turn.audit.status)}` : ''}</small>
+                  </button>
+                </li>)}
+              </ol>}
+              <form onSubmit={(event) => { event.preventDefault(); void refinePreview(); }}>
+                <input value={refinementText} maxLength={400} onChange={(event) => setRefinementText(event.target.value)} placeholder={t('例：ソファを濃い色に、ラグを外す', 'e.g. make the sofa darker, remove the rug')} aria-label={t('調整の指示', 'Refinement instruction')} />
+                <button type="submit" disabled={!refinementText.trim() || previewLoading || auditLoading || Boolean(correction)}>{t('調整', 'Refine')}</button>
+              </form>
+              {(activeTurn ?? -1) < refinementTurns.length - 1 && <small className="refinement-branch-note">{t('ここから調整すると、以降の調整は置き換えられます。', 'Refining from here replaces the later turns.')}</small>}
+            </section>}
             <div className="render-bar">
-              <small className="render-credit-note">{t('クリック時に画像生成1回 · 自動再試行なし', 'One image call per click · no automatic retry')}</small>
-              <button className="render-button" disabled={previewLoading || estimateLoading || !sourcePhotoData || !selectedItems.length} onClick={generatePreview}>{previewLoading ? `${room[language]} ${t('生成中…', 'rendering…')}` : estimateLoading ? t('面積を推定しています…', 'Estimating room size…') : previewUrl ? t(`${room.ja}を再生成`, `Update ${room.en} render`) : t(`${room.ja}を生成`, `Render ${room.en}`)} <span>→</span></button>
+              <small className="render-credit-note">{t(`クリック時に画像生成${candidateCount}回 · 自動再試行なし`, candidateCount === 1 ? 'One image call per click · no automatic retry' : `${candidateCount} image calls per click · no automatic retry`)}</small>
+              <label className="candidate-count"><span>{t('候補数', 'Candidates')}</span><select value={candidateCount} disabled={previewLoading} onChange={(event) => setCandidateCount(Number(event.target.value))}>{[1, 2, 3, 4].map((count) => <option key={count} value={count}>{count}</option>)}</select></label>
+              <button className="render-button" disabled={previewLoading || estimateLoading || Boolean(correction) || !sourcePhotoData || !selectedItems.length} onClick={generatePreview}>{previewLoading ? `${room[language]} ${t('生成中…', 'rendering…')}` : estimateLoading ? t('面積を推定しています…', 'Estimating room size…') : previewUrl ? t(`${room.ja}を再生成`, `Update ${room.en} render`) : t(`${room.ja}を生成`, `Render ${room.en}`)} <span>→</span></button>
             </div>
           </div>
 
@@ -955,7 +1686,7 @@ export default function InteriorProposalApp() {
                 <p className="reference-note">{t('外部ブランドを使用しないPOC用の品番・価格です', 'Unbranded POC sample SKUs and prices')}</p>
                 {ACCESSORY_CATALOG.map((item) => {
                   const checked = accessories.includes(item.id);
-                  return <label className={`furniture-check ${checked ? 'checked' : ''}`} key={item.id}><input type="checkbox" checked={checked} onChange={() => toggleAccessory(item.id)} /><span className="check-mark">✓</span><span className="mini-swatch" style={{ background: item.swatch }} /><span><strong>{itemName(item, language)}</strong><small>{itemColor(item, language)} · {currency(item.unitPrice || 0, language)}</small></span></label>;
+                  return <label className={`furniture-check ${checked ? 'checked' : ''}`} key={item.id}><input type="checkbox" checked={checked} onChange={() => toggleAccessory(item.id)} /><span className="check-mark">✓</span><span className="mini-swatch" style={{ background: swatchBackground(item) }} /><span><strong>{itemName(item, language)}</strong><small>{itemColor(item, language)} · {currency(item.unitPrice || 0, language)}{referencePhotoNote(item)}</small></span></label>;
                 })}
                 </div>
               </details>
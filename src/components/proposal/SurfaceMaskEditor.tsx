@@ -0,0 +1,166 @@
+import React, { useEffect, useId, useRef, useState } from 'react';
+import { pick, type Language } from '../i18n';
+import type { SelectionSlot } from './catalog';
+import type { MaskPoint, MaskShape, SurfaceMask } from './surfaceMasks';
+
+interface Props {
+  language: Language;
+  photoUrl: string;
+  slots: Array<{ id: SelectionSlot; label: string }>;
+  masks: SurfaceMask[];
+  onChange: (masks: SurfaceMask[]) => void;
+  onClose: () => void;
+}
+
+type MaskTool = 'brush' | 'erase' | 'polygon';
+
+const SLOT_COLORS = ['#1f5eff', '#1c9a5b', '#e8772e', '#8b46d9', '#d6336c', '#0f97a8', '#c59a0a', '#d93a2b', '#4d5bd6', '#6b9a1f'];
+const CLOSE_DISTANCE_PX = 12;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export default function SurfaceMaskEditor({ language, photoUrl, slots, masks, onChange, onClose }: Props) {
+  const t = (ja: string, en: string) => pick(language, ja, en);
+  const idPrefix = useId();
+  const frameRef = useRef<HTMLDivElement>(null);
+  const [activeSlot, setActiveSlot] = useState<SelectionSlot | undefined>(slots[0]?.id);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(0.03);
+  const [stroke, setStroke] = useState<Extract<MaskShape, { kind: 'stroke' }>>();
+  const [polygon, setPolygon] = useState<MaskPoint[]>([]);
+  const [photoSize, setPhotoSize] = useState<{ width: number; height: number }>();
+  const [frameSize, setFrameSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+    const updateSize = () => setFrameSize({ width: frame.clientWidth, height: frame.clientHeight });
+    updateSize();
+    const observer = new ResizeObserver(updateSize);
+    observer.observe(frame);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!activeSlot || !slots.some((slot) => slot.id === activeSlot)) setActiveSlot(slots[0]?.id);
+  }, [slots, activeSlot]);
+
+  const width = photoSize?.width || 1;
+  const height = photoSize?.height || 1;
+  const scale = photoSize ? Math.min(frameSize.width / width, frameSize.height / height) : 0;
+  const activeMask = masks.find((mask) => mask.slot === activeSlot);
+  const colorOf = (slot: SelectionSlot) => SLOT_COLORS[Math.max(0, slots.findIndex((candidate) => candidate.id === slot)) % SLOT_COLORS.length];
+
+  const updateActiveMask = (update: (shapes: MaskShape[]) => MaskShape[]) => {
+    if (!activeSlot) return;
+    const shapes = update(activeMask?.shapes || []);
+    const others = masks.filter((mask) => mask.slot !== activeSlot);
+    onChange(shapes.length ? [...others, { slot: activeSlot, shapes }] : others);
+  };
+
+  const commitShape = (shape: MaskShape) => {
+    if (shape.kind === 'stroke' && shape.erase && !activeMask) return;
+    updateActiveMask((shapes) => [...shapes, shape]);
+  };
+
+  const pointFrom = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: clamp((event.clientX - rect.left) / rect.width), y: clamp((event.clientY - rect.top) / rect.height) };
+  };
+
+  const startDrawing = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!activeSlot || !photoSize) return;
+    const point = pointFrom(event);
+    if (tool === 'polygon') {
+      const first = polygon[0];
+      if (polygon.length >= 3 && Math.hypot((point.x - first.x) * width * scale, (point.y - first.y) * height * scale) <= CLOSE_DISTANCE_PX) {
+        closePolygon();
+        return;
+      }
+      setPolygon((current) => [...current, point]);
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setStroke({ kind: 'stroke', points: [point], radius: brushSize, erase: tool === 'erase' });
+  };
+
+  const continueDrawing = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!stroke || !event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    const point = pointFrom(event);
+    const last = stroke.points[stroke.points.length - 1];
+    if (Math.hypot(point.x - last.x, point.y - last.y) < 0.002) return;
+    setStroke({ ...stroke, points: [...stroke.points, point] });
+  };
+
+  const finishDrawing = () => {
+    if (!stroke) return;
+    commitShape(stroke);
+    setStroke(undefined);
+  };
+
+  const closePolygon = () => {
+    if (polygon.length >= 3) commitShape({ kind: 'polygon', points: polygon });
+    setPolygon([]);
+  };
+
+  const selectSlot = (slot: SelectionSlot) => {
+    setActiveSlot(slot);
+    setPolygon([]);
+  };
+
+  const selectTool = (next: MaskTool) => {
+    setTool(next);
+    setPolygon([]);
+  };
+
+  const renderShape = (shape: MaskShape, key: React.Key) => {
+    const points = shape.points.map((point) => `${point.x * width},${point.y * height}`).join(' ');
+    if (shape.kind === 'polygon') return shape.points.length >= 3 ? <polygon key={key} points={points} fill="white" /> : null;
+    const paint = shape.erase ? 'black' : 'white';
+    if (shape.points.length === 1) return <circle key={key} cx={shape.points[0].x * width} cy={shape.points[0].y * height} r={shape.radius * width} fill={paint} />;
+    return <polyline key={key} points={points} fill="none" stroke={paint} strokeWidth={shape.radius * 2 * width} strokeLinecap="round" strokeLinejoin="round" />;
+  };
+
+  // The stroke in progress is drawn as part of its mask so erasing previews live.
+  const displayedMasks = stroke && activeSlot
+    ? [...masks.filter((mask) => mask.slot !== activeSlot), { slot: activeSlot, shapes: [...(activeMask?.shapes || []), stroke] }]
+    : masks;
+
+  return <div className="mask-editor" onKeyDown={(event) => { if (event.key === 'Escape') setPolygon([]); if (event.key === 'Enter') closePolygon(); }}>
+    <div className="mask-toolbar">
+      <label><span>{t('対象', 'Slot')}</span><select value={activeSlot || ''} onChange={(event) => selectSlot(event.target.value as SelectionSlot)}>
+        {slots.map((slot) => <option key={slot.id} value={slot.id}>{slot.label}{masks.some((mask) => mask.slot === slot.id) ? ' ●' : ''}</option>)}
+      </select></label>
+      <div className="mask-tools" role="group" aria-label={t('マスクツール', 'Mask tools')}>
+        <button className={tool === 'brush' ? 'active' : ''} onClick={() => selectTool('brush')}>{t('ブラシ', 'Brush')}</button>
+        <button className={tool === 'erase' ? 'active' : ''} onClick={() => selectTool('erase')}>{t('消しゴム', 'Erase')}</button>
+        <button className={tool === 'polygon' ? 'active' : ''} onClick={() => selectTool('polygon')}>{t('多角形', 'Polygon')}</button>
+      </div>
+      {tool === 'polygon'
+        ? <button disabled={polygon.length < 3} onClick={closePolygon}>{t('形を閉じる', 'Close shape')}</button>
+        : <label><span>{t('太さ', 'Size')}</span><input type="range" min="0.005" max="0.08" step="0.005" value={brushSize} onChange={(event) => setBrushSize(Number(event.target.value))} /></label>}
+      <button disabled={!activeMask?.shapes.length} onClick={() => updateActiveMask((shapes) => shapes.slice(0, -1))}>{t('元に戻す', 'Undo')}</button>
+      <button disabled={!activeMask} onClick={() => updateActiveMask(() => [])}>{t('この面を消去', 'Clear slot')}</button>
+      <button className="done" onClick={onClose}>{t('完了', 'Done')}</button>
+    </div>
+    <div className="mask-frame" ref={frameRef}>
+      <div className="mask-canvas" style={{ width: width * scale, height: height * scale }}>
+        <img src={photoUrl} alt={t('マスク編集中の元写真', 'Original room being masked')} onLoad={(event) => setPhotoSize({ width: event.currentTarget.naturalWidth, height: event.currentTarget.naturalHeight })} />
+        {photoSize && <svg viewBox={`0 0 ${width} ${height}`} className={tool === 'polygon' ? 'polygon' : 'brush'}
+          onPointerDown={startDrawing} onPointerMove={continueDrawing} onPointerUp={finishDrawing} onPointerCancel={finishDrawing}>
+          <defs>{displayedMasks.map((mask) => <mask key={mask.slot} id={`${idPrefix}-${mask.slot}`} maskUnits="userSpaceOnUse" x="0" y="0" width={width} height={height}>
+            {mask.shapes.map(renderShape)}
+          </mask>)}</defs>
+          {displayedMasks.map((mask) => <rect key={mask.slot} width={width} height={height} fill={colorOf(mask.slot)} opacity={mask.slot === activeSlot ? 0.5 : 0.3} mask={`url(#${CSS.escape(`${idPrefix}-${mask.slot}`)})`} />)}
+          {polygon.length > 0 && activeSlot && <g className="mask-polygon-draft" stroke={colorOf(activeSlot)} strokeWidth={2 / (scale || 1)}>
+            <polyline points={polygon.map((point) => `${point.x * width},${point.y * height}`).join(' ')} fill="none" />
+            {polygon.map((point, index) => <circle key={index} cx={point.x * width} cy={point.y * height} r={(index === 0 ? 6 : 4) / (scale || 1)} fill="white" />)}
+          </g>}
+        </svg>}
+      </div>
+    </div>
+    <small className="mask-hint">{tool === 'polygon'
+      ? t('クリックで頂点を追加し、始点をクリックするかEnterで閉じます。Escで取り消し。', 'Click to add corners; click the first corner or press Enter to close. Esc cancels.')
+      : t('塗った範囲だけが変更されます。マスクのない面は変更されません。', 'Only painted areas change. Surfaces without a mask stay as photographed.')}</small>
+  </div>;
+}
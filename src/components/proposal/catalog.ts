@@ -4,6 +4,14 @@ export type CatalogSection = 'finish' | 'fixture' | 'accessory';
 export type SelectionSlot = 'floor' | 'walls' | 'ceiling' | 'counter' | 'cabinet' | 'backsplash' | 'faucet' | 'sink' | 'hardware' | 'lighting';
 export type SpecificationStatus = 'standard' | 'standardPlus' | 'option' | 'reference';
 
+export interface CatalogReferenceImage {
+  /** Path under `public/`, e.g. `/catalog/references/floor-wide-natural.jpg`. */
+  src: string;
+  role: 'product' | 'texture' | 'installed';
+  labelJa: string;
+  labelEn: string;
+}
+
 export interface CatalogItem {
   id: string;
   slot?: SelectionSlot;
@@ -27,6 +35,9 @@ export interface CatalogItem {
   sourceEn: string;
   sourceUrl?: string;
   exactProductConfirmed: boolean;
+  referenceImages?: CatalogReferenceImage[];
+  /** Finishes applied to a single wall take the accent wall's area instead of the room's net wall area. */
+  coverage?: 'one-wall';
 }
 
 const POC_UNIT_PRICES: Record<string, number> = {
@@ -97,6 +108,18 @@ const referenceFurniture = (item: Omit<CatalogItem, 'section' | 'manufacturerJa'
   exactProductConfirmed: false,
 });
 
+// Reference photos keyed by catalog id, served from public/catalog/references/.
+// The POC ships drawn texture samples; replace them with licensed manufacturer
+// photography once a maker and SKU are confirmed.
+const REFERENCE_IMAGES: Partial<Record<string, CatalogReferenceImage[]>> = {
+  'floor-wide-natural': [
+    { src: '/catalog/references/floor-wide-natural-texture.svg', role: 'texture', labelJa: '木目サンプル（POC）', labelEn: 'Wood grain sample (POC)' },
+  ],
+  'wall-accent-greige': [
+    { src: '/catalog/references/wall-accent-greige-texture.svg', role: 'texture', labelJa: '織物調クロスサンプル（POC）', labelEn: 'Woven vinyl sample (POC)' },
+  ],
+};
+
 export const CATALOG: CatalogItem[] = [
   publicItem({ id: 'floor-wide-natural', slot: 'floor', section: 'finish', nameJa: '巾広フローリング', nameEn: 'Wide-plank flooring', specificationJa: '公開 Standard＋仕様を基にした提案。メーカー・品番は要確認', specificationEn: 'Proposal based on a published Standard+ specification; maker and SKU require confirmation', size: '巾広タイプ / wide plank', colorJa: 'ナチュラル木目（提案色）', colorEn: 'Natural wood (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#bc8d5c', status: 'standardPlus' }),
   publicItem({ id: 'floor-wide-light', slot: 'floor', section: 'finish', nameJa: '巾広フローリング', nameEn: 'Wide-plank flooring', specificationJa: '公開 Standard＋仕様を基にした提案。メーカー・品番は要確認', specificationEn: 'Proposal based on a published Standard+ specification; maker and SKU require confirmation', size: '巾広タイプ / wide plank', colorJa: 'ライトオーク（提案色）', colorEn: 'Light oak (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#d3bd94', status: 'standardPlus' }),
@@ -117,12 +140,12 @@ export const CATALOG: CatalogItem[] = [
   publicItem({ id: 'floor-tile-sage', slot: 'floor', section: 'finish', nameJa: 'カラー磁器質タイル', nameEn: 'Colored porcelain tile', specificationJa: '落ち着いた色調のマット磁器質タイル。滑り抵抗・品番は選定時に確認', specificationEn: 'Muted-color matte porcelain tile; confirm slip rating and SKU at selection', size: '300角 / 300 mm module', colorJa: 'セージグリーン（提案色）', colorEn: 'Sage green (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#9aa795', status: 'option' }),
 
   publicItem({ id: 'wall-vinyl-white', slot: 'walls', section: 'finish', nameJa: 'ビニールクロス', nameEn: 'Vinyl wallpaper', specificationJa: 'LD・洋室の公開標準仕様。メーカー・品番・防火性能は選定時に確認', specificationEn: 'Public standard for living and Western-style rooms; confirm maker, SKU, and fire rating', size: '現場採寸 / site measure', colorJa: 'ホワイト（提案色）', colorEn: 'White (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#f0eee8', status: 'standard' }),
-  publicItem({ id: 'wall-accent-greige', slot: 'walls', section: 'finish', nameJa: 'アクセントクロス', nameEn: 'Accent wallpaper', specificationJa: '公開 Standard＋仕様の1面アクセントクロス。品番は要確認', specificationEn: 'One-wall accent wallpaper from the public Standard+ specification; SKU requires confirmation', size: '1面 / one wall', colorJa: 'グレージュ（提案色）', colorEn: 'Greige (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#c9c0b2', status: 'standardPlus' }),
-  publicItem({ id: 'wall-accent-blue', slot: 'walls', section: 'finish', nameJa: 'アクセントクロス', nameEn: 'Accent wallpaper', specificationJa: '公開 Standard＋仕様の1面アクセントクロス。品番は要確認', specificationEn: 'One-wall accent wallpaper from the public Standard+ specification; SKU requires confirmation', size: '1面 / one wall', colorJa: 'スモークブルー（提案色）', colorEn: 'Smoke blue (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#81999e', status: 'standardPlus' }),
+  publicItem({ id: 'wall-accent-greige', slot: 'walls', section: 'finish', coverage: 'one-wall', nameJa: 'アクセントクロス', nameEn: 'Accent wallpaper', specificationJa: '公開 Standard＋仕様の1面アクセントクロス。品番は要確認', specificationEn: 'One-wall accent wallpaper from the public Standard+ specification; SKU requires confirmation', size: '1面 / one wall', colorJa: 'グレージュ（提案色）', colorEn: 'Greige (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#c9c0b2', status: 'standardPlus' }),
+  publicItem({ id: 'wall-accent-blue', slot: 'walls', section: 'finish', coverage: 'one-wall', nameJa: 'アクセントクロス', nameEn: 'Accent wallpaper', specificationJa: '公開 Standard＋仕様の1面アクセントクロス。品番は要確認', specificationEn: 'One-wall accent wallpaper from the public Standard+ specification; SKU requires confirmation', size: '1面 / one wall', colorJa: 'スモークブルー（提案色）', colorEn: 'Smoke blue (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#81999e', status: 'standardPlus' }),
   publicItem({ id: 'wall-vinyl-warm-white', slot: 'walls', section: 'finish', nameJa: 'ビニールクロス', nameEn: 'Vinyl wallpaper', specificationJa: 'LD・洋室の公開標準仕様。メーカー・品番・防火性能は選定時に確認', specificationEn: 'Public standard for living and Western-style rooms; confirm maker, SKU, and fire rating', size: '現場採寸 / site measure', colorJa: 'ウォームホワイト（提案色）', colorEn: 'Warm white (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#f5f1e9', status: 'standard' }),
-  publicItem({ id: 'wall-accent-charcoal', slot: 'walls', section: 'finish', nameJa: 'アクセントクロス', nameEn: 'Accent wallpaper', specificationJa: '公開 Standard＋仕様の1面アクセントクロス。品番は要確認', specificationEn: 'One-wall accent wallpaper from the public Standard+ specification; SKU requires confirmation', size: '1面 / one wall', colorJa: 'チャコール（提案色）', colorEn: 'Charcoal (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#4a4b49', status: 'standardPlus' }),
-  publicItem({ id: 'wall-accent-sage', slot: 'walls', section: 'finish', nameJa: 'アクセントクロス', nameEn: 'Accent wallpaper', specificationJa: '公開 Standard＋仕様の1面アクセントクロス。品番は要確認', specificationEn: 'One-wall accent wallpaper from the public Standard+ specification; SKU requires confirmation', size: '1面 / one wall', colorJa: 'セージグリーン（提案色）', colorEn: 'Sage green (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#9aa78f', status: 'standardPlus' }),
-  publicItem({ id: 'wall-wood-panel', slot: 'walls', section: 'finish', nameJa: '木質パネル', nameEn: 'Wood wall panel', specificationJa: '公開 Standard＋仕様の1面アクセントクロス。品番は要確認', specificationEn: 'One-wall accent wallpaper from the public Standard+ specification; SKU requires confirmation', size: '1面 / one wall', colorJa: 'オーク木目（提案色）', colorEn: 'Oak woodgrain (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#b98a55', status: 'option' }),
+  publicItem({ id: 'wall-accent-charcoal', slot: 'walls', section: 'finish', coverage: 'one-wall', nameJa: 'アクセントクロス', nameEn: 'Accent wallpaper', specificationJa: '公開 Standard＋仕様の1面アクセントクロス。品番は要確認', specificationEn: 'One-wall accent wallpaper from the public Standard+ specification; SKU requires confirmation', size: '1面 / one wall', colorJa: 'チャコール（提案色）', colorEn: 'Charcoal (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#4a4b49', status: 'standardPlus' }),
+  publicItem({ id: 'wall-accent-sage', slot: 'walls', section: 'finish', coverage: 'one-wall', nameJa: 'アクセントクロス', nameEn: 'Accent wallpaper', specificationJa: '公開 Standard＋仕様の1面アクセントクロス。品番は要確認', specificationEn: 'One-wall accent wallpaper from the public Standard+ specification; SKU requires confirmation', size: '1面 / one wall', colorJa: 'セージグリーン（提案色）', colorEn: 'Sage green (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#9aa78f', status: 'standardPlus' }),
+  publicItem({ id: 'wall-wood-panel', slot: 'walls', section: 'finish', coverage: 'one-wall', nameJa: '木質パネル', nameEn: 'Wood wall panel', specificationJa: '公開 Standard＋仕様の1面アクセントクロス。品番は要確認', specificationEn: 'One-wall accent wallpaper from the public Standard+ specification; SKU requires confirmation', size: '1面 / one wall', colorJa: 'オーク木目（提案色）', colorEn: 'Oak woodgrain (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#b98a55', status: 'option' }),
 
   publicItem({ id: 'ceiling-vinyl-white', slot: 'ceiling', section: 'finish', nameJa: '天井ビニールクロス', nameEn: 'Ceiling vinyl wallpaper', specificationJa: 'LD・洋室の公開標準仕様。メーカー・品番は要確認', specificationEn: 'Public standard for living and Western-style rooms; maker and SKU require confirmation', size: '現場採寸 / site measure', colorJa: 'ホワイト（提案色）', colorEn: 'White (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#faf9f5', status: 'standard' }),
   publicItem({ id: 'ceiling-vinyl-warm-white', slot: 'ceiling', section: 'finish', nameJa: '天井ビニールクロス', nameEn: 'Ceiling vinyl wallpaper', specificationJa: 'LD・洋室の公開標準仕様。メーカー・品番は要確認', specificationEn: 'Public standard for living and Western-style rooms; maker and SKU require confirmation', size: '現場採寸 / site measure', colorJa: 'ウォームホワイト（提案色）', colorEn: 'Warm white (proposed)', manufacturerJa: '要確認', manufacturerEn: 'To be confirmed', unitJa: 'm²', unitEn: 'm²', swatch: '#f6f2ea', status: 'standard' }),
@@ -175,7 +198,7 @@ export const CATALOG: CatalogItem[] = [
   referenceFurniture({ id: 'accessory-floor-lamp', nameJa: 'フロアランプ', nameEn: 'Floor lamp', specificationJa: '空間確認用の参考家具。取扱・メーカー・品番は未確認', specificationEn: 'Reference staging item; supply, maker, and SKU are not confirmed', size: 'H 1600 mm（参考）', colorJa: 'ブラック＋リネンシェード（提案色）', colorEn: 'Black with linen shade (proposed)', unitJa: '台', unitEn: 'ea', swatch: '#6f6b64' }),
   referenceFurniture({ id: 'accessory-artwork', nameJa: 'アートパネル', nameEn: 'Art panel', specificationJa: '空間確認用の参考家具。取扱・メーカー・品番は未確認', specificationEn: 'Reference staging item; supply, maker, and SKU are not confirmed', size: 'W 900 × H 600（参考）', colorJa: 'モノトーン（提案）', colorEn: 'Monotone (proposed)', unitJa: '点', unitEn: 'ea', swatch: '#cfcbc4' }),
   referenceFurniture({ id: 'accessory-bedside', nameJa: 'ナイトテーブル', nameEn: 'Bedside table', specificationJa: '空間確認用の参考家具。取扱・メーカー・品番は未確認', specificationEn: 'Reference staging item; supply, maker, and SKU are not confirmed', size: 'W 450 × D 400（参考）', colorJa: 'ナチュラル木目（提案色）', colorEn: 'Natural wood (proposed)', unitJa: '台', unitEn: 'ea', swatch: '#c2a077' }),
-];
+].map((item) => (REFERENCE_IMAGES[item.id]?.length ? { ...item, referenceImages: REFERENCE_IMAGES[item.id] } : item));
 
 export const DEFAULT_SELECTIONS: Record<SelectionSlot, string> = {
   floor: 'floor-wide-natural', walls: 'wall-vinyl-white', ceiling: 'ceiling-vinyl-white', counter: 'counter-solid-white', cabinet: 'cabinet-system-oak', backsplash: 'backsplash-panel-white', faucet: 'faucet-kitchen-mixer', sink: 'sink-system-kitchen', hardware: 'hardware-integrated-silver', lighting: 'lighting-rail-white',
@@ -1,6 +1,6 @@
 import type { Language } from '../i18n';
 
-type AiStep = 'floorplan' | 'preview' | 'estimate';
+type AiStep = 'floorplan' | 'preview' | 'estimate' | 'audit';
 
 const copy = (language: Language, ja: string, en: string) => language === 'ja' ? ja : en;
 
@@ -18,6 +18,9 @@ export const demoAiErrorMessage = (error: unknown, language: Language, step: AiS
   if (step === 'floorplan') {
     return copy(language, '平面図の解析を完了できませんでした。部屋タブからデモを続けるか、必要なときに一度だけ再実行してください。', 'Floorplan analysis did not complete. Continue from the room tabs, or run it once more when needed.');
   }
+  if (step === 'audit') {
+    return copy(language, 'AI監査を完了できませんでした。プレビューは保持されています。目視で確認してから承認してください。', 'The AI audit did not complete. The preview is kept; check it visually before approving.');
+  }
   if (step === 'estimate') {
     return copy(language, '面積候補を作成できませんでした。既定数量を使ってデモを続けられます。', 'The area suggestion was unavailable. You can continue the demo with the default quantities.');
   }
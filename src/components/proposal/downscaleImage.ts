@@ -3,10 +3,15 @@ interface ImagePreparationOptions {
   jpegQuality?: number;
   preservePng?: boolean;
   maxLength?: number;
+  /** Source-pixel rectangle to encode instead of the whole image. */
+  crop?: ImageCrop;
 }
 
+export interface ImageCrop { x: number; y: number; width: number; height: number }
+
 export const MAX_SINGLE_IMAGE_LENGTH = 3_200_000;
 export const MAX_PAIRED_IMAGE_LENGTH = 1_400_000;
+export const MAX_MULTI_PHOTO_IMAGE_LENGTH = 680_000;
 
 const loadImage = (source: string | File): Promise<{ image: HTMLImageElement; release: () => void }> =>
   new Promise((resolve, reject) => {
@@ -21,14 +26,14 @@ const loadImage = (source: string | File): Promise<{ image: HTMLImageElement; re
     image.src = objectUrl;
   });
 
-const encode = (image: HTMLImageElement, maxEdge: number, type: string, quality?: number) => {
-  const scale = Math.min(1, maxEdge / Math.max(image.width, image.height));
+const encode = (image: HTMLImageElement, maxEdge: number, type: string, quality?: number, crop: ImageCrop = { x: 0, y: 0, width: image.width, height: image.height }) => {
+  const scale = Math.min(1, maxEdge / Math.max(crop.width, crop.height));
   const canvas = document.createElement('canvas');
-  canvas.width = Math.max(1, Math.round(image.width * scale));
-  canvas.height = Math.max(1, Math.round(image.height * scale));
+  canvas.width = Math.max(1, Math.round(crop.width * scale));
+  canvas.height = Math.max(1, Math.round(crop.height * scale));
   const context = canvas.getContext('2d');
   if (!context) throw new Error('Canvas rendering is unavailable in this browser.');
-  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
   return canvas.toDataURL(type, quality);
 };
 
@@ -49,7 +54,7 @@ export const prepareImage = async (source: string | File, options: ImagePreparat
     );
     let encoded = '';
     for (const attempt of attempts) {
-      encoded = encode(image, attempt.maxEdge, attempt.type, attempt.quality);
+      encoded = encode(image, attempt.maxEdge, attempt.type, attempt.quality, options.crop);
       if (encoded.length <= maxLength) return encoded;
     }
     return encoded;
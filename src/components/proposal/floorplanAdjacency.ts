@@ -0,0 +1,97 @@
+import { nearestBoundaryPoint, polygonOverlapRatio, type FloorplanPoint, type WallGraph } from './floorplanGeometry';
+import type { FloorplanOpening } from './floorplanOpenings';
+
+interface AdjacencyRoom { id: string; polygon: FloorplanPoint[] }
+
+export interface RoomConnection {
+  roomIds: [string, string];
+  /** door when any door or sliding door joins the rooms, passage for an open connection, wall when they only touch. */
+  via: 'door' | 'passage' | 'wall';
+  openingIds: string[];
+  sharedWallIds: string[];
+}
+
+export type AdjacencyWarning =
+  | { kind: 'no-door'; roomId: string }
+  | { kind: 'unreachable'; roomId: string }
+  | { kind: 'overlap'; roomIds: [string, string]; overlapPercent: number };
+
+export interface AdjacencyGraph {
+  connections: RoomConnection[];
+  /** Rooms with an exterior door or passage. */
+  entranceRoomIds: string[];
+  warnings: AdjacencyWarning[];
+}
+
+const EDGE_SAMPLES = [0.25, 0.5, 0.75];
+const OVERLAP_WARNING_RATIO = 0.1;
+
+const isWalkable = (opening: FloorplanOpening) => opening.type !== 'window';
+
+/** True when at least two points sampled along one room's edges lie within `tolerance` of the other's boundary. */
+const roomsTouch = (first: AdjacencyRoom, second: AdjacencyRoom, tolerance: number) => first.polygon.flatMap((start, index) => {
+  const end = first.polygon[(index + 1) % first.polygon.length];
+  return EDGE_SAMPLES.map((ratio) => ({ x: start.x + (end.x - start.x) * ratio, y: start.y + (end.y - start.y) * ratio }));
+}).filter((point) => nearestBoundaryPoint(point, second.polygon).distance <= tolerance).length >= 2;
+
+/**
+ * Which rooms touch and through which openings. Rooms are joined by any
+ * opening listing both, by a shared wall from the wall graph, or by boundaries
+ * running within `tolerance` plan units of each other. Rooms are reachable
+ * when a chain of doors and passages leads to an entrance room.
+ */
+export const buildAdjacencyGraph = (rooms: AdjacencyRoom[], openings: FloorplanOpening[], sharedWalls: WallGraph['sharedWalls'] = [], tolerance = 2): AdjacencyGraph => {
+  const usable = rooms.filter((room) => room.polygon.length >= 3);
+  const pairKey = (first: string, second: string) => [first, second].sort().join('\n');
+  const connections = new Map<string, RoomConnection>();
+  const connect = (first: string, second: string) => {
+    const key = pairKey(first, second);
+    if (!connections.has(key)) connections.set(key, { roomIds: [first, second], via: 'wall', openingIds: [], sharedWallIds: [] });
+    return connections.get(key)!;
+  };
+  const roomIds = new Set(usable.map((room) => room.id));
+
+  openings.forEach((opening) => {
+    const [first, second] = opening.roomIds;
+    if (!second || first === second || !roomIds.has(first) || !roomIds.has(second)) return;
+    const connection = connect(first, second);
+    connection.openingIds.push(opening.id);
+    if (opening.type === 'door' || opening.type === 'sliding-door') connection.via = 'door';
+    else if (opening.type === 'passage' && connection.via === 'wall') connection.via = 'passage';
+  });
+  sharedWalls.forEach((shared) => {
+    if (roomIds.has(shared.roomIds[0]) && roomIds.has(shared.roomIds[1])) connect(...shared.roomIds).sharedWallIds.push(shared.wallId);
+  });
+  usable.forEach((first, index) => usable.slice(index + 1).forEach((second) => {
+    if (!connections.has(pairKey(first.id, second.id)) && (roomsTouch(first, second, tolerance) || roomsTouch(second, first, tolerance))) connect(first.id, second.id);
+  }));
+
+  const entranceRoomIds = [...new Set(openings.filter((opening) => opening.roomIds.length === 1 && isWalkable(opening)).map((opening) => opening.roomIds[0]))].filter((id) => roomIds.has(id));
+  const walkableRoomIds = new Set(openings.filter(isWalkable).flatMap((opening) => opening.roomIds));
+  const warnings: AdjacencyWarning[] = usable.filter((room) => !walkableRoomIds.has(room.id)).map((room) => ({ kind: 'no-door', roomId: room.id }));
+
+  // Reachability only makes sense once the plan shows at least one way in.
+  if (entranceRoomIds.length) {
+    const reached = new Set(entranceRoomIds);
+    const queue = [...entranceRoomIds];
+    while (queue.length) {
+      const current = queue.shift()!;
+      connections.forEach((connection) => {
+        if (connection.via === 'wall' || !connection.roomIds.includes(current)) return;
+        const other = connection.roomIds[0] === current ? connection.roomIds[1] : connection.roomIds[0];
+        if (!reached.has(other)) {
+          reached.add(other);
+          queue.push(other);
+        }
+      });
+    }
+    usable.filter((room) => !reached.has(room.id) && walkableRoomIds.has(room.id)).forEach((room) => warnings.push({ kind: 'unreachable', roomId: room.id }));
+  }
+
+  usable.forEach((first, index) => usable.slice(index + 1).forEach((second) => {
+    const ratio = polygonOverlapRatio(first.polygon, second.polygon);
+    if (ratio > OVERLAP_WARNING_RATIO) warnings.push({ kind: 'overlap', roomIds: [first.id, second.id], overlapPercent: Math.round(Math.min(1, ratio) * 100) });
+  }));
+
+  return { connections: [...connections.values()], entranceRoomIds, warnings };
+};
@@ -0,0 +1,157 @@
+import type { FloorplanPoint } from './floorplanGeometry';
+
+export type FloorPatternKind = 'plank' | 'herringbone' | 'carpet' | 'tile';
+
+export interface ColorPlanRoom {
+  /** Outline in normalized 0–100 plan coordinates. */
+  polygon: FloorplanPoint[];
+  floorSwatch?: string;
+  pattern: FloorPatternKind;
+  moduleWidthM: number;
+  moduleLengthM: number;
+  wallSwatch?: string;
+  accentWall: boolean;
+}
+
+export const COLOR_PLAN_SIZES = [
+  { id: 'source', longEdgeMm: 0, labelJa: '元画像と同じ', labelEn: 'Same as source' },
+  { id: 'a3', longEdgeMm: 420, labelJa: 'A3 · 300 DPI', labelEn: 'A3 · 300 DPI' },
+  { id: 'a2', longEdgeMm: 594, labelJa: 'A2 · 300 DPI', labelEn: 'A2 · 300 DPI' },
+  { id: 'a1', longEdgeMm: 841, labelJa: 'A1 · 300 DPI', labelEn: 'A1 · 300 DPI' },
+] as const;
+
+export type ColorPlanSize = (typeof COLOR_PLAN_SIZES)[number]['id'];
+
+const PRINT_DPI = 300;
+export const MAX_COLOR_PLAN_EDGE = 10_000;
+const FLOOR_OPACITY = 0.68;
+const PATTERN_LINE = 'rgba(42,35,28,.34)';
+const WALL_BAND_M = 0.06;
+const ACCENT_WALL_BAND_M = 0.12;
+
+export const floorPatternKind = (materialId: string): FloorPatternKind =>
+  materialId.includes('tile') ? 'tile' : materialId.includes('carpet') ? 'carpet' : materialId.includes('herringbone') ? 'herringbone' : 'plank';
+
+/** Output pixels per source pixel for a print size; the source size keeps the plan at 1:1. */
+export const colorPlanScale = (imageSize: { width: number; height: number }, size: ColorPlanSize) => {
+  const longEdgeMm = COLOR_PLAN_SIZES.find((option) => option.id === size)?.longEdgeMm || 0;
+  return longEdgeMm ? longEdgeMm / 25.4 * PRINT_DPI / Math.max(imageSize.width, imageSize.height) : 1;
+};
+
+const loadImage = (source: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('The floorplan image could not be decoded.'));
+  image.src = source;
+});
+
+/** Draws the pattern's joint lines in a frame centred on the room and rotated to it, covering a square of half-size `reach`. */
+const drawPatternLines = (context: CanvasRenderingContext2D, pattern: FloorPatternKind, width: number, length: number, reach: number) => {
+  context.beginPath();
+  if (pattern === 'tile' || pattern === 'carpet') {
+    // Tiles are centred on the room, so lines fall half a module off the centre.
+    for (let offset = -Math.ceil(reach / width) * width - width / 2; offset <= reach; offset += width) {
+      context.moveTo(offset, -reach);
+      context.lineTo(offset, reach);
+      context.moveTo(-reach, offset);
+      context.lineTo(reach, offset);
+    }
+  } else if (pattern === 'herringbone') {
+    const rows = Math.ceil(reach / length);
+    const columns = Math.ceil(reach / (length * 2));
+    for (let row = -rows; row <= rows; row += 1) {
+      for (let column = -columns; column <= columns; column += 1) {
+        const x = column * length * 2;
+        const y = row * length;
+        [[0, length, length, 0], [length * 0.5, length, length * 1.5, 0], [length, length, length * 2, 0], [0, 0, length, length], [length, 0, length * 2, length]].forEach(([x1, y1, x2, y2]) => {
+          context.moveTo(x + x1, y + y1);
+          context.lineTo(x + x2, y + y2);
+        });
+      }
+    }
+  } else {
+    const rows = Math.ceil(reach / width);
+    for (let row = -rows; row <= rows; row += 1) {
+      const y = row * width;
+      context.moveTo(-reach, y);
+      context.lineTo(reach, y);
+      // Alternate rows stagger their end joints by half a plank.
+      const stagger = Math.abs(row % 2) * length / 2;
+      for (let x = -Math.ceil(reach / length) * length + stagger; x <= reach; x += length) {
+        context.moveTo(x, y);
+        context.lineTo(x, y + width);
+      }
+    }
+  }
+  context.stroke();
+};
+
+/**
+ * Composites the source plan with every room's floor finish and wall tone,
+ * without any model call. Each room is clipped to its outline; its texture
+ * uses the real module size at `pixelsPerMeter`, rotated to the room's
+ * longest edge measured in pixels. Fills and strokes are multiplied over
+ * the plan so its linework, labels, and fixtures stay visible.
+ */
+export const renderColorPlan = async (sourceUrl: string, imageSize: { width: number; height: number }, rooms: ColorPlanRoom[], pixelsPerMeter: number, textureScale: number, outputScale: number) => {
+  const width = Math.round(imageSize.width * outputScale);
+  const height = Math.round(imageSize.height * outputScale);
+  if (Math.max(width, height) > MAX_COLOR_PLAN_EDGE) throw new Error('The colour plan is too large at this print size. Choose a smaller size.');
+  const image = await loadImage(sourceUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas rendering is unavailable in this browser.');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, width, height);
+
+  const outputPixelsPerMeter = pixelsPerMeter * outputScale;
+  const lineWidth = Math.max(1, Math.max(width, height) * 0.0007);
+  rooms.filter((room) => room.polygon.length >= 3).forEach((room) => {
+    const points = room.polygon.map((point) => ({ x: point.x / 100 * width, y: point.y / 100 * height }));
+    const outline = new Path2D();
+    points.forEach((point, index) => index ? outline.lineTo(point.x, point.y) : outline.moveTo(point.x, point.y));
+    outline.closePath();
+    const longest = points.map((point, index) => {
+      const next = points[(index + 1) % points.length];
+      return { dx: next.x - point.x, dy: next.y - point.y };
+    }).sort((a, b) => Math.hypot(b.dx, b.dy) - Math.hypot(a.dx, a.dy))[0];
+    const center = { x: points.reduce((sum, point) => sum + point.x, 0) / points.length, y: points.reduce((sum, point) => sum + point.y, 0) / points.length };
+    const reach = Math.max(...points.map((point) => Math.hypot(point.x - center.x, point.y - center.y))) + outputPixelsPerMeter;
+
+    context.save();
+    context.clip(outline);
+    context.globalCompositeOperation = 'multiply';
+    if (room.floorSwatch) {
+      context.globalAlpha = FLOOR_OPACITY;
+      context.fillStyle = room.floorSwatch;
+      context.fill(outline);
+      context.globalAlpha = 1;
+      context.save();
+      context.translate(center.x, center.y);
+      context.rotate(Math.atan2(longest.dy, longest.dx));
+      context.strokeStyle = PATTERN_LINE;
+      context.lineWidth = lineWidth;
+      drawPatternLines(context, room.pattern, Math.max(2, room.moduleWidthM * textureScale * outputPixelsPerMeter), Math.max(2, room.moduleLengthM * textureScale * outputPixelsPerMeter), reach);
+      context.restore();
+    }
+    if (room.wallSwatch) {
+      // Only the inner half of the stroke survives the clip, so the band reads as the wall's inside face.
+      context.strokeStyle = room.wallSwatch;
+      context.lineWidth = (room.accentWall ? ACCENT_WALL_BAND_M : WALL_BAND_M) * 2 * outputPixelsPerMeter;
+      context.lineJoin = 'miter';
+      context.stroke(outline);
+    }
+    context.restore();
+  });
+  return canvas;
+};
+
+export const canvasToBlob = async (canvas: HTMLCanvasElement, type: 'image/png' | 'image/jpeg', quality = 0.92) => {
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+  if (!blob) throw new Error('The colour plan could not be encoded.');
+  return blob;
+};
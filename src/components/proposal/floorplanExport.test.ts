@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { exportRoomCenter, finishLayerName, floorplanDxf, type ExportRoom } from './floorplanExport';
+import { pointInPolygon } from './floorplanGeometry';
+import { parseDxf } from './floorplanVector';
+
+const planHeightM = 8;
+const lShape = [{ x: 0, y: 0 }, { x: 6, y: 0 }, { x: 6, y: 2 }, { x: 2, y: 2 }, { x: 2, y: 6 }, { x: 0, y: 6 }];
+const rooms: ExportRoom[] = [
+  { name: 'リビング', areaM2: 20, polygon: lShape, layer: finishLayerName('floor-wide-natural') },
+  { name: 'Bedroom', areaM2: 12, polygon: [{ x: 6, y: 2 }, { x: 10, y: 2 }, { x: 10, y: 5 }, { x: 6, y: 5 }], layer: finishLayerName() },
+];
+
+describe('exportRoomCenter', () => {
+  it('uses the vertex average of a convex room', () => {
+    expect(exportRoomCenter(rooms[1].polygon)).toEqual({ x: 8, y: 3.5 });
+  });
+
+  it('keeps the anchor of an L-shaped room inside it', () => {
+    expect(pointInPolygon(exportRoomCenter(lShape), lShape)).toBe(true);
+  });
+});
+
+describe('floorplanDxf', () => {
+  it('names layers after the floor finish', () => {
+    expect(rooms.map((room) => room.layer)).toEqual(['FINISH-FLOOR-WIDE-NATURAL', 'FINISH-UNASSIGNED']);
+  });
+
+  it('reads back through parseDxf as closed outlines on their layers, in metres', () => {
+    const drawing = parseDxf(floorplanDxf(rooms, planHeightM));
+    expect(drawing.metersPerUnit).toBe(1);
+    // floorplanDxf measures y up from the plan's bottom edge and parseDxf negates it, so points return shifted by the plan height.
+    expect(drawing.polygons).toEqual(rooms.map((room) => ({ layer: room.layer, points: room.polygon.map((point) => ({ x: point.x, y: point.y - planHeightM })) })));
+  });
+
+  it('writes room names as escaped text that decodes back to Japanese', () => {
+    const source = floorplanDxf(rooms, planHeightM);
+    expect(source).toContain('\\U+30EA\\U+30D3\\U+30F3\\U+30B0');
+    const texts = parseDxf(source).texts.map((text) => text.text);
+    expect(texts).toEqual(['リビング', '20.0 m2', 'Bedroom', '12.0 m2']);
+  });
+
+  it('places each label inside its room', () => {
+    const drawing = parseDxf(floorplanDxf(rooms, planHeightM));
+    const [name] = drawing.texts;
+    expect(pointInPolygon(name.at, drawing.polygons[0].points)).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+import { pointInPolygon, polygonBounds, type FloorplanPoint } from './floorplanGeometry';
+
+export interface ExportRoom {
+  name: string;
+  areaM2: number;
+  /** Outline in metres from the top-left of the plan, y pointing down. */
+  polygon: FloorplanPoint[];
+  layer: string;
+}
+
+/** AutoCAD colour index per finish layer, cycled in layer order. */
+const LAYER_COLORS = [1, 3, 5, 30, 6, 4, 2, 140, 200, 40];
+const TEXT_HEIGHT_M = 0.2;
+
+export const finishLayerName = (materialId?: string) =>
+  `FINISH-${(materialId || 'unassigned').toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 24)}`;
+
+const LABEL_SCANLINES = 9;
+
+/**
+ * Where a room's name and area are written: the vertex average when it lies
+ * inside the outline, otherwise the middle of the widest inside span along a
+ * few horizontal lines, since the average of an L or U shape can fall outside.
+ */
+export const exportRoomCenter = (polygon: FloorplanPoint[]) => {
+  const average = {
+    x: polygon.reduce((sum, point) => sum + point.x, 0) / polygon.length,
+    y: polygon.reduce((sum, point) => sum + point.y, 0) / polygon.length,
+  };
+  if (pointInPolygon(average, polygon)) return average;
+  const { minY, maxY } = polygonBounds(polygon);
+  let best: { width: number; point: FloorplanPoint } | undefined;
+  for (let line = 1; line <= LABEL_SCANLINES; line += 1) {
+    const y = minY + (maxY - minY) * line / (LABEL_SCANLINES + 1);
+    const crossings = polygon.flatMap((start, index) => {
+      const end = polygon[(index + 1) % polygon.length];
+      return (start.y > y) !== (end.y > y) ? [start.x + (y - start.y) * (end.x - start.x) / (end.y - start.y)] : [];
+    }).sort((a, b) => a - b);
+    for (let index = 0; index + 1 < crossings.length; index += 2) {
+      const width = crossings[index + 1] - crossings[index];
+      if (!best || width > best.width) best = { width, point: { x: (crossings[index] + crossings[index + 1]) / 2, y } };
+    }
+  }
+  return best?.point ?? average;
+};
+
+const group = (code: number, value: string | number) => `${code}\n${value}\n`;
+const coordinate = (value: number) => String(Math.round(value * 10000) / 10000);
+/** R12 DXF text is not Unicode; characters outside ASCII are written as \U+XXXX escapes, which CAD readers decode. */
+const dxfText = (value: string) => [...value].map((character) => character.charCodeAt(0) < 128 ? character : `\\U+${character.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`).join('');
+
+/**
+ * An R12 DXF in metres with one layer per floor finish. Every room is a
+ * closed POLYLINE on its finish layer with its name and area as centred TEXT
+ * on the same layer. The plan's y axis points down and DXF's points up, so y
+ * is measured from the bottom edge of the plan.
+ */
+export const floorplanDxf = (rooms: ExportRoom[], planHeightM: number) => {
+  const layers = [...new Set(rooms.map((room) => room.layer))];
+  const flip = (point: FloorplanPoint) => ({ x: point.x, y: planHeightM - point.y });
+  const text = (layer: string, value: string, at: FloorplanPoint) => group(0, 'TEXT') + group(8, layer)
+    + group(10, coordinate(at.x)) + group(20, coordinate(at.y)) + group(30, 0) + group(40, TEXT_HEIGHT_M) + group(1, dxfText(value))
+    + group(72, 1) + group(11, coordinate(at.x)) + group(21, coordinate(at.y)) + group(31, 0);
+
+  const header = group(0, 'SECTION') + group(2, 'HEADER')
+    + group(9, '$ACADVER') + group(1, 'AC1009')
+    + group(9, '$INSUNITS') + group(70, 6)
+    + group(9, '$MEASUREMENT') + group(70, 1)
+    + group(0, 'ENDSEC');
+  const tables = group(0, 'SECTION') + group(2, 'TABLES') + group(0, 'TABLE') + group(2, 'LAYER') + group(70, layers.length)
+    + layers.map((layer, index) => group(0, 'LAYER') + group(2, layer) + group(70, 0) + group(62, LAYER_COLORS[index % LAYER_COLORS.length]) + group(6, 'CONTINUOUS')).join('')
+    + group(0, 'ENDTAB') + group(0, 'ENDSEC');
+  const entities = rooms.filter((room) => room.polygon.length >= 3).map((room) => {
+    const center = flip(exportRoomCenter(room.polygon));
+    return group(0, 'POLYLINE') + group(8, room.layer) + group(66, 1) + group(10, 0) + group(20, 0) + group(30, 0) + group(70, 1)
+      + room.polygon.map(flip).map((point) => group(0, 'VERTEX') + group(8, room.layer) + group(10, coordinate(point.x)) + group(20, coordinate(point.y)) + group(30, 0)).join('')
+      + group(0, 'SEQEND') + group(8, room.layer)
+      + text(room.layer, room.name, { x: center.x, y: center.y + TEXT_HEIGHT_M * 0.75 })
+      + text(room.layer, `${room.areaM2.toFixed(1)} m2`, { x: center.x, y: center.y - TEXT_HEIGHT_M * 0.75 });
+  }).join('');
+
+  return header + tables + group(0, 'SECTION') + group(2, 'ENTITIES') + entities + group(0, 'ENDSEC') + group(0, 'EOF');
+};
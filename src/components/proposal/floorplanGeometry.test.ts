@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { hasSelfIntersection, polygonArea, polygonsOverlap, splitPolygon, unionPolygons, type FloorplanPoint } from './floorplanGeometry';
+
+const rect = (x: number, y: number, width: number, height: number): FloorplanPoint[] => [
+  { x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height },
+];
+
+describe('polygonArea', () => {
+  it('measures either winding as a positive area', () => {
+    expect(polygonArea(rect(0, 0, 10, 5))).toBe(50);
+    expect(polygonArea([...rect(0, 0, 10, 5)].reverse())).toBe(50);
+  });
+});
+
+describe('splitPolygon', () => {
+  it('cuts a room into two parts that add up to the whole', () => {
+    const [left, right] = splitPolygon(rect(0, 0, 10, 10), { x: 4, y: -1 }, { x: 4, y: 11 });
+    expect(polygonArea(left) + polygonArea(right)).toBeCloseTo(100);
+    expect([polygonArea(left), polygonArea(right)].sort((a, b) => a - b)).toEqual([40, 60]);
+  });
+});
+
+describe('hasSelfIntersection', () => {
+  it('flags a bow-tie outline only', () => {
+    expect(hasSelfIntersection(rect(0, 0, 10, 10))).toBe(false);
+    expect(hasSelfIntersection([{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 10, y: 0 }, { x: 0, y: 10 }])).toBe(true);
+  });
+});
+
+describe('unionPolygons', () => {
+  it('joins rooms sharing a full wall', () => {
+    const merged = unionPolygons(rect(0, 0, 10, 10), rect(10, 0, 10, 10), 0.5);
+    expect(merged).toHaveLength(4);
+    expect(polygonArea(merged!)).toBeCloseTo(200);
+  });
+
+  it('joins rooms sharing part of a wall into an L-shape', () => {
+    const merged = unionPolygons(rect(0, 0, 10, 10), rect(10, 5, 10, 10), 0.5);
+    expect(merged).toHaveLength(8);
+    expect(polygonArea(merged!)).toBeCloseTo(200);
+  });
+
+  it('closes a wall gap within the tolerance', () => {
+    const merged = unionPolygons(rect(0, 0, 10, 10), rect(10.3, 0, 10, 10), 0.5);
+    expect(merged).toBeDefined();
+    expect(polygonArea(merged!)).toBeCloseTo(203);
+  });
+
+  it('refuses rooms that are apart or only meet at a corner', () => {
+    expect(unionPolygons(rect(0, 0, 10, 10), rect(12, 0, 10, 10), 0.5)).toBeUndefined();
+    expect(unionPolygons(rect(0, 0, 10, 10), rect(10, 10, 10, 10), 0.5)).toBeUndefined();
+  });
+});
+
+describe('polygonsOverlap', () => {
+  it('detects identical rooms', () => {
+    expect(polygonsOverlap(rect(0, 0, 10, 10), rect(0, 0, 10, 10))).toBe(true);
+  });
+
+  it('detects rooms overlapping along collinear edges', () => {
+    expect(polygonsOverlap(rect(0, 0, 10, 10), rect(5, 0, 10, 10))).toBe(true);
+    expect(polygonsOverlap(rect(0, 0, 10, 10), rect(0, 0, 10, 5))).toBe(true);
+  });
+
+  it('detects a room inside another', () => {
+    expect(polygonsOverlap(rect(0, 0, 10, 10), rect(2, 2, 3, 3))).toBe(true);
+  });
+
+  it('detects a corner snapped past a neighbouring wall', () => {
+    const pushed = [{ x: 9, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 10 }, { x: 10, y: 10 }];
+    expect(polygonsOverlap(rect(0, 0, 10, 10), pushed)).toBe(true);
+  });
+
+  it('ignores rooms that only share an edge or a corner', () => {
+    expect(polygonsOverlap(rect(0, 0, 10, 10), rect(10, 0, 10, 10))).toBe(false);
+    expect(polygonsOverlap(rect(0, 0, 10, 10), rect(10, 2, 5, 5))).toBe(false);
+    expect(polygonsOverlap(rect(0, 0, 10, 10), rect(10, 10, 5, 5))).toBe(false);
+  });
+});
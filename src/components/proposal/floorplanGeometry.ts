@@ -2,10 +2,12 @@ export interface FloorplanPoint { x: number; y: number }
 
 const GEOMETRY_EPSILON = 0.0001;
 
-export const polygonArea = (polygon: FloorplanPoint[]) => Math.abs(polygon.reduce((sum, point, index) => {
+const signedArea = (polygon: FloorplanPoint[]) => polygon.reduce((sum, point, index) => {
   const next = polygon[(index + 1) % polygon.length];
   return sum + point.x * next.y - next.x * point.y;
-}, 0)) / 2;
+}, 0) / 2;
+
+export const polygonArea = (polygon: FloorplanPoint[]) => Math.abs(signedArea(polygon));
 
 const lineSide = (point: FloorplanPoint, start: FloorplanPoint, end: FloorplanPoint) => (end.x - start.x) * (point.y - start.y) - (end.y - start.y) * (point.x - start.x);
 
@@ -40,6 +42,18 @@ export const splitPolygon = (polygon: FloorplanPoint[], lineStart: FloorplanPoin
   clipPolygonToLine(polygon, lineStart, lineEnd, false),
 ];
 
+/** Part of the polygon inside an axis-aligned rectangle given in the same coordinates. */
+export const clipPolygonToRect = (polygon: FloorplanPoint[], rect: { x: number; y: number; width: number; height: number }) => {
+  const left = rect.x;
+  const right = rect.x + rect.width;
+  const top = rect.y;
+  const bottom = rect.y + rect.height;
+  let clipped = clipPolygonToLine(polygon, { x: left, y: 0 }, { x: left, y: 1 }, false);
+  clipped = clipPolygonToLine(clipped, { x: right, y: 0 }, { x: right, y: 1 }, true);
+  clipped = clipPolygonToLine(clipped, { x: 0, y: top }, { x: 1, y: top }, true);
+  return clipPolygonToLine(clipped, { x: 0, y: bottom }, { x: 1, y: bottom }, false);
+};
+
 export const countLineCrossings = (polygon: FloorplanPoint[], lineStart: FloorplanPoint, lineEnd: FloorplanPoint) => {
   const signs = polygon.map((point) => {
     const side = lineSide(point, lineStart, lineEnd);
@@ -64,3 +78,232 @@ export const hasSelfIntersection = (polygon: FloorplanPoint[]) => polygon.some((
     return segmentsIntersect(start, end, otherStart, polygon[(otherIndex + 1) % polygon.length]);
   });
 });
+
+export const closestPointOnSegment = (point: FloorplanPoint, start: FloorplanPoint, end: FloorplanPoint) => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const ratio = lengthSquared <= GEOMETRY_EPSILON ? 0 : Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return { x: start.x + dx * ratio, y: start.y + dy * ratio };
+};
+
+/** Longest edge as a percent-space delta, with its length measured in image pixels so a non-square plan is not skewed. */
+export const longestEdge = (polygon: FloorplanPoint[], imageSize: { width: number; height: number }) => polygon.map((point, index) => {
+  const next = polygon[(index + 1) % polygon.length];
+  return {
+    dx: next.x - point.x,
+    dy: next.y - point.y,
+    length: Math.hypot((next.x - point.x) * imageSize.width, (next.y - point.y) * imageSize.height),
+  };
+}).sort((a, b) => b.length - a.length)[0] as { dx: number; dy: number; length: number } | undefined;
+
+/** Closest point on the polygon boundary, its distance, and the edge it lies on. */
+export const nearestBoundaryPoint = (point: FloorplanPoint, polygon: FloorplanPoint[]) => polygon.map((start, index) => {
+  const end = polygon[(index + 1) % polygon.length];
+  const closest = closestPointOnSegment(point, start, end);
+  return { point: closest, distance: Math.hypot(point.x - closest.x, point.y - closest.y), edge: [start, end] as [FloorplanPoint, FloorplanPoint], edgeIndex: index };
+}).reduce((best, candidate) => candidate.distance < best.distance ? candidate : best);
+
+const pointKey = (point: FloorplanPoint) => `${Math.round(point.x / GEOMETRY_EPSILON)},${Math.round(point.y / GEOMETRY_EPSILON)}`;
+
+/** Moves each vertex within `tolerance` of the other outline onto it: onto its nearest vertex if one is close enough, otherwise onto its nearest edge. */
+const snapOnto = (polygon: FloorplanPoint[], target: FloorplanPoint[], tolerance: number) => polygon.map((point) => {
+  const vertex = target.reduce((best, candidate) => Math.hypot(candidate.x - point.x, candidate.y - point.y) < Math.hypot(best.x - point.x, best.y - point.y) ? candidate : best);
+  if (Math.hypot(vertex.x - point.x, vertex.y - point.y) <= tolerance) return vertex;
+  const nearest = nearestBoundaryPoint(point, target);
+  return nearest.distance <= tolerance ? nearest.point : point;
+});
+
+/** Adds every one of `points` that lies on an edge of the polygon, in order along the edge. */
+const insertBoundaryPoints = (polygon: FloorplanPoint[], points: FloorplanPoint[]) => polygon.flatMap((start, index) => {
+  const end = polygon[(index + 1) % polygon.length];
+  const onEdge = points.filter((point) => {
+    const closest = closestPointOnSegment(point, start, end);
+    return Math.hypot(point.x - closest.x, point.y - closest.y) <= GEOMETRY_EPSILON
+      && Math.hypot(point.x - start.x, point.y - start.y) > GEOMETRY_EPSILON
+      && Math.hypot(point.x - end.x, point.y - end.y) > GEOMETRY_EPSILON;
+  }).sort((a, b) => Math.hypot(a.x - start.x, a.y - start.y) - Math.hypot(b.x - start.x, b.y - start.y));
+  return [start, ...onEdge];
+});
+
+/**
+ * Outline of two rooms that share a wall, or undefined when they do not
+ * touch or their union is not a single outline without holes. Vertices
+ * within `tolerance` of the other room are snapped onto it first, so a thin
+ * wall gap between the two outlines closes. The shared stretch then appears
+ * in both outlines as the same edges in opposite directions; those cancel,
+ * and the edges left over are chained into the merged outline.
+ */
+export const unionPolygons = (first: FloorplanPoint[], second: FloorplanPoint[], tolerance: number) => {
+  const oriented = (polygon: FloorplanPoint[]) => signedArea(polygon) < 0 ? [...polygon].reverse() : polygon;
+  const snappedFirst = dedupePolygon(snapOnto(oriented(first), oriented(second), tolerance));
+  const snappedSecond = dedupePolygon(snapOnto(oriented(second), snappedFirst, tolerance));
+  const firstOutline = insertBoundaryPoints(snappedFirst, snappedSecond);
+  const secondOutline = insertBoundaryPoints(snappedSecond, firstOutline);
+  const edges = [firstOutline, secondOutline].flatMap((polygon) => polygon.map((start, index) => ({ start, end: polygon[(index + 1) % polygon.length] })));
+  const edgeKeys = new Set(edges.map((edge) => `${pointKey(edge.start)}>${pointKey(edge.end)}`));
+  const outer = edges.filter((edge) => !edgeKeys.has(`${pointKey(edge.end)}>${pointKey(edge.start)}`));
+  if (outer.length === edges.length || outer.length < 3) return undefined;
+
+  const byStart = new Map<string, typeof outer[number]>();
+  for (const edge of outer) {
+    // Two outer edges leaving one point means the rooms only touch at a corner there.
+    if (byStart.has(pointKey(edge.start))) return undefined;
+    byStart.set(pointKey(edge.start), edge);
+  }
+  const chain: FloorplanPoint[] = [];
+  let edge: typeof outer[number] | undefined = outer[0];
+  while (edge && chain.length <= outer.length) {
+    chain.push(edge.start);
+    edge = byStart.get(pointKey(edge.end));
+    if (edge === outer[0]) break;
+  }
+  // A chain that closes before using every edge leaves a hole or a second outline behind.
+  if (edge !== outer[0] || chain.length !== outer.length) return undefined;
+  return chain.filter((point, index) => {
+    const previous = chain[(index + chain.length - 1) % chain.length];
+    const next = chain[(index + 1) % chain.length];
+    return Math.abs(lineSide(point, previous, next)) > GEOMETRY_EPSILON * Math.max(1, Math.hypot(next.x - previous.x, next.y - previous.y));
+  });
+};
+
+export const pointInPolygon = (point: FloorplanPoint, polygon: FloorplanPoint[]) => polygon.reduce((inside, start, index) => {
+  const end = polygon[(index + polygon.length - 1) % polygon.length];
+  const crosses = (start.y > point.y) !== (end.y > point.y)
+    && point.x < (end.x - start.x) * (point.y - start.y) / (end.y - start.y) + start.x;
+  return crosses ? !inside : inside;
+}, false);
+
+const OVERLAP_GRID = 24;
+
+/** Bounding box of any number of points; reduces instead of spreading, so CAD-sized point lists don't overflow the call stack. */
+export const polygonBounds = (polygon: FloorplanPoint[]) => polygon.reduce((bounds, point) => ({
+  minX: Math.min(bounds.minX, point.x), maxX: Math.max(bounds.maxX, point.x),
+  minY: Math.min(bounds.minY, point.y), maxY: Math.max(bounds.maxY, point.y),
+}), { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity });
+
+/** Share of the smaller polygon covered by the other, sampled on a grid over their common bounding box. */
+export const polygonOverlapRatio = (first: FloorplanPoint[], second: FloorplanPoint[]) => {
+  const a = polygonBounds(first);
+  const b = polygonBounds(second);
+  const minX = Math.max(a.minX, b.minX);
+  const maxX = Math.min(a.maxX, b.maxX);
+  const minY = Math.max(a.minY, b.minY);
+  const maxY = Math.min(a.maxY, b.maxY);
+  if (maxX <= minX || maxY <= minY) return 0;
+  const cellWidth = (maxX - minX) / OVERLAP_GRID;
+  const cellHeight = (maxY - minY) / OVERLAP_GRID;
+  let covered = 0;
+  for (let column = 0; column < OVERLAP_GRID; column += 1) {
+    for (let row = 0; row < OVERLAP_GRID; row += 1) {
+      const point = { x: minX + (column + 0.5) * cellWidth, y: minY + (row + 0.5) * cellHeight };
+      if (pointInPolygon(point, first) && pointInPolygon(point, second)) covered += 1;
+    }
+  }
+  const smallerArea = Math.min(polygonArea(first), polygonArea(second));
+  return smallerArea > 0 ? covered * cellWidth * cellHeight / smallerArea : 0;
+};
+
+/** Overlap below this share of the smaller room is sampling noise along a shared edge. */
+const OVERLAP_EPSILON = 0.001;
+
+/**
+ * True when the outlines share interior area, including rooms that coincide
+ * or overlap along collinear edges. Outlines that only touch along an edge
+ * or at a corner do not overlap.
+ */
+export const polygonsOverlap = (first: FloorplanPoint[], second: FloorplanPoint[]) => polygonOverlapRatio(first, second) > OVERLAP_EPSILON;
+
+export interface FloorplanWall {
+  id: string;
+  /** Centerline ends in normalized 0–100 plan coordinates. */
+  start: FloorplanPoint;
+  end: FloorplanPoint;
+  thicknessM: number;
+  exterior: boolean;
+}
+
+export interface WallJunction {
+  id: string;
+  point: FloorplanPoint;
+  /** Walls that end at the junction. */
+  endpoints: Array<{ wallId: string; end: 'start' | 'end' }>;
+  /** Walls that run through the junction, as the top of a T. */
+  throughWallIds: string[];
+  kind: 'end' | 'corner' | 'tee' | 'cross';
+}
+
+export interface WallGraph {
+  junctions: WallJunction[];
+  /** Rooms on each side of every wall, keyed by wall id. Left is left of the start-to-end direction on screen. */
+  sides: Record<string, { left: string[]; right: string[] }>;
+  /** One entry per pair of rooms separated by a wall. */
+  sharedWalls: Array<{ wallId: string; roomIds: [string, string] }>;
+}
+
+const WALL_SIDE_SAMPLES = [0.2, 0.5, 0.8];
+
+/**
+ * Connects wall centerlines into a graph. Ends within `tolerance` plan units
+ * merge into one junction, and a wall passing that close to a junction joins
+ * it as a through wall. Each side of a wall is probed just beyond its face, at
+ * several points along its length, to find the rooms it bounds; polygons and
+ * walls are both in plan units, so `planUnitsPerMeter` converts thickness.
+ */
+export const buildWallGraph = (walls: FloorplanWall[], rooms: Array<{ id: string; polygon: FloorplanPoint[] }>, planUnitsPerMeter: number, tolerance = 1.5): WallGraph => {
+  const clusters: Array<{ points: FloorplanPoint[]; endpoints: WallJunction['endpoints'] }> = [];
+  walls.forEach((wall) => (['start', 'end'] as const).forEach((end) => {
+    const point = wall[end];
+    const cluster = clusters.find((candidate) => Math.hypot(candidate.points[0].x - point.x, candidate.points[0].y - point.y) <= tolerance);
+    if (cluster) {
+      cluster.points.push(point);
+      cluster.endpoints.push({ wallId: wall.id, end });
+    } else clusters.push({ points: [point], endpoints: [{ wallId: wall.id, end }] });
+  }));
+
+  const junctions = clusters.map((cluster, index): WallJunction => {
+    const point = {
+      x: cluster.points.reduce((sum, candidate) => sum + candidate.x, 0) / cluster.points.length,
+      y: cluster.points.reduce((sum, candidate) => sum + candidate.y, 0) / cluster.points.length,
+    };
+    const throughWallIds = walls.filter((wall) => !cluster.endpoints.some((endpoint) => endpoint.wallId === wall.id)).filter((wall) => {
+      const closest = closestPointOnSegment(point, wall.start, wall.end);
+      return Math.hypot(point.x - closest.x, point.y - closest.y) <= tolerance;
+    }).map((wall) => wall.id);
+    const degree = cluster.endpoints.length + throughWallIds.length * 2;
+    return {
+      id: `junction-${index + 1}`,
+      point,
+      endpoints: cluster.endpoints,
+      throughWallIds,
+      kind: degree <= 1 ? 'end' : degree === 2 ? 'corner' : degree === 3 ? 'tee' : 'cross',
+    };
+  });
+
+  const sides = Object.fromEntries(walls.map((wall) => {
+    const dx = wall.end.x - wall.start.x;
+    const dy = wall.end.y - wall.start.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const probe = wall.thicknessM * planUnitsPerMeter / 2 + tolerance;
+    const roomsOn = (side: 1 | -1) => [...new Set(WALL_SIDE_SAMPLES.flatMap((ratio) => {
+      const point = { x: wall.start.x + dx * ratio + dy / length * probe * side, y: wall.start.y + dy * ratio - dx / length * probe * side };
+      return rooms.filter((room) => room.polygon.length >= 3 && pointInPolygon(point, room.polygon)).map((room) => room.id);
+    }))];
+    return [wall.id, { left: roomsOn(1), right: roomsOn(-1) }];
+  }));
+
+  const sharedWalls = walls.flatMap((wall) => sides[wall.id].left.flatMap((left) => sides[wall.id].right
+    .filter((right) => right !== left)
+    .map((right) => ({ wallId: wall.id, roomIds: [left, right] as [string, string] }))));
+
+  return { junctions, sides, sharedWalls };
+};
+
+/** Moves every wall end at the junction together. At a T the point slides along the through wall so the joint stays closed. */
+export const moveWallJunction = (walls: FloorplanWall[], junction: WallJunction, point: FloorplanPoint) => {
+  const through = walls.find((wall) => junction.throughWallIds.includes(wall.id));
+  const target = through ? closestPointOnSegment(point, through.start, through.end) : point;
+  return walls.map((wall) => junction.endpoints
+    .filter((endpoint) => endpoint.wallId === wall.id)
+    .reduce((moved, endpoint) => ({ ...moved, [endpoint.end]: target }), wall));
+};
@@ -1,7 +1,8 @@
 const DB_NAME = 'archix-interior-poc';
 const DB_VERSION = 1;
 const STORE_NAME = 'floorplan';
-const IMAGE_KEY = 'floorplan-image';
+/** Image-only record from before the whole workspace was saved. */
+const LEGACY_IMAGE_KEY = 'floorplan-image';
 
 const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
   if (typeof indexedDB === 'undefined') {
@@ -31,14 +32,37 @@ const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStor
   }
 };
 
-export const readStoredFloorplan = () => withStore<unknown>('readonly', (store) => store.get(IMAGE_KEY))
-  .then((value) => (typeof value === 'string' && value.startsWith('data:image/') ? value : undefined))
+const workspaceKey = (projectKey: string) => `workspace:${projectKey}`;
+
+/**
+ * The saved floorplan workspace of one project. The plan itself is kept as a
+ * Blob so large PDF and CAD rasters survive without base64 inflation; the rest
+ * is plain data that the workspace validates when it reads it back.
+ */
+export interface StoredFloorplanWorkspace {
+  image: Blob;
+  imageName: string;
+  savedAt: string;
+  state: Record<string, unknown>;
+}
+
+export const readStoredFloorplan = (projectKey: string) => withStore<unknown>('readonly', (store) => store.get(workspaceKey(projectKey)))
+  .then((value) => {
+    const stored = value as Partial<StoredFloorplanWorkspace> | undefined;
+    return stored?.image instanceof Blob && typeof stored.imageName === 'string' && stored.state && typeof stored.state === 'object'
+      ? stored as StoredFloorplanWorkspace
+      : undefined;
+  })
   .catch(() => undefined);
 
-export const writeStoredFloorplan = (image: string) => withStore('readwrite', (store) => store.put(image, IMAGE_KEY))
+export const writeStoredFloorplan = (projectKey: string, workspace: StoredFloorplanWorkspace) => withStore('readwrite', (store) => store.put(workspace, workspaceKey(projectKey)))
   .then(() => true)
   .catch(() => false);
 
-export const clearStoredFloorplan = () => withStore('readwrite', (store) => store.delete(IMAGE_KEY))
+/** Also drops the image-only record written by earlier versions. */
+export const clearStoredFloorplan = (projectKey: string) => withStore('readwrite', (store) => {
+  store.delete(LEGACY_IMAGE_KEY);
+  return store.delete(workspaceKey(projectKey));
+})
   .then(() => undefined)
   .catch(() => undefined);
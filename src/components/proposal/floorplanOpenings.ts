@@ -0,0 +1,78 @@
+import type { FloorplanPoint } from './floorplanGeometry';
+
+export type FloorplanOpeningType = 'door' | 'sliding-door' | 'window' | 'passage';
+
+export interface FloorplanOpening {
+  id: string;
+  type: FloorplanOpeningType;
+  /** Centre of the opening in normalized 0–100 plan coordinates. */
+  center: FloorplanPoint;
+  /** Direction of the wall the opening sits in. */
+  orientation: 'horizontal' | 'vertical';
+  widthM: number;
+  heightM: number;
+  /** One room for exterior openings, two for openings between rooms. */
+  roomIds: string[];
+  /** Hinged doors only: the jamb carrying the hinge (start is the left or top end) and the room the leaf opens into. */
+  hinge?: 'start' | 'end';
+  swingRoomId?: string;
+}
+
+export const OPENING_TYPES: FloorplanOpeningType[] = ['door', 'sliding-door', 'window', 'passage'];
+
+export const DEFAULT_OPENING_HEIGHT_M: Record<FloorplanOpeningType, number> = {
+  door: 2,
+  'sliding-door': 2,
+  window: 1.2,
+  passage: 2,
+};
+
+export const FLOORPLAN_CEILING_HEIGHT_M = 2.4;
+
+export const openingTypeLabel = (type: FloorplanOpeningType) => ({
+  door: { ja: '開き戸', en: 'Door' },
+  'sliding-door': { ja: '引き戸', en: 'Sliding door' },
+  window: { ja: '窓', en: 'Window' },
+  passage: { ja: '開口（建具なし）', en: 'Passage' },
+})[type];
+
+/** Gross wall area minus every opening in the room's walls; an opening between two rooms is deducted from both. */
+export const netWallArea = (roomId: string, perimeterM: number, openings: FloorplanOpening[]) => {
+  const deducted = openings
+    .filter((opening) => opening.roomIds.includes(roomId))
+    .reduce((sum, opening) => sum + opening.widthM * opening.heightM, 0);
+  return Math.round(Math.max(0, perimeterM * FLOORPLAN_CEILING_HEIGHT_M - deducted) * 10) / 10;
+};
+
+export interface OpeningSymbol {
+  jambs: [FloorplanPoint, FloorplanPoint];
+  /** Hinged doors: the open leaf and the swing arc from its tip back to the closing jamb. */
+  leaf?: { hinge: FloorplanPoint; tip: FloorplanPoint; closing: FloorplanPoint; rx: number; ry: number; sweep: 0 | 1 };
+}
+
+/**
+ * Plan-symbol geometry in normalized coordinates. Sizes are computed in image
+ * pixels and converted back per axis, so the swing arc stays circular on a
+ * non-square plan drawn with `preserveAspectRatio="none"`. `swingToward` is a
+ * point inside the room the door opens into.
+ */
+export const openingSymbol = (opening: FloorplanOpening, pixelsPerMeter: number, imageSize: { width: number; height: number }, swingToward?: FloorplanPoint): OpeningSymbol => {
+  const widthPx = opening.widthM * pixelsPerMeter;
+  const toX = (px: number) => px / imageSize.width * 100;
+  const toY = (px: number) => px / imageSize.height * 100;
+  const horizontal = opening.orientation === 'horizontal';
+  const half = horizontal ? { x: toX(widthPx / 2), y: 0 } : { x: 0, y: toY(widthPx / 2) };
+  const start = { x: opening.center.x - half.x, y: opening.center.y - half.y };
+  const end = { x: opening.center.x + half.x, y: opening.center.y + half.y };
+  if (opening.type !== 'door') return { jambs: [start, end] };
+  const [hinge, closing] = opening.hinge === 'end' ? [end, start] : [start, end];
+  const side = swingToward
+    ? Math.sign(horizontal ? swingToward.y - opening.center.y : swingToward.x - opening.center.x) || 1
+    : 1;
+  const tip = horizontal ? { x: hinge.x, y: hinge.y + side * toY(widthPx) } : { x: hinge.x + side * toX(widthPx), y: hinge.y };
+  // Sweep clockwise on screen when turning from the leaf to the closing jamb is clockwise in pixel space.
+  const leafVector = { x: (tip.x - hinge.x) * imageSize.width, y: (tip.y - hinge.y) * imageSize.height };
+  const jambVector = { x: (closing.x - hinge.x) * imageSize.width, y: (closing.y - hinge.y) * imageSize.height };
+  const sweep = leafVector.x * jambVector.y - leafVector.y * jambVector.x > 0 ? 1 : 0;
+  return { jambs: [start, end], leaf: { hinge, tip, closing, rx: toX(widthPx), ry: toY(widthPx), sweep } };
+};
@@ -0,0 +1,85 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+export interface PdfPageInfo {
+  number: number;
+  /** Page size in PDF points (1/72 inch). */
+  widthPt: number;
+  heightPt: number;
+  /** Denominator of a drawing scale printed on the sheet, e.g. 100 for 1:100. */
+  declaredScale?: number;
+}
+
+/** Where a rasterized floorplan came from, kept with the analysis so areas can use the document's own scale. */
+export interface PdfSource {
+  kind: 'pdf';
+  fileName: string;
+  page: number;
+  pageCount: number;
+  dpi: number;
+  scaleDenominator?: number;
+}
+
+export const PDF_DPI_OPTIONS = [100, 150, 200, 300, 400];
+export const MAX_PDF_BYTES = 40 * 1024 * 1024;
+/** Longest raster edge browsers render reliably without running out of canvas memory. */
+export const MAX_PDF_RASTER_EDGE = 10_000;
+const POINTS_PER_INCH = 72;
+const METERS_PER_INCH = 0.0254;
+const THUMBNAIL_EDGE = 480;
+const SCALE_PATTERN = /(?:縮尺|\bscale|\bS)\s*[=:：]?\s*1\s*[:/：／]\s*(\d{2,4})\b/i;
+
+const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  return pdfjs;
+};
+
+export const openPdf = async (file: File) => {
+  const pdfjs = await loadPdfjs();
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+};
+
+/** On a sheet drawn at 1:n and rasterized at `dpi`, one metre on site is dpi / 0.0254 / n pixels. */
+export const pdfPixelsPerMeter = (dpi: number, scaleDenominator: number) => dpi / METERS_PER_INCH / scaleDenominator;
+
+export const pdfRasterSize = (page: PdfPageInfo, dpi: number) => ({
+  width: Math.round(page.widthPt / POINTS_PER_INCH * dpi),
+  height: Math.round(page.heightPt / POINTS_PER_INCH * dpi),
+});
+
+export const readPdfPage = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<PdfPageInfo> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+  const text = content.items.map((item) => 'str' in item ? item.str : '').join(' ');
+  const declaredScale = Number(text.match(SCALE_PATTERN)?.[1]);
+  return {
+    number: pageNumber,
+    widthPt: viewport.width,
+    heightPt: viewport.height,
+    declaredScale: declaredScale >= 10 && declaredScale <= 1000 ? declaredScale : undefined,
+  };
+};
+
+const renderPage = async (pdf: PDFDocumentProxy, pageNumber: number, scale: number) => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(viewport.width));
+  canvas.height = Math.max(1, Math.round(viewport.height));
+  await page.render({ canvas, viewport, background: '#ffffff' }).promise;
+  return canvas;
+};
+
+export const renderPdfThumbnail = async (pdf: PDFDocumentProxy, page: PdfPageInfo) =>
+  (await renderPage(pdf, page.number, THUMBNAIL_EDGE / Math.max(page.widthPt, page.heightPt))).toDataURL('image/png');
+
+/** Renders one page at `dpi` into a PNG file that loads like any uploaded plan. */
+export const rasterizePdfPage = async (pdf: PDFDocumentProxy, page: PdfPageInfo, dpi: number, fileName: string) => {
+  const size = pdfRasterSize(page, dpi);
+  if (Math.max(size.width, size.height) > MAX_PDF_RASTER_EDGE) throw new Error('This page is too large at the chosen DPI. Choose a lower DPI.');
+  const canvas = await renderPage(pdf, page.number, dpi / POINTS_PER_INCH);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('The PDF page could not be rasterized.');
+  return new File([blob], `${fileName.replace(/\.pdf$/i, '')}-p${page.number}.png`, { type: 'image/png' });
+};
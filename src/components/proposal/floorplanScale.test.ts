@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { fitPixelsPerMeter, type ScaleReference } from './floorplanScale';
+
+const imageSize = { width: 2000, height: 1000 };
+const horizontal = (id: string, lengthPercent: number, lengthM: number, status?: ScaleReference['status']): ScaleReference => ({
+  id, kind: 'dimension', text: String(lengthM * 1000), lengthM, start: { x: 0, y: 50 }, end: { x: lengthPercent, y: 50 }, status,
+});
+
+describe('fitPixelsPerMeter', () => {
+  it('needs at least one accepted reference', () => {
+    expect(fitPixelsPerMeter([horizontal('a', 10, 2)], imageSize)).toBeUndefined();
+    expect(fitPixelsPerMeter([horizontal('a', 10, 2, 'rejected')], imageSize)).toBeUndefined();
+  });
+
+  it('recovers the scale of consistent references with no residual', () => {
+    // 10% of 2000 px = 200 px over 2 m, and 25% = 500 px over 5 m.
+    const fit = fitPixelsPerMeter([horizontal('a', 10, 2, 'accepted'), horizontal('b', 25, 5, 'accepted')], imageSize);
+    expect(fit?.pixelsPerMeter).toBeCloseTo(100);
+    expect(fit?.referenceCount).toBe(2);
+    expect(fit?.rmsPercent).toBe(0);
+  });
+
+  it('measures vertical references in image pixels on a non-square plan', () => {
+    const vertical: ScaleReference = { id: 'v', kind: 'scale-bar', text: '0–2m', lengthM: 2, start: { x: 10, y: 0 }, end: { x: 10, y: 20 }, status: 'accepted' };
+    expect(fitPixelsPerMeter([vertical], imageSize)?.pixelsPerMeter).toBeCloseTo(100);
+  });
+
+  it('weights longer references more and reports residuals for every reference', () => {
+    const fit = fitPixelsPerMeter([horizontal('short', 11, 2, 'accepted'), horizontal('long', 50, 10, 'accepted'), horizontal('ignored', 30, 2)], imageSize);
+    // k = (220·2 + 1000·10) / (2² + 10²)
+    expect(fit?.pixelsPerMeter).toBeCloseTo(10440 / 104);
+    expect(fit?.residualPercent.short).toBeGreaterThan(0);
+    expect(fit?.residualPercent.long).toBeLessThan(0);
+    expect(fit?.residualPercent.ignored).toBeGreaterThan(100);
+  });
+});
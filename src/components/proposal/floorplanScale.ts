@@ -0,0 +1,44 @@
+import type { FloorplanPoint } from './floorplanGeometry';
+
+export interface ScaleReference {
+  id: string;
+  /** dimension and scale-bar come from the analysis; manual is a two-point calibration by the user. */
+  kind: 'dimension' | 'scale-bar' | 'manual';
+  text: string;
+  lengthM: number;
+  /** Ends of the measured length in normalized 0–100 plan coordinates. */
+  start: FloorplanPoint;
+  end: FloorplanPoint;
+  /** Unreviewed references are neither used nor discarded. */
+  status?: 'accepted' | 'rejected';
+}
+
+export interface ScaleFit {
+  pixelsPerMeter: number;
+  referenceCount: number;
+  /** Signed error of every reference against the fit, in percent of its stated length. */
+  residualPercent: Record<string, number>;
+  rmsPercent: number;
+}
+
+export const referencePixelLength = (reference: ScaleReference, imageSize: { width: number; height: number }) =>
+  Math.hypot((reference.end.x - reference.start.x) / 100 * imageSize.width, (reference.end.y - reference.start.y) / 100 * imageSize.height);
+
+/**
+ * Least-squares scale through the origin over the accepted references:
+ * minimizing Σ(pixels − k·metres)² gives k = Σ pixels·metres / Σ metres².
+ * Longer references weigh more, as their endpoints are relatively more precise.
+ */
+export const fitPixelsPerMeter = (references: ScaleReference[], imageSize: { width: number; height: number }): ScaleFit | undefined => {
+  const accepted = references.filter((reference) => reference.status === 'accepted' && reference.lengthM > 0);
+  const numerator = accepted.reduce((sum, reference) => sum + referencePixelLength(reference, imageSize) * reference.lengthM, 0);
+  const denominator = accepted.reduce((sum, reference) => sum + reference.lengthM ** 2, 0);
+  const pixelsPerMeter = denominator > 0 ? numerator / denominator : 0;
+  if (!Number.isFinite(pixelsPerMeter) || pixelsPerMeter <= 0) return undefined;
+  const residualPercent = Object.fromEntries(references.map((reference) => [
+    reference.id,
+    Math.round((referencePixelLength(reference, imageSize) / pixelsPerMeter - reference.lengthM) / reference.lengthM * 1000) / 10,
+  ]));
+  const rmsPercent = Math.sqrt(accepted.reduce((sum, reference) => sum + residualPercent[reference.id] ** 2, 0) / accepted.length);
+  return { pixelsPerMeter, referenceCount: accepted.length, residualPercent, rmsPercent: Math.round(rmsPercent * 10) / 10 };
+};
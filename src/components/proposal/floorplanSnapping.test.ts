@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { dominantAxis, orthogonalPoint, snapPoint, type SnapTargets } from './floorplanSnapping';
+
+const targets: SnapTargets = {
+  vertices: [{ x: 10, y: 0 }],
+  edges: [[{ x: 10, y: 0 }, { x: 10, y: 10 }]],
+  walls: [[{ x: 30, y: 0 }, { x: 30, y: 10 }]],
+};
+
+describe('snapPoint', () => {
+  it('prefers a corner over the edge leading to it', () => {
+    expect(snapPoint({ x: 10.2, y: 0.3 }, targets, 0.5)).toEqual({ kind: 'vertex', point: { x: 10, y: 0 } });
+  });
+
+  it('snaps onto the nearest edge or wall face', () => {
+    expect(snapPoint({ x: 10.3, y: 5 }, targets, 0.5)).toEqual({ kind: 'edge', point: { x: 10, y: 5 } });
+    expect(snapPoint({ x: 29.8, y: 5 }, targets, 0.5)).toEqual({ kind: 'wall', point: { x: 30, y: 5 } });
+  });
+
+  it('leaves a point beyond the tolerance alone', () => {
+    expect(snapPoint({ x: 20, y: 5 }, targets, 0.5)).toBeUndefined();
+  });
+});
+
+describe('orthogonal editing', () => {
+  const imageSize = { width: 2000, height: 1000 };
+  /** Plan coordinates of a point given in a frame rotated by `degrees`, in image pixels. */
+  const rotated = (degrees: number, u: number, v: number) => {
+    const angle = degrees * Math.PI / 180;
+    return { x: (u * Math.cos(angle) - v * Math.sin(angle)) / 20, y: (u * Math.sin(angle) + v * Math.cos(angle)) / 10 };
+  };
+
+  it('finds the main axis of a rotated plan in image pixels', () => {
+    const room = [rotated(30, 0, 0), rotated(30, 400, 0), rotated(30, 400, 100), rotated(30, 0, 100)];
+    expect(dominantAxis([room], imageSize) * 180 / Math.PI).toBeCloseTo(30);
+  });
+
+  it('slides the point along an axis line through a neighbour', () => {
+    expect(orthogonalPoint({ x: 0, y: 0 }, { x: 10, y: 20 }, { x: 5, y: 1 }, 0, imageSize, 1)).toEqual({ x: 5, y: 0 });
+  });
+
+  it('locks to the square corner near the pointer on a rotated plan', () => {
+    const corner = orthogonalPoint(rotated(30, 0, 0), rotated(30, 400, 100), rotated(30, 390, 10), 30 * Math.PI / 180, imageSize, 1);
+    const expected = rotated(30, 400, 0);
+    expect(corner.x).toBeCloseTo(expected.x);
+    expect(corner.y).toBeCloseTo(expected.y);
+  });
+});
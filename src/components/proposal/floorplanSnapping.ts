@@ -0,0 +1,65 @@
+import { closestPointOnSegment, longestEdge, type FloorplanPoint } from './floorplanGeometry';
+
+type Segment = [FloorplanPoint, FloorplanPoint];
+
+export interface SnapTargets {
+  /** Corners of the other rooms. */
+  vertices: FloorplanPoint[];
+  /** Edges of the other rooms. */
+  edges: Segment[];
+  /** Both faces of every detected wall. */
+  walls: Segment[];
+}
+
+export interface VertexSnap {
+  kind: 'vertex' | 'edge' | 'wall';
+  point: FloorplanPoint;
+}
+
+const distance = (a: FloorplanPoint, b: FloorplanPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Nearest target within `tolerance`. Corners win over edges and wall faces, so shared corners close exactly. */
+export const snapPoint = (point: FloorplanPoint, targets: SnapTargets, tolerance: number): VertexSnap | undefined => {
+  const vertex = targets.vertices
+    .filter((candidate) => distance(candidate, point) <= tolerance)
+    .sort((a, b) => distance(a, point) - distance(b, point))[0];
+  if (vertex) return { kind: 'vertex', point: vertex };
+  const [hit] = [
+    ...targets.edges.map(([start, end]) => ({ kind: 'edge' as const, point: closestPointOnSegment(point, start, end) })),
+    ...targets.walls.map(([start, end]) => ({ kind: 'wall' as const, point: closestPointOnSegment(point, start, end) })),
+  ].filter((candidate) => distance(candidate.point, point) <= tolerance)
+    .sort((a, b) => distance(a.point, point) - distance(b.point, point));
+  return hit;
+};
+
+/** Angle in radians, in image pixels, of the longest room edge in the plan. */
+export const dominantAxis = (polygons: FloorplanPoint[][], imageSize: { width: number; height: number }) => {
+  const edge = polygons.map((polygon) => longestEdge(polygon, imageSize)).filter((candidate) => candidate !== undefined)
+    .sort((a, b) => b.length - a.length)[0];
+  return edge ? Math.atan2(edge.dy * imageSize.height, edge.dx * imageSize.width) : 0;
+};
+
+/**
+ * Keeps the edges at a dragged corner along or across the plan axis. The
+ * point slides along whichever axis line through a neighbour is nearest the
+ * pointer, and locks to the corner where both edges are square once the
+ * pointer is within `tolerance` of it. The maths runs in image pixels,
+ * because the plan's percent coordinates are not square.
+ */
+export const orthogonalPoint = (previous: FloorplanPoint, next: FloorplanPoint, point: FloorplanPoint, axis: number, imageSize: { width: number; height: number }, tolerance: number) => {
+  const cos = Math.cos(axis);
+  const sin = Math.sin(axis);
+  const toAxis = (candidate: FloorplanPoint) => {
+    const x = candidate.x * imageSize.width;
+    const y = candidate.y * imageSize.height;
+    return { u: x * cos + y * sin, v: -x * sin + y * cos };
+  };
+  const fromAxis = ({ u, v }: { u: number; v: number }) => ({ x: (u * cos - v * sin) / imageSize.width, y: (u * sin + v * cos) / imageSize.height });
+  const before = toAxis(previous);
+  const after = toAxis(next);
+  const pointer = toAxis(point);
+  const nearest = (candidates: Array<{ u: number; v: number }>) => candidates.map(fromAxis).sort((a, b) => distance(a, point) - distance(b, point))[0];
+  const corner = nearest([{ u: before.u, v: after.v }, { u: after.u, v: before.v }]);
+  if (distance(corner, point) <= tolerance) return corner;
+  return nearest([before, after].flatMap((anchor) => [{ u: anchor.u, v: pointer.v }, { u: pointer.u, v: anchor.v }]));
+};
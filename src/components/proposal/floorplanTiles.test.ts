@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { clipPolygonToRect, polygonArea, type FloorplanPoint } from './floorplanGeometry';
+import type { FloorplanOpening } from './floorplanOpenings';
+import { mergeTileResults, planTiles, TILE_EDGE_PX, type FloorplanTile } from './floorplanTiles';
+
+const rect = (x: number, y: number, width: number, height: number): FloorplanPoint[] => [
+  { x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height },
+];
+
+/** Two tiles, each covering half the plan's width plus a 10% overlap. */
+const leftTile: FloorplanTile = { index: 0, source: { x: 0, y: 0, width: 1200, height: 1000 }, plan: { x: 0, y: 0, width: 60, height: 100 }, core: { x: 0, y: 0, width: 50, height: 100 } };
+const rightTile: FloorplanTile = { index: 1, source: { x: 800, y: 0, width: 1200, height: 1000 }, plan: { x: 40, y: 0, width: 60, height: 100 }, core: { x: 50, y: 0, width: 50, height: 100 } };
+
+/** Converts plan coordinates into the tile's own 0–100 coordinates. */
+const local = (tile: FloorplanTile, polygon: FloorplanPoint[]) => polygon.map((point) => ({
+  x: (point.x - tile.plan.x) / tile.plan.width * 100,
+  y: (point.y - tile.plan.y) / tile.plan.height * 100,
+}));
+
+/** What a tile returns for a room it only partly shows: the visible part, in tile coordinates. */
+const seenBy = (tile: FloorplanTile, polygon: FloorplanPoint[]) => local(tile, clipPolygonToRect(polygon, tile.plan));
+
+describe('planTiles', () => {
+  it('keeps a plan below the tile size as a single tile', () => {
+    expect(planTiles({ width: 2000, height: 1500 })).toHaveLength(1);
+  });
+
+  it('covers a large plan with overlapping tiles no wider than the grid allows', () => {
+    const tiles = planTiles({ width: 6000, height: 3000 });
+    expect(tiles).toHaveLength(6);
+    expect(tiles[0].source.x).toBe(0);
+    expect(tiles[tiles.length - 1].source.x + tiles[tiles.length - 1].source.width).toBe(6000);
+    expect(tiles[1].source.x).toBeLessThan(tiles[0].source.width);
+    tiles.forEach((tile) => expect(tile.source.width).toBeLessThanOrEqual(TILE_EDGE_PX * 1.3));
+  });
+
+  it('gives every tile a core cell, and the cells cover the plan once', () => {
+    const tiles = planTiles({ width: 6000, height: 3000 });
+    expect(tiles.reduce((sum, tile) => sum + tile.core.width * tile.core.height, 0)).toBeCloseTo(10_000);
+    tiles.forEach((tile) => {
+      expect(tile.core.x).toBeGreaterThanOrEqual(tile.plan.x);
+      expect(tile.core.x + tile.core.width).toBeLessThanOrEqual(tile.plan.x + tile.plan.width + 0.01);
+    });
+  });
+});
+
+describe('mergeTileResults', () => {
+  it('keeps the whole copy of a room that one tile saw completely', () => {
+    const merged = mergeTileResults([
+      { tile: leftTile, rooms: [{ id: 'a', polygon: local(leftTile, rect(42, 10, 10, 20)) }] },
+      { tile: rightTile, rooms: [{ id: 'a', polygon: local(rightTile, rect(42, 10, 10, 20)) }] },
+    ]);
+    expect(merged.rooms).toHaveLength(1);
+    expect(merged.joinedRoomIds).toEqual([]);
+  });
+
+  it('keeps an opening found in both tiles once, remapped to the kept room', () => {
+    const opening = (tile: FloorplanTile): FloorplanOpening => ({
+      id: 'd', type: 'door', center: local(tile, [{ x: 47, y: 10 }])[0], orientation: 'horizontal', widthM: 0.8, heightM: 2, roomIds: ['a'], hinge: 'start',
+    });
+    const merged = mergeTileResults([
+      { tile: leftTile, rooms: [{ id: 'a', polygon: local(leftTile, rect(42, 10, 10, 20)) }], openings: [opening(leftTile)] },
+      { tile: rightTile, rooms: [{ id: 'a', polygon: local(rightTile, rect(42, 10, 10, 20)) }], openings: [opening(rightTile)] },
+    ]);
+    expect(merged.openings).toHaveLength(1);
+    expect(merged.openings[0].roomIds).toEqual([merged.rooms[0].id]);
+  });
+
+  it('joins a room cut by the tile edge into its full outline', () => {
+    const room = rect(30, 10, 40, 20);
+    const merged = mergeTileResults([
+      { tile: leftTile, rooms: [{ id: 'a', polygon: seenBy(leftTile, room) }] },
+      { tile: rightTile, rooms: [{ id: 'a', polygon: seenBy(rightTile, room) }] },
+    ]);
+    expect(merged.rooms).toHaveLength(1);
+    expect(polygonArea(merged.rooms[0].polygon)).toBeCloseTo(800);
+    expect(merged.joinedRoomIds).toEqual([merged.rooms[0].id]);
+  });
+
+  it('joins a non-convex room without filling in its notch', () => {
+    const room = [{ x: 30, y: 10 }, { x: 70, y: 10 }, { x: 70, y: 20 }, { x: 45, y: 20 }, { x: 45, y: 40 }, { x: 30, y: 40 }];
+    const merged = mergeTileResults([
+      { tile: leftTile, rooms: [{ id: 'a', polygon: seenBy(leftTile, room), validationIssues: [] }] },
+      { tile: rightTile, rooms: [{ id: 'a', polygon: seenBy(rightTile, room), validationIssues: [] }] },
+    ]);
+    expect(merged.rooms).toHaveLength(1);
+    expect(polygonArea(merged.rooms[0].polygon)).toBeCloseTo(700);
+    expect(merged.rooms[0].validationIssues).toEqual(['Outline was joined across tile boundaries; check it against the drawing.']);
+  });
+});
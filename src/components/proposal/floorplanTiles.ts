@@ -0,0 +1,195 @@
+import { clipPolygonToRect, polygonArea, polygonOverlapRatio, unionPolygons, type FloorplanPoint, type FloorplanWall } from './floorplanGeometry';
+import type { FloorplanOpening } from './floorplanOpenings';
+import type { ScaleReference } from './floorplanScale';
+
+interface PlanRect { x: number; y: number; width: number; height: number }
+
+export interface FloorplanTile {
+  index: number;
+  /** Crop of the full-resolution image, in source pixels. */
+  source: PlanRect;
+  /** The same crop in normalized 0–100 plan coordinates. */
+  plan: PlanRect;
+  /** The grid cell without the overlap, in plan coordinates. The cells of all tiles cover the plan exactly once. */
+  core: PlanRect;
+}
+
+interface TileRoom { id: string; polygon: FloorplanPoint[]; validationIssues?: string[] }
+
+export interface TileResult<Room extends TileRoom> {
+  tile: FloorplanTile;
+  rooms: Room[];
+  openings?: FloorplanOpening[];
+  walls?: FloorplanWall[];
+  dimensions?: ScaleReference[];
+}
+
+/** Plans with a longer edge than this lose detail in the single-image analysis. */
+export const TILED_ANALYSIS_MIN_EDGE = 3000;
+export const TILE_EDGE_PX = 2400;
+const TILE_OVERLAP = 0.15;
+const MAX_TILES = 16;
+/** Tile-local percent within which a polygon point counts as lying on the tile edge. */
+const EDGE_TOLERANCE = 1;
+const SAME_ROOM_OVERLAP = 0.25;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Splits the image into a grid of tiles no longer than TILE_EDGE_PX, each
+ * grown by TILE_OVERLAP of a cell on every inner side so that a room cut by
+ * one tile's edge appears whole, or at least overlapping, in its neighbour.
+ */
+export const planTiles = (imageSize: { width: number; height: number }): FloorplanTile[] => {
+  let columns = Math.max(1, Math.ceil(imageSize.width / TILE_EDGE_PX));
+  let rows = Math.max(1, Math.ceil(imageSize.height / TILE_EDGE_PX));
+  while (columns * rows > MAX_TILES) {
+    if (columns >= rows) columns -= 1;
+    else rows -= 1;
+  }
+  const cellWidth = imageSize.width / columns;
+  const cellHeight = imageSize.height / rows;
+  return Array.from({ length: rows * columns }, (_, index) => {
+    const column = index % columns;
+    const row = Math.floor(index / columns);
+    const left = Math.max(0, Math.floor((column - TILE_OVERLAP) * cellWidth));
+    const top = Math.max(0, Math.floor((row - TILE_OVERLAP) * cellHeight));
+    const right = Math.min(imageSize.width, Math.ceil((column + 1 + TILE_OVERLAP) * cellWidth));
+    const bottom = Math.min(imageSize.height, Math.ceil((row + 1 + TILE_OVERLAP) * cellHeight));
+    return {
+      index,
+      source: { x: left, y: top, width: right - left, height: bottom - top },
+      plan: { x: left / imageSize.width * 100, y: top / imageSize.height * 100, width: (right - left) / imageSize.width * 100, height: (bottom - top) / imageSize.height * 100 },
+      core: { x: column / columns * 100, y: row / rows * 100, width: 100 / columns, height: 100 / rows },
+    };
+  });
+};
+
+/** True when the polygon reaches an edge of the tile that lies inside the plan, so the room may continue in the next tile. */
+const touchesInnerEdge = (polygon: FloorplanPoint[], tile: FloorplanTile) => polygon.some((point) =>
+  (tile.plan.x > 0 && point.x <= EDGE_TOLERANCE)
+  || (tile.plan.y > 0 && point.y <= EDGE_TOLERANCE)
+  || (tile.plan.x + tile.plan.width < 100 - 0.01 && point.x >= 100 - EDGE_TOLERANCE)
+  || (tile.plan.y + tile.plan.height < 100 - 0.01 && point.y >= 100 - EDGE_TOLERANCE));
+
+const projection = (point: FloorplanPoint, wall: FloorplanWall) => {
+  const length = Math.hypot(wall.end.x - wall.start.x, wall.end.y - wall.start.y) || 1;
+  const along = ((point.x - wall.start.x) * (wall.end.x - wall.start.x) + (point.y - wall.start.y) * (wall.end.y - wall.start.y)) / length;
+  const across = Math.abs((point.x - wall.start.x) * (wall.end.y - wall.start.y) - (point.y - wall.start.y) * (wall.end.x - wall.start.x)) / length;
+  return { along, across, length };
+};
+
+/** Joins wall segments that lie on the same line and overlap by more than `tolerance`, as neighbouring tiles trace the same wall twice. */
+const mergeCollinearWalls = (walls: FloorplanWall[], tolerance: number) => walls.reduce<FloorplanWall[]>((merged, wall) => {
+  const index = merged.findIndex((other) => {
+    const start = projection(wall.start, other);
+    const end = projection(wall.end, other);
+    if (start.across > tolerance || end.across > tolerance) return false;
+    return Math.min(Math.max(start.along, end.along), start.length) - Math.max(Math.min(start.along, end.along), 0) > tolerance;
+  });
+  if (index < 0) return [...merged, wall];
+  const other = merged[index];
+  const ends = [other.start, other.end, wall.start, wall.end].map((point) => ({ point, along: projection(point, other).along })).sort((a, b) => a.along - b.along);
+  merged[index] = {
+    ...other,
+    start: ends[0].point,
+    end: ends[ends.length - 1].point,
+    thicknessM: Math.max(other.thicknessM, wall.thicknessM),
+    exterior: other.exterior || wall.exterior,
+  };
+  return merged;
+}, []);
+
+/**
+ * Joins the parts of a room cut by tile edges. Each part is first cut back
+ * to its tile's core cell, so neighbouring parts meet along the cell edge
+ * instead of overlapping, and the parts are then merged one at a time.
+ */
+const joinRoomParts = (parts: Array<{ polygon: FloorplanPoint[]; tile: FloorplanTile }>, tolerance: number) => {
+  const [outline, ...rest] = parts.map(({ polygon, tile }) => clipPolygonToRect(polygon, tile.core)).filter((part) => part.length >= 3);
+  let joined = outline;
+  while (joined && rest.length) {
+    const current: FloorplanPoint[] = joined;
+    const next = rest.map((part, index) => ({ index, union: unionPolygons(current, part, tolerance) })).find((candidate) => candidate.union);
+    if (!next?.union) return undefined;
+    joined = next.union;
+    rest.splice(next.index, 1);
+  }
+  return joined;
+};
+
+const samePoint = (first: FloorplanPoint, second: FloorplanPoint, tolerance: number) => Math.hypot(first.x - second.x, first.y - second.y) <= tolerance;
+
+/**
+ * Combines per-tile analyses into one plan. Tile coordinates are lifted into
+ * plan coordinates and ids are prefixed with the tile number. Rooms seen by
+ * several tiles are grouped by overlap; a copy that does not reach an inner
+ * tile edge wins, otherwise the parts are joined by polygon union, or the
+ * largest part is kept and flagged. The figures of a joined room still
+ * describe one part, so callers recalculate them from the outline. Openings,
+ * walls, and dimensions found twice in the overlap are kept once.
+ */
+export const mergeTileResults = <Room extends TileRoom>(results: Array<TileResult<Room>>, tolerance = 1.5) => {
+  const lifted = results.map(({ tile, rooms, openings = [], walls = [], dimensions = [] }) => {
+    const toPlan = (point: FloorplanPoint) => ({ x: round(tile.plan.x + point.x / 100 * tile.plan.width), y: round(tile.plan.y + point.y / 100 * tile.plan.height) });
+    const prefix = `t${tile.index + 1}-`;
+    return {
+      rooms: rooms.map((room) => ({ room: { ...room, id: prefix + room.id, polygon: room.polygon.map(toPlan) }, tile, clipped: touchesInnerEdge(room.polygon, tile) })),
+      openings: openings.map((opening) => ({
+        ...opening,
+        id: prefix + opening.id,
+        center: toPlan(opening.center),
+        roomIds: opening.roomIds.map((id) => prefix + id),
+        swingRoomId: opening.swingRoomId && prefix + opening.swingRoomId,
+      })),
+      walls: walls.map((wall) => ({ ...wall, id: prefix + wall.id, start: toPlan(wall.start), end: toPlan(wall.end) })),
+      dimensions: dimensions.map((dimension) => ({ ...dimension, id: prefix + dimension.id, start: toPlan(dimension.start), end: toPlan(dimension.end) })),
+    };
+  });
+
+  const groups: Array<Array<{ room: Room; tile: FloorplanTile; clipped: boolean }>> = [];
+  lifted.flatMap((tile) => tile.rooms).forEach((entry) => {
+    const matching = groups.filter((group) => group.some((member) => polygonOverlapRatio(member.room.polygon, entry.room.polygon) > SAME_ROOM_OVERLAP));
+    matching.forEach((group) => groups.splice(groups.indexOf(group), 1));
+    groups.push([...matching.flat(), entry]);
+  });
+
+  const roomIdMap = new Map<string, string>();
+  const joinedRoomIds: string[] = [];
+  const rooms = groups.map((group) => {
+    const bySize = [...group].sort((a, b) => polygonArea(b.room.polygon) - polygonArea(a.room.polygon));
+    const whole = bySize.find((member) => !member.clipped);
+    const kept = (whole || bySize[0]).room;
+    group.forEach((member) => roomIdMap.set(member.room.id, kept.id));
+    if (whole || group.length === 1) return kept;
+    const joined = joinRoomParts(group.map((member) => ({ polygon: member.room.polygon, tile: member.tile })), tolerance);
+    joinedRoomIds.push(kept.id);
+    if (joined) {
+      return { ...kept, polygon: joined, validationIssues: [...kept.validationIssues || [], 'Outline was joined across tile boundaries; check it against the drawing.'] };
+    }
+    return { ...kept, validationIssues: [...kept.validationIssues || [], 'Room crosses tile boundaries and could not be joined; only its largest part was kept.'] };
+  });
+
+  const openings = lifted.flatMap((tile) => tile.openings).reduce<FloorplanOpening[]>((kept, opening) => {
+    const roomIds = [...new Set(opening.roomIds.map((id) => roomIdMap.get(id)).filter(Boolean) as string[])];
+    // Two parts of one room were joined, so the opening between them no longer separates anything.
+    if (!roomIds.length || (opening.roomIds.length === 2 && roomIds.length === 1)) return kept;
+    if (kept.some((other) => other.type === opening.type && samePoint(other.center, opening.center, tolerance))) return kept;
+    const swingRoomId = opening.swingRoomId && roomIdMap.get(opening.swingRoomId);
+    return [...kept, { ...opening, roomIds, swingRoomId: swingRoomId && roomIds.includes(swingRoomId) ? swingRoomId : undefined }];
+  }, []);
+
+  const dimensions = lifted.flatMap((tile) => tile.dimensions).reduce<ScaleReference[]>((kept, dimension) => kept.some((other) => other.text === dimension.text && (
+    (samePoint(other.start, dimension.start, tolerance) && samePoint(other.end, dimension.end, tolerance))
+    || (samePoint(other.start, dimension.end, tolerance) && samePoint(other.end, dimension.start, tolerance))
+  )) ? kept : [...kept, dimension], []);
+
+  return {
+    rooms,
+    openings,
+    walls: mergeCollinearWalls(lifted.flatMap((tile) => tile.walls), tolerance),
+    dimensions,
+    /** Rooms cut by tile edges, joined or not. Their areas and perimeters belong to one part, not to the outline. */
+    joinedRoomIds,
+  };
+};
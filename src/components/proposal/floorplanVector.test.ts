@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { parseDxf } from './floorplanVector';
+
+/** Writes group code/value pairs as ASCII DXF with the given header variables and entities. */
+const dxf = (header: Array<[number, string | number]>, entities: Array<[number, string | number]>) => [
+  [0, 'SECTION'], [2, 'HEADER'], ...header, [0, 'ENDSEC'],
+  [0, 'SECTION'], [2, 'ENTITIES'], ...entities, [0, 'ENDSEC'], [0, 'EOF'],
+].map(([code, value]) => `${code}\n${value}`).join('\n');
+
+const square: Array<[number, number]> = [[0, 0], [4000, 0], [4000, 3000], [0, 3000]];
+
+describe('parseDxf', () => {
+  it('reads a POLYLINE from its VERTEX entities up to SEQEND', () => {
+    const drawing = parseDxf(dxf([], [
+      [0, 'POLYLINE'], [8, 'ROOMS'], [66, 1], [70, 1],
+      ...square.flatMap(([x, y]): Array<[number, number | string]> => [[0, 'VERTEX'], [8, 'ROOMS'], [10, x], [20, y]]),
+      [0, 'SEQEND'],
+      [0, 'LINE'], [8, 'WALLS'], [10, 0], [20, 0], [11, 10], [21, 0],
+    ]));
+    expect(drawing.polygons).toEqual([{ layer: 'ROOMS', points: square.map(([x, y]) => ({ x, y: -y })) }]);
+    expect(drawing.segments).toHaveLength(5);
+  });
+
+  it('keeps an LWPOLYLINE as a room only when its closed flag is set or it returns to its start', () => {
+    const lwpolyline = (flag: number, points: Array<[number, number]>): Array<[number, number | string]> => [
+      [0, 'LWPOLYLINE'], [8, 'ROOMS'], [90, points.length], [70, flag], ...points.flatMap(([x, y]): Array<[number, number]> => [[10, x], [20, y]]),
+    ];
+    const closedByFlag = parseDxf(dxf([], lwpolyline(1, square)));
+    const open = parseDxf(dxf([], lwpolyline(0, square)));
+    const closedByPoint = parseDxf(dxf([], lwpolyline(0, [...square, square[0]])));
+    expect(closedByFlag.polygons).toHaveLength(1);
+    expect(closedByFlag.segments).toHaveLength(4);
+    expect(open.polygons).toHaveLength(0);
+    expect(open.segments).toHaveLength(3);
+    expect(closedByPoint.polygons[0].points).toHaveLength(4);
+  });
+
+  it('maps $INSUNITS to metres per unit and ignores unknown codes', () => {
+    const withUnits = (code: number) => parseDxf(dxf([[9, '$INSUNITS'], [70, code]], [])).metersPerUnit;
+    expect(withUnits(4)).toBe(0.001);
+    expect(withUnits(5)).toBe(0.01);
+    expect(withUnits(6)).toBe(1);
+    expect(withUnits(1)).toBe(0.0254);
+    expect(withUnits(0)).toBeUndefined();
+    expect(parseDxf(dxf([], [])).metersPerUnit).toBeUndefined();
+  });
+
+  it('decodes \\U+XXXX escapes in TEXT and MTEXT', () => {
+    const drawing = parseDxf(dxf([], [
+      [0, 'TEXT'], [8, 'LABELS'], [10, 100], [20, 200], [40, 250], [1, '\\U+5BDD\\U+5BA4'],
+      [0, 'MTEXT'], [8, 'LABELS'], [10, 100], [20, 400], [40, 200], [1, '{\\fMS Gothic;\\U+30EA\\U+30D3\\U+30F3\\U+30B0}\\P12.0'],
+    ]));
+    expect(drawing.texts).toEqual([
+      { text: '寝室', at: { x: 100, y: -200 }, height: 250 },
+      { text: 'リビング 12.0', at: { x: 100, y: -400 }, height: 200 },
+    ]);
+  });
+
+  it('requires an ENTITIES section', () => {
+    expect(() => parseDxf('0\nSECTION\n2\nHEADER\n0\nENDSEC\n0\nEOF')).toThrow('ENTITIES');
+  });
+});
@@ -0,0 +1,382 @@
+import { hasSelfIntersection, pointInPolygon, polygonArea, polygonBounds, type FloorplanPoint } from './floorplanGeometry';
+import { netWallArea } from './floorplanOpenings';
+
+/** Geometry read from a CAD file, in drawing units with y pointing down. */
+export interface VectorDrawing {
+  format: 'dxf' | 'svg';
+  /** Metres per drawing unit when the file declares its units. */
+  metersPerUnit?: number;
+  polygons: Array<{ layer: string; points: FloorplanPoint[] }>;
+  segments: Array<[FloorplanPoint, FloorplanPoint]>;
+  texts: Array<{ text: string; at: FloorplanPoint; height: number }>;
+}
+
+/** Where an imported floorplan came from; its raster has an exact, known scale. */
+export interface VectorSource {
+  kind: 'vector';
+  format: 'dxf' | 'svg';
+  fileName: string;
+  layers: string[];
+  metersPerUnit: number;
+  pixelsPerMeter: number;
+}
+
+export interface VectorRoom {
+  id: string;
+  nameJa: string;
+  nameEn: string;
+  roomType: 'kitchen' | 'living' | 'dining' | 'bathroom' | 'bedroom' | 'custom';
+  polygon: FloorplanPoint[];
+  floorAreaM2: number;
+  netWallAreaM2: number;
+  ceilingAreaM2: number;
+  roomWidthM: number;
+  roomDepthM: number;
+  perimeterM: number;
+  confidence: 'high' | 'low';
+  validationIssues: string[];
+}
+
+export const VECTOR_UNITS = [
+  { id: 'mm', metersPerUnit: 0.001, labelJa: 'ミリメートル', labelEn: 'Millimetres' },
+  { id: 'cm', metersPerUnit: 0.01, labelJa: 'センチメートル', labelEn: 'Centimetres' },
+  { id: 'm', metersPerUnit: 1, labelJa: 'メートル', labelEn: 'Metres' },
+  { id: 'in', metersPerUnit: 0.0254, labelJa: 'インチ', labelEn: 'Inches' },
+  { id: 'ft', metersPerUnit: 0.3048, labelJa: 'フィート', labelEn: 'Feet' },
+];
+
+export const MAX_VECTOR_BYTES = 20 * 1024 * 1024;
+const RASTER_EDGE_PX = 3000;
+const RASTER_MARGIN = 0.03;
+const ARC_STEPS = 24;
+/** $INSUNITS codes for the units above; anything else falls back to the user's choice. */
+const DXF_UNITS: Record<number, number> = { 1: 0.0254, 2: 0.3048, 4: 0.001, 5: 0.01, 6: 1 };
+const ROOM_LAYER_PATTERN = /room|space|area|zone|finish|室|部屋|居室|面積|仕上/i;
+const AREA_LABEL_PATTERN = /^[\d.,\s]+(㎡|m2|m²|帖|畳|j)?$/i;
+const JAPANESE_PATTERN = /[぀-ヿ㐀-鿿]/;
+
+export const isVectorFile = (file: File) => /\.(dxf|svg)$/i.test(file.name) || file.type === 'image/svg+xml';
+
+const finitePoints = (points: FloorplanPoint[]) => points.filter((point) => Number.isFinite(point.x) && Number.isFinite(point.y));
+
+const closeRing = (points: FloorplanPoint[]) => points.length > 3 && Math.hypot(points[0].x - points[points.length - 1].x, points[0].y - points[points.length - 1].y) < 1e-6 ? points.slice(0, -1) : points;
+
+const ringSegments = (points: FloorplanPoint[], closed: boolean) => points.slice(0, closed ? undefined : -1)
+  .map((point, index) => [point, points[(index + 1) % points.length]] as [FloorplanPoint, FloorplanPoint]);
+
+const arcPoints = (center: FloorplanPoint, radius: number, startDegrees: number, endDegrees: number) => {
+  const sweep = ((endDegrees - startDegrees) % 360 + 360) % 360 || 360;
+  return Array.from({ length: ARC_STEPS + 1 }, (_, step) => {
+    const angle = (startDegrees + sweep * step / ARC_STEPS) * Math.PI / 180;
+    return { x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius };
+  });
+};
+
+/** R12 files write characters outside ASCII as \U+XXXX. */
+const decodeDxfText = (text: string) => text.replace(/\\U\+([0-9A-F]{4})/gi, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)));
+
+const cleanMText = (text: string) => text
+  .replace(/\\P/g, ' ')
+  .replace(/\\[A-Za-z][^;\\{}]*;/g, '')
+  .replace(/[{}]/g, '')
+  .trim();
+
+/**
+ * Reads the entities of an ASCII DXF: closed LWPOLYLINE and POLYLINE
+ * entities become room candidates on their layer, LINE, ARC, CIRCLE, and
+ * open polylines are kept for the drawing, and TEXT and MTEXT become labels.
+ * Blocks (INSERT) are not expanded. DXF y points up, so it is flipped here.
+ */
+export const parseDxf = (source: string): VectorDrawing => {
+  const lines = source.split(/\r?\n/);
+  const pairs: Array<{ code: number; value: string }> = [];
+  for (let index = 0; index + 1 < lines.length; index += 2) pairs.push({ code: Number(lines[index].trim()), value: lines[index + 1].trim() });
+  const drawing: VectorDrawing = { format: 'dxf', polygons: [], segments: [], texts: [] };
+  const unitsIndex = pairs.findIndex((pair) => pair.code === 9 && pair.value === '$INSUNITS');
+  if (unitsIndex >= 0) drawing.metersPerUnit = DXF_UNITS[Number(pairs[unitsIndex + 1]?.value)];
+
+  const entitiesStart = pairs.findIndex((pair, index) => pair.code === 2 && pair.value === 'ENTITIES' && pairs[index - 1]?.value === 'SECTION');
+  if (entitiesStart < 0) throw new Error('The DXF file has no ENTITIES section.');
+  const entities: Array<{ type: string; pairs: Array<{ code: number; value: string }> }> = [];
+  for (const pair of pairs.slice(entitiesStart + 1)) {
+    if (pair.code === 0 && pair.value === 'ENDSEC') break;
+    if (pair.code === 0) entities.push({ type: pair.value, pairs: [] });
+    else entities[entities.length - 1]?.pairs.push(pair);
+  }
+
+  const addOutline = (layer: string, points: FloorplanPoint[], closed: boolean) => {
+    const ring = closeRing(finitePoints(points));
+    const isClosed = closed || ring.length < finitePoints(points).length;
+    drawing.segments.push(...ringSegments(ring, isClosed));
+    if (isClosed && ring.length >= 3) drawing.polygons.push({ layer, points: ring });
+  };
+  let polyline: { layer: string; closed: boolean; points: FloorplanPoint[] } | undefined;
+  entities.forEach(({ type, pairs: entityPairs }) => {
+    const value = (code: number) => entityPairs.find((pair) => pair.code === code)?.value;
+    const number = (code: number) => Number(value(code)) || 0;
+    const layer = value(8) || '0';
+    const point = (xCode: number, yCode: number) => ({ x: number(xCode), y: -number(yCode) });
+    if (type === 'LWPOLYLINE') {
+      const xs = entityPairs.filter((pair) => pair.code === 10).map((pair) => Number(pair.value));
+      const ys = entityPairs.filter((pair) => pair.code === 20).map((pair) => -Number(pair.value));
+      addOutline(layer, xs.map((x, index) => ({ x, y: ys[index] ?? 0 })), (number(70) & 1) === 1);
+    } else if (type === 'POLYLINE') {
+      polyline = { layer, closed: (number(70) & 1) === 1, points: [] };
+    } else if (type === 'VERTEX' && polyline) {
+      polyline.points.push(point(10, 20));
+    } else if (type === 'SEQEND' && polyline) {
+      addOutline(polyline.layer, polyline.points, polyline.closed);
+      polyline = undefined;
+    } else if (type === 'LINE') {
+      drawing.segments.push([point(10, 20), point(11, 21)]);
+    } else if (type === 'CIRCLE' || type === 'ARC') {
+      // Angles run counter-clockwise in DXF; with y flipped they run clockwise, so negate and swap them.
+      const points = type === 'CIRCLE' ? arcPoints(point(10, 20), number(40), 0, 360) : arcPoints(point(10, 20), number(40), -number(51), -number(50));
+      drawing.segments.push(...ringSegments(points, false));
+    } else if (type === 'TEXT' || type === 'MTEXT') {
+      const raw = decodeDxfText([...entityPairs.filter((pair) => pair.code === 3).map((pair) => pair.value), value(1) || ''].join(''));
+      const text = type === 'MTEXT' ? cleanMText(raw) : raw.trim();
+      if (text) drawing.texts.push({ text, at: point(10, 20), height: number(40) || 1 });
+    }
+  });
+  return drawing;
+};
+
+type Matrix = [number, number, number, number, number, number];
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1], m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3], m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4], m[1] * n[4] + m[3] * n[5] + m[5],
+];
+const applyMatrix = (m: Matrix, point: FloorplanPoint) => ({ x: m[0] * point.x + m[2] * point.y + m[4], y: m[1] * point.x + m[3] * point.y + m[5] });
+
+const parseTransform = (value: string | null) => [...(value || '').matchAll(/(matrix|translate|scale|rotate)\s*\(([^)]*)\)/g)].reduce<Matrix>((matrix, [, kind, args]) => {
+  const [a = 0, b, c, d, e, f] = args.split(/[\s,]+/).filter(Boolean).map(Number);
+  if (kind === 'matrix') return multiply(matrix, [a, b ?? 0, c ?? 0, d ?? 0, e ?? 0, f ?? 0]);
+  if (kind === 'translate') return multiply(matrix, [1, 0, 0, 1, a, b ?? 0]);
+  if (kind === 'scale') return multiply(matrix, [a, 0, 0, b ?? a, 0, 0]);
+  const radians = a * Math.PI / 180;
+  const rotation: Matrix = [Math.cos(radians), Math.sin(radians), -Math.sin(radians), Math.cos(radians), 0, 0];
+  return b === undefined ? multiply(matrix, rotation) : multiply(multiply(multiply(matrix, [1, 0, 0, 1, b, c ?? 0]), rotation), [1, 0, 0, 1, -b, -(c ?? 0)]);
+}, IDENTITY);
+
+/** Straight-segment paths only (M, L, H, V, Z in either case); each subpath is returned with whether it was closed. */
+const parsePath = (d: string) => {
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/g) || [];
+  if (tokens.some((token) => /^[a-zA-Z]$/.test(token) && !/[MLHVZ]/i.test(token))) return [];
+  const subpaths: Array<{ points: FloorplanPoint[]; closed: boolean }> = [];
+  let command = 'M';
+  let current = { x: 0, y: 0 };
+  let index = 0;
+  while (index < tokens.length) {
+    const start = index;
+    if (/^[a-zA-Z]$/.test(tokens[index])) command = tokens[index++];
+    const relative = command === command.toLowerCase();
+    const upper = command.toUpperCase();
+    if (upper === 'Z') {
+      if (subpaths.length) {
+        subpaths[subpaths.length - 1].closed = true;
+        current = subpaths[subpaths.length - 1].points[0];
+      }
+      if (index === start) index += 1;
+      continue;
+    }
+    const read = () => Number(tokens[index++]);
+    if (upper === 'M' || upper === 'L') {
+      const x = read();
+      const y = read();
+      current = relative ? { x: current.x + x, y: current.y + y } : { x, y };
+      if (upper === 'M') {
+        subpaths.push({ points: [current], closed: false });
+        command = relative ? 'l' : 'L';
+      } else subpaths[subpaths.length - 1]?.points.push(current);
+    } else if (upper === 'H') {
+      const x = read();
+      current = { x: relative ? current.x + x : x, y: current.y };
+      subpaths[subpaths.length - 1]?.points.push(current);
+    } else if (upper === 'V') {
+      const y = read();
+      current = { x: current.x, y: relative ? current.y + y : y };
+      subpaths[subpaths.length - 1]?.points.push(current);
+    }
+    // A stray number after Z would otherwise never be consumed.
+    if (index === start) index += 1;
+  }
+  return subpaths;
+};
+
+/**
+ * Reads rect, polygon, closed polyline and straight closed path elements as
+ * room candidates, line and open shapes for the drawing, and text elements
+ * as labels. The layer is the label or id of the nearest enclosing group.
+ * Curved path commands are not supported and such paths are skipped.
+ */
+export const parseSvg = (source: string): VectorDrawing => {
+  const parsed = new DOMParser().parseFromString(source, 'image/svg+xml');
+  const root = parsed.documentElement;
+  if (root.nodeName.toLowerCase() !== 'svg' || parsed.querySelector('parsererror')) throw new Error('The SVG file could not be parsed.');
+  const drawing: VectorDrawing = { format: 'svg', polygons: [], segments: [], texts: [] };
+  const transformOf = (element: Element) => {
+    const chain: Element[] = [];
+    for (let node: Element | null = element; node && node !== root.parentElement; node = node.parentElement) chain.unshift(node);
+    return chain.reduce((matrix, node) => multiply(matrix, parseTransform(node.getAttribute('transform'))), IDENTITY);
+  };
+  const layerOf = (element: Element) => {
+    for (let node = element.parentElement; node && node !== root; node = node.parentElement) {
+      const name = node.nodeName.toLowerCase() === 'g' && (node.getAttribute('inkscape:label') || node.getAttribute('id'));
+      if (name) return name;
+    }
+    return 'default';
+  };
+  const number = (element: Element, name: string) => Number.parseFloat(element.getAttribute(name) || '0') || 0;
+  const addOutline = (element: Element, points: FloorplanPoint[], closed: boolean) => {
+    const matrix = transformOf(element);
+    const transformed = finitePoints(points.map((point) => applyMatrix(matrix, point)));
+    const ring = closeRing(transformed);
+    const isClosed = closed || ring.length < transformed.length;
+    drawing.segments.push(...ringSegments(ring, isClosed));
+    if (isClosed && ring.length >= 3) drawing.polygons.push({ layer: layerOf(element), points: ring });
+  };
+  const pointList = (value: string | null) => {
+    const numbers = (value || '').split(/[\s,]+/).filter(Boolean).map(Number);
+    return Array.from({ length: Math.floor(numbers.length / 2) }, (_, index) => ({ x: numbers[index * 2], y: numbers[index * 2 + 1] }));
+  };
+
+  root.querySelectorAll('rect, polygon, polyline, path, line, text').forEach((element) => {
+    if (element.closest('defs, clipPath, mask, symbol')) return;
+    const tag = element.nodeName.toLowerCase();
+    if (tag === 'rect') {
+      const x = number(element, 'x');
+      const y = number(element, 'y');
+      const width = number(element, 'width');
+      const height = number(element, 'height');
+      if (width > 0 && height > 0) addOutline(element, [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }], true);
+    } else if (tag === 'polygon' || tag === 'polyline') {
+      addOutline(element, pointList(element.getAttribute('points')), tag === 'polygon');
+    } else if (tag === 'path') {
+      parsePath(element.getAttribute('d') || '').forEach((subpath) => addOutline(element, subpath.points, subpath.closed));
+    } else if (tag === 'line') {
+      const matrix = transformOf(element);
+      drawing.segments.push([applyMatrix(matrix, { x: number(element, 'x1'), y: number(element, 'y1') }), applyMatrix(matrix, { x: number(element, 'x2'), y: number(element, 'y2') })]);
+    } else {
+      const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+      const matrix = transformOf(element);
+      if (text) drawing.texts.push({ text, at: applyMatrix(matrix, { x: number(element, 'x'), y: number(element, 'y') }), height: (number(element, 'font-size') || 12) * Math.hypot(matrix[0], matrix[1]) });
+    }
+  });
+  return drawing;
+};
+
+/** Layers with closed outlines, most likely room layers first. */
+export const vectorRoomLayers = (drawing: VectorDrawing) => {
+  const counts = drawing.polygons.reduce<Record<string, number>>((result, polygon) => ({ ...result, [polygon.layer]: (result[polygon.layer] || 0) + 1 }), {});
+  return Object.entries(counts)
+    .map(([layer, count]) => ({ layer, count, likelyRooms: ROOM_LAYER_PATTERN.test(layer) }))
+    .sort((a, b) => Number(b.likelyRooms) - Number(a.likelyRooms) || b.count - a.count);
+};
+
+const roomTypeOf = (name: string): VectorRoom['roomType'] => {
+  if (/LDK|living|リビング|居間/i.test(name)) return 'living';
+  if (/dining|ダイニング|食堂/i.test(name)) return 'dining';
+  if (/kitchen|キッチン|台所/i.test(name)) return 'kitchen';
+  if (/bath|toilet|\bwc\b|powder|浴室|洗面|トイレ|便所/i.test(name)) return 'bathroom';
+  if (/bed|寝室|洋室|和室|子供室/i.test(name)) return 'bedroom';
+  return 'custom';
+};
+
+const ROOM_TYPE_NAMES: Record<VectorRoom['roomType'], { ja: string; en: string }> = {
+  kitchen: { ja: 'キッチン', en: 'Kitchen' },
+  living: { ja: 'リビング', en: 'Living room' },
+  dining: { ja: 'ダイニング', en: 'Dining room' },
+  bathroom: { ja: '浴室・洗面', en: 'Bathroom' },
+  bedroom: { ja: '寝室', en: 'Bedroom' },
+  custom: { ja: '室', en: 'Room' },
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Turns the outlines on the chosen layers into rooms measured in metres and
+ * draws the whole drawing into a white PNG with its longer edge at
+ * RASTER_EDGE_PX. Outlines that enclose two or more other outlines are taken
+ * to be the building envelope and dropped. The largest label inside each
+ * outline that is not an area figure names the room.
+ */
+export const buildVectorFloorplan = async (drawing: VectorDrawing, layers: string[], metersPerUnit: number, fileName: string) => {
+  const candidates = drawing.polygons.filter((polygon) => layers.includes(polygon.layer));
+  const outlines = candidates.filter((polygon) => candidates.filter((other) => other !== polygon && other.points.every((point) => pointInPolygon(point, polygon.points))).length < 2);
+  if (!outlines.length) throw new Error('No closed room outlines were found on the chosen layers.');
+
+  const { minX, maxX, minY, maxY } = polygonBounds([...drawing.segments.flat(), ...outlines.flatMap((polygon) => polygon.points)]);
+  const extent = Math.max(maxX - minX, maxY - minY) || 1;
+  const margin = extent * RASTER_MARGIN;
+  const pixelsPerUnit = RASTER_EDGE_PX / (extent + margin * 2);
+  const width = Math.max(1, Math.ceil((maxX - minX + margin * 2) * pixelsPerUnit));
+  const height = Math.max(1, Math.ceil((maxY - minY + margin * 2) * pixelsPerUnit));
+  const toPixel = (point: FloorplanPoint) => ({ x: (point.x - minX + margin) * pixelsPerUnit, y: (point.y - minY + margin) * pixelsPerUnit });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas rendering is unavailable in this browser.');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.strokeStyle = '#000000';
+  context.lineWidth = Math.max(1.5, width / 1500);
+  context.beginPath();
+  drawing.segments.forEach(([start, end]) => {
+    const from = toPixel(start);
+    const to = toPixel(end);
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+  });
+  context.stroke();
+  context.fillStyle = '#000000';
+  context.textAlign = 'left';
+  context.textBaseline = 'alphabetic';
+  drawing.texts.forEach((label) => {
+    const at = toPixel(label.at);
+    context.font = `${Math.max(8, label.height * pixelsPerUnit)}px sans-serif`;
+    context.fillText(label.text, at.x, at.y);
+  });
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('The drawing could not be rendered.');
+
+  const rooms: VectorRoom[] = outlines.map((outline, index) => {
+    const label = drawing.texts
+      .filter((text) => pointInPolygon(text.at, outline.points) && !AREA_LABEL_PATTERN.test(text.text))
+      .sort((a, b) => b.height - a.height)[0]?.text.slice(0, 80);
+    const roomType = roomTypeOf(label || '');
+    const fallback = ROOM_TYPE_NAMES[roomType];
+    const bounds = polygonBounds(outline.points);
+    const floorAreaM2 = round(polygonArea(outline.points) * metersPerUnit ** 2);
+    const perimeterM = outline.points.reduce((sum, point, pointIndex) => {
+      const next = outline.points[(pointIndex + 1) % outline.points.length];
+      return sum + Math.hypot(next.x - point.x, next.y - point.y);
+    }, 0) * metersPerUnit;
+    const validationIssues = hasSelfIntersection(outline.points) ? ['Room polygon self-intersects.'] : [];
+    return {
+      id: `cad-room-${index + 1}`,
+      nameJa: label || `${fallback.ja} ${index + 1}`,
+      nameEn: label && !JAPANESE_PATTERN.test(label) ? label : `${fallback.en} ${index + 1}`,
+      roomType,
+      polygon: outline.points.map((point) => {
+        const pixel = toPixel(point);
+        return { x: Math.round(pixel.x / width * 10000) / 100, y: Math.round(pixel.y / height * 10000) / 100 };
+      }),
+      floorAreaM2,
+      ceilingAreaM2: floorAreaM2,
+      perimeterM: round(perimeterM),
+      netWallAreaM2: netWallArea(`cad-room-${index + 1}`, perimeterM, []),
+      roomWidthM: round((bounds.maxX - bounds.minX) * metersPerUnit),
+      roomDepthM: round((bounds.maxY - bounds.minY) * metersPerUnit),
+      confidence: validationIssues.length ? 'low' : 'high',
+      validationIssues,
+    };
+  });
+
+  const source: VectorSource = { kind: 'vector', format: drawing.format, fileName, layers, metersPerUnit, pixelsPerMeter: pixelsPerUnit / metersPerUnit };
+  return { image: new File([blob], `${fileName.replace(/\.(dxf|svg)$/i, '')}.png`, { type: 'image/png' }), rooms, source };
+};
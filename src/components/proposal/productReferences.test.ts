@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SINGLE_IMAGE_LENGTH } from './downscaleImage';
+import { referenceBudget } from './productReferences';
+
+describe('referenceBudget', () => {
+  it('allows four full-size reference photos beside a small source', () => {
+    expect(referenceBudget(400_000)).toEqual({ count: 4, maxLength: 280_000 });
+  });
+
+  it('shrinks the photos to fit beside a full-size source and masks', () => {
+    const { count, maxLength } = referenceBudget(MAX_SINGLE_IMAGE_LENGTH + 600_000);
+    expect(count).toBe(4);
+    expect(maxLength).toBeLessThan(280_000);
+    expect(MAX_SINGLE_IMAGE_LENGTH + 600_000 + count * maxLength).toBeLessThanOrEqual(4_300_000);
+  });
+
+  it('sends fewer photos, then none, as the other images grow', () => {
+    expect(referenceBudget(4_150_000)).toEqual({ count: 2, maxLength: 75_000 });
+    expect(referenceBudget(4_280_000)).toEqual({ count: 0, maxLength: 0 });
+  });
+});
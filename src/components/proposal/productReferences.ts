@@ -0,0 +1,55 @@
+import { SLOT_DEFINITIONS, type CatalogItem, type CatalogReferenceImage } from './catalog';
+import { prepareImage } from './downscaleImage';
+
+const MAX_REFERENCES = 4;
+const MAX_REFERENCE_LENGTH = 280_000;
+const MIN_REFERENCE_LENGTH = 60_000;
+// Vercel rejects request bodies over 4.5 MB; the rest covers the schedule and JSON framing.
+const REQUEST_BODY_BUDGET = 4_300_000;
+
+export interface ProductReferencePayload {
+  label: string;
+  role: CatalogReferenceImage['role'];
+  image: string;
+}
+
+const referenceLabel = (item: CatalogItem) => {
+  const slot = SLOT_DEFINITIONS.find((definition) => definition.id === item.slot);
+  return `${slot ? slot.labelEn : item.section}: ${item.nameEn} — ${item.colorEn}`;
+};
+
+/** Swatch background that shows the first reference photo when an item has one. */
+export const swatchBackground = (item: CatalogItem) => item.referenceImages?.length
+  ? `${item.swatch} center / cover no-repeat url("${item.referenceImages[0].src}")`
+  : item.swatch;
+
+/**
+ * How many reference photos fit beside `reservedLength` characters of source
+ * image and masks, and the longest each may be. A full-size source leaves room
+ * for fewer or smaller photos; none are sent when even one small one won't fit.
+ */
+export const referenceBudget = (reservedLength: number) => {
+  const available = REQUEST_BODY_BUDGET - reservedLength;
+  const count = Math.max(0, Math.min(MAX_REFERENCES, Math.floor(available / MIN_REFERENCE_LENGTH)));
+  return { count, maxLength: count ? Math.min(MAX_REFERENCE_LENGTH, Math.floor(available / count)) : 0 };
+};
+
+/**
+ * Loads and downsizes the reference photos of the given items for a render
+ * request, in item order, within what `referenceBudget` allows beside the
+ * other images of the request. Photos that fail to load or fit are skipped.
+ */
+export const productReferencePayload = async (items: CatalogItem[], reservedLength = 0) => {
+  const { count, maxLength } = referenceBudget(reservedLength);
+  const unique = items.filter((item, index) => items.findIndex((candidate) => candidate.id === item.id) === index);
+  const photos = unique.flatMap((item) => (item.referenceImages || []).map((image) => ({ item, image }))).slice(0, count);
+  const loaded = await Promise.all(photos.map(async ({ item, image }): Promise<ProductReferencePayload[]> => {
+    try {
+      const prepared = await prepareImage(image.src, { maxEdge: 640, jpegQuality: 0.85, maxLength });
+      return prepared.length <= maxLength ? [{ label: referenceLabel(item), role: image.role, image: prepared }] : [];
+    } catch {
+      return [];
+    }
+  }));
+  return loaded.flat();
+};
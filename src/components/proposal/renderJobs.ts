@@ -0,0 +1,98 @@
+import { readJsonResponse } from './downscaleImage';
+
+export type RenderJobKind = 'interior-preview' | 'interior-refinement' | 'floorplan-color-render';
+
+export interface RenderJob {
+  id: string;
+  kind: RenderJobKind;
+  status: 'running' | 'succeeded' | 'failed' | 'cancelled';
+  progress: number;
+  result?: any;
+  error?: string;
+}
+
+interface ActiveRenderJob {
+  jobId: string;
+  /** Where the result belongs, e.g. the room id for an interior preview. */
+  target?: string;
+}
+
+const ACTIVE_JOBS_STORAGE_KEY = 'archix-render-jobs-v1';
+const POLL_INTERVAL_MS = 2000;
+
+const readActiveJobs = (): Partial<Record<RenderJobKind, ActiveRenderJob>> => {
+  try {
+    return JSON.parse(localStorage.getItem(ACTIVE_JOBS_STORAGE_KEY) || '{}') || {};
+  } catch {
+    return {};
+  }
+};
+
+const writeActiveJobs = (jobs: Partial<Record<RenderJobKind, ActiveRenderJob>>) => {
+  try {
+    localStorage.setItem(ACTIVE_JOBS_STORAGE_KEY, JSON.stringify(jobs));
+  } catch {
+    // Without storage the render still completes; it just cannot be resumed after a reload.
+  }
+};
+
+/** The in-flight job of this kind from an earlier page load, if any. */
+export const activeRenderJob = (kind: RenderJobKind) => {
+  const job = readActiveJobs()[kind];
+  return typeof job?.jobId === 'string' ? job : undefined;
+};
+
+export const forgetRenderJob = (kind: RenderJobKind, jobId: string) => {
+  const jobs = readActiveJobs();
+  if (jobs[kind]?.jobId !== jobId) return;
+  delete jobs[kind];
+  writeActiveJobs(jobs);
+};
+
+export const startRenderJob = async (kind: RenderJobKind, input: unknown, target?: string): Promise<RenderJob> => {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ kind, input }),
+  });
+  const payload = await readJsonResponse(response);
+  if (!response.ok || !payload.job) throw new Error(payload.error || 'The render job could not be started.');
+  // A server without background jobs answers with the job already finished; there is nothing to reconnect to.
+  if (payload.job.status === 'running') writeActiveJobs({ ...readActiveJobs(), [kind]: { jobId: payload.job.id, target } });
+  return payload.job;
+};
+
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timeout = window.setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    window.clearTimeout(timeout);
+    reject(new DOMException('Polling stopped.', 'AbortError'));
+  }, { once: true });
+});
+
+/**
+ * Polls a job until it finishes and resolves with its result. Aborting the
+ * signal only stops polling; the job keeps running on the server.
+ */
+export const waitForRenderJob = async (job: RenderJob, signal: AbortSignal, onProgress: (progress: number) => void) => {
+  let current = job;
+  while (current.status === 'running') {
+    onProgress(current.progress);
+    await wait(POLL_INTERVAL_MS, signal);
+    const response = await fetch(`/api/jobs/${encodeURIComponent(current.id)}`, { signal });
+    const payload = await readJsonResponse(response);
+    if (response.status === 404) forgetRenderJob(job.kind, job.id);
+    if (!response.ok || !payload.job) throw new Error(payload.error || 'The render job status is unavailable.');
+    current = payload.job;
+  }
+  forgetRenderJob(job.kind, job.id);
+  if (current.status !== 'succeeded') throw new Error(current.error || 'The render did not complete.');
+  return current.result;
+};
+
+export const cancelRenderJob = async (kind: RenderJobKind, jobId: string) => {
+  forgetRenderJob(kind, jobId);
+  await fetch(`/api/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' }).catch(() => undefined);
+};
+
+export const isPollingStopped = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
@@ -0,0 +1,108 @@
+import type { SelectionSlot } from './catalog';
+
+/** Coordinates are fractions of the photo width and height. */
+export interface MaskPoint { x: number; y: number }
+
+export type MaskShape =
+  | { kind: 'polygon'; points: MaskPoint[] }
+  /** `radius` is a fraction of the photo width; erase strokes remove earlier shapes of the same mask. */
+  | { kind: 'stroke'; points: MaskPoint[]; radius: number; erase?: boolean };
+
+export interface SurfaceMask {
+  slot: SelectionSlot;
+  shapes: MaskShape[];
+}
+
+const MASK_MAX_EDGE = 1024;
+
+const loadImage = (source: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('The image could not be decoded.'));
+  image.src = source;
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas rendering is unavailable in this browser.');
+  return { canvas, context };
+};
+
+export const maskHasArea = (mask: SurfaceMask) => mask.shapes.some((shape) => shape.kind === 'polygon'
+  ? shape.points.length >= 3
+  : !shape.erase && shape.points.length > 0);
+
+/** The mask's region painted white on a transparent canvas. */
+const drawMaskLayer = (mask: SurfaceMask, width: number, height: number) => {
+  const { canvas, context } = createCanvas(width, height);
+  context.fillStyle = '#ffffff';
+  context.strokeStyle = '#ffffff';
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+  mask.shapes.forEach((shape) => {
+    if (!shape.points.length) return;
+    context.globalCompositeOperation = shape.kind === 'stroke' && shape.erase ? 'destination-out' : 'source-over';
+    context.beginPath();
+    shape.points.forEach((point, index) => {
+      if (index === 0) context.moveTo(point.x * width, point.y * height);
+      else context.lineTo(point.x * width, point.y * height);
+    });
+    if (shape.kind === 'polygon') {
+      if (shape.points.length < 3) return;
+      context.closePath();
+      context.fill();
+      return;
+    }
+    const radius = shape.radius * width;
+    if (shape.points.length === 1) {
+      context.arc(shape.points[0].x * width, shape.points[0].y * height, radius, 0, Math.PI * 2);
+      context.fill();
+      return;
+    }
+    context.lineWidth = radius * 2;
+    context.stroke();
+  });
+  return canvas;
+};
+
+/**
+ * Rasterizes each mask as a PNG matching the photo's framing: white where the
+ * slot may change, black everywhere else. Masks are capped at 1024 px on the
+ * long edge because the model only needs the regions, not pixel detail.
+ */
+export const rasterizeMasks = async (masks: SurfaceMask[], photoUrl: string) => {
+  const photo = await loadImage(photoUrl);
+  const scale = Math.min(1, MASK_MAX_EDGE / Math.max(photo.naturalWidth, photo.naturalHeight));
+  const width = Math.max(1, Math.round(photo.naturalWidth * scale));
+  const height = Math.max(1, Math.round(photo.naturalHeight * scale));
+  return masks.filter(maskHasArea).map((mask) => {
+    const { canvas, context } = createCanvas(width, height);
+    context.fillStyle = '#000000';
+    context.fillRect(0, 0, width, height);
+    context.drawImage(drawMaskLayer(mask, width, height), 0, 0);
+    return { slot: mask.slot, image: canvas.toDataURL('image/png') };
+  });
+};
+
+/**
+ * Keeps the rendered pixels inside the union of the masks and restores the
+ * original photo everywhere else, so unmasked architecture cannot drift.
+ */
+export const compositeWithinMasks = async (originalUrl: string, renderedUrl: string, masks: SurfaceMask[]) => {
+  const [original, rendered] = await Promise.all([loadImage(originalUrl), loadImage(renderedUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+  const region = createCanvas(width, height);
+  masks.filter(maskHasArea).forEach((mask) => region.context.drawImage(drawMaskLayer(mask, width, height), 0, 0));
+  const edited = createCanvas(width, height);
+  edited.context.drawImage(rendered, 0, 0, width, height);
+  edited.context.globalCompositeOperation = 'destination-in';
+  edited.context.drawImage(region.canvas, 0, 0);
+  const output = createCanvas(width, height);
+  output.context.drawImage(original, 0, 0);
+  output.context.drawImage(edited.canvas, 0, 0);
+  return output.canvas.toDataURL('image/jpeg', 0.92);
+};
@@ -0,0 +1,56 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { withResultCache } from './cache';
+import { createMockProvider } from './mock';
+import type { VisionJsonRequest } from './types';
+
+const request: VisionJsonRequest = {
+  task: 'verify-interior-preview',
+  prompt: 'Compare the images.',
+  images: [{ mimeType: 'image/png', data: 'aW1hZ2U=' }],
+  responseSchema: {},
+  temperature: 0,
+  timeoutMs: 1_000,
+};
+
+describe('withResultCache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'ai-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const cachedMock = (ttlMs = 60_000) => {
+    const provider = createMockProvider();
+    const generateJson = vi.spyOn(provider, 'generateJson');
+    return { generateJson, cached: withResultCache(provider, { directory, ttlMs }) };
+  };
+
+  it('serves an identical request from the cache', async () => {
+    const { generateJson, cached } = cachedMock();
+    const first = await cached.generateJson(request);
+    expect(await cached.generateJson({ ...request })).toBe(first);
+    expect(generateJson).toHaveBeenCalledTimes(1);
+  });
+
+  it('calls the model again for a different temperature or a forced regeneration', async () => {
+    const { generateJson, cached } = cachedMock();
+    await cached.generateJson(request);
+    await cached.generateJson({ ...request, temperature: 0.4 });
+    await cached.generateJson({ ...request, forceRegenerate: true });
+    expect(generateJson).toHaveBeenCalledTimes(3);
+  });
+
+  it('ignores expired entries', async () => {
+    const { generateJson, cached } = cachedMock(0);
+    await cached.generateJson(request);
+    await cached.generateJson(request);
+    expect(generateJson).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,88 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { imageHashes, sha256 } from './hash';
+import type { AiProvider, AiTask, ImageEditResult, ImageEditRequest, VisionJsonRequest } from './types';
+
+interface CacheOptions {
+  directory: string;
+  ttlMs: number;
+}
+
+type CachedResponse = { kind: 'json'; text: string } | { kind: 'image'; result: ImageEditResult };
+
+interface CacheEntry {
+  key: string;
+  task: AiTask;
+  promptVersion?: string;
+  model: string;
+  createdAt: string;
+  response: CachedResponse;
+}
+
+/**
+ * Routes build the prompt from the clamped and trimmed request body, so the
+ * prompt text stands in for the normalized body. Schema and temperature are
+ * included for JSON calls because they change what the model returns.
+ */
+const resultCacheKey = (providerId: string, model: string, request: VisionJsonRequest | ImageEditRequest) => sha256(JSON.stringify({
+  provider: providerId,
+  model,
+  task: request.task,
+  promptVersion: request.promptVersion || '',
+  prompt: request.prompt,
+  images: imageHashes(request.images).map((image) => image.sha256),
+  responseSchema: 'responseSchema' in request ? request.responseSchema : undefined,
+  temperature: 'temperature' in request ? request.temperature : undefined,
+  variant: 'variant' in request ? request.variant || 0 : undefined,
+}));
+
+/**
+ * Serves identical model calls from a local file cache until they expire.
+ * Only successful results are stored, and cache I/O failures never fail the
+ * request—the model is simply called as if the cache were empty.
+ */
+export const withResultCache = (provider: AiProvider, { directory, ttlMs }: CacheOptions): AiProvider => {
+  const entryPath = (task: AiTask, key: string) => path.join(directory, task, `${key}.json`);
+
+  const read = async (task: AiTask, key: string) => {
+    try {
+      const entry = JSON.parse(await readFile(entryPath(task, key), 'utf8')) as CacheEntry;
+      return Date.now() - Date.parse(entry.createdAt) < ttlMs ? entry.response : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  const write = async (request: VisionJsonRequest | ImageEditRequest, key: string, model: string, response: CachedResponse) => {
+    const entry: CacheEntry = { key, task: request.task, promptVersion: request.promptVersion, model, createdAt: new Date().toISOString(), response };
+    const target = entryPath(request.task, key);
+    try {
+      await mkdir(path.dirname(target), { recursive: true });
+      // Write then rename so a concurrent reader never sees a partial entry.
+      await writeFile(`${target}.tmp`, JSON.stringify(entry));
+      await rename(`${target}.tmp`, target);
+    } catch {
+      // A read-only or full disk only costs the cache hit.
+    }
+  };
+
+  return {
+    ...provider,
+    generateJson: async (request) => {
+      const key = resultCacheKey(provider.id, provider.visionModel, request);
+      const cached = request.forceRegenerate ? undefined : await read(request.task, key);
+      if (cached?.kind === 'json') return cached.text;
+      const text = await provider.generateJson(request);
+      if (text) await write(request, key, provider.visionModel, { kind: 'json', text });
+      return text;
+    },
+    editImage: async (request) => {
+      const key = resultCacheKey(provider.id, provider.imageModel, request);
+      const cached = request.forceRegenerate ? undefined : await read(request.task, key);
+      if (cached?.kind === 'image') return cached.result;
+      const result = await provider.editImage(request);
+      if (result.image) await write(request, key, provider.imageModel, { kind: 'image', result });
+      return result;
+    },
+  };
+};
@@ -0,0 +1,74 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { cassetteKey, createCassetteReplayProvider, withCassetteRecording } from './cassette';
+import { createMockProvider } from './mock';
+import { AiProviderError, type AiProvider, type VisionJsonRequest } from './types';
+
+const image = { mimeType: 'image/png', data: 'aW1hZ2U=' };
+const jsonRequest: VisionJsonRequest = {
+  task: 'analyze-floorplan',
+  promptVersion: 'v1',
+  prompt: 'Trace the rooms.',
+  images: [image],
+  responseSchema: {},
+  temperature: 0,
+  timeoutMs: 1_000,
+};
+
+describe('cassetteKey', () => {
+  it('ignores call options that do not change the request', () => {
+    expect(cassetteKey(jsonRequest)).toBe(cassetteKey({ ...jsonRequest }));
+  });
+
+  it('changes with the prompt, prompt version, and image bytes', () => {
+    const key = cassetteKey(jsonRequest);
+    expect(cassetteKey({ ...jsonRequest, prompt: 'Trace the walls.' })).not.toBe(key);
+    expect(cassetteKey({ ...jsonRequest, promptVersion: 'v2' })).not.toBe(key);
+    expect(cassetteKey({ ...jsonRequest, images: [{ ...image, data: 'b3RoZXI=' }] })).not.toBe(key);
+  });
+
+  it('keeps the first variant compatible with cassettes recorded before variants', () => {
+    expect(cassetteKey({ ...jsonRequest, variant: 0 })).toBe(cassetteKey(jsonRequest));
+    expect(cassetteKey({ ...jsonRequest, variant: 1 })).not.toBe(cassetteKey(jsonRequest));
+  });
+});
+
+describe('cassette record and replay', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'cassettes-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('replays recorded JSON and image results without the recorded provider', async () => {
+    const recorder = withCassetteRecording(createMockProvider(), directory);
+    const text = await recorder.generateJson(jsonRequest);
+    const edit = await recorder.editImage({ task: 'generate-interior-preview', prompt: 'Render it.', images: [image], timeoutMs: 1_000 });
+
+    const replay = createCassetteReplayProvider(directory, 'mock-vision', 'mock-image');
+    expect(await replay.generateJson(jsonRequest)).toBe(text);
+    expect(await replay.editImage({ task: 'generate-interior-preview', prompt: 'Render it.', images: [image], timeoutMs: 1_000 })).toEqual(edit);
+  });
+
+  it('replays a recorded provider error with its status', async () => {
+    const failing: AiProvider = {
+      ...createMockProvider(),
+      generateJson: async () => { throw new AiProviderError('Upstream timed out.', 504); },
+    };
+    await expect(withCassetteRecording(failing, directory).generateJson(jsonRequest)).rejects.toThrow('Upstream timed out.');
+
+    const replay = createCassetteReplayProvider(directory, 'mock-vision', 'mock-image');
+    await expect(replay.generateJson(jsonRequest)).rejects.toMatchObject({ status: 504, message: 'Upstream timed out.' });
+  });
+
+  it('answers an unrecorded request with a 404', async () => {
+    const replay = createCassetteReplayProvider(directory, 'mock-vision', 'mock-image');
+    await expect(replay.generateJson(jsonRequest)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,111 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { imageHashes, sha256 } from './hash';
+import { AiProviderError, type AiProvider, type AiTask, type ImageEditResult, type InlineImage } from './types';
+
+export type CassetteMode = 'record' | 'replay';
+
+interface CassetteRequest {
+  task: AiTask;
+  promptVersion?: string;
+  prompt: string;
+  images: InlineImage[];
+  variant?: number;
+}
+
+type CassetteResponse =
+  | { kind: 'json'; text: string }
+  | { kind: 'image'; result: ImageEditResult }
+  | { kind: 'error'; message: string; status: number };
+
+interface Cassette {
+  key: string;
+  task: AiTask;
+  promptVersion?: string;
+  model: string;
+  prompt: string;
+  images: Array<{ mimeType: string; sha256: string }>;
+  recordedAt: string;
+  response: CassetteResponse;
+}
+
+/** Requests match when the task, prompt version, full prompt text, image bytes, and variant are identical. */
+export const cassetteKey = ({ task, promptVersion, prompt, images, variant }: CassetteRequest) => sha256(JSON.stringify({
+  task,
+  promptVersion: promptVersion || '',
+  prompt,
+  images: imageHashes(images).map((image) => image.sha256),
+  // Omitted for the first variant so cassettes recorded before variants existed still match.
+  ...(variant ? { variant } : {}),
+}));
+
+const cassettePath = (directory: string, task: AiTask, key: string) => path.join(directory, task, `${key}.json`);
+
+const readCassette = async (directory: string, request: CassetteRequest) => {
+  const key = cassetteKey(request);
+  try {
+    return JSON.parse(await readFile(cassettePath(directory, request.task, key), 'utf8')) as Cassette;
+  } catch {
+    throw new AiProviderError(`No recorded ${request.task} response matches this request (cassette ${key.slice(0, 12)}).`, 404);
+  }
+};
+
+const writeCassette = async (directory: string, request: CassetteRequest, model: string, response: CassetteResponse) => {
+  const key = cassetteKey(request);
+  const cassette: Cassette = {
+    key,
+    task: request.task,
+    promptVersion: request.promptVersion,
+    model,
+    prompt: request.prompt,
+    images: imageHashes(request.images),
+    recordedAt: new Date().toISOString(),
+    response,
+  };
+  await mkdir(path.join(directory, request.task), { recursive: true });
+  await writeFile(cassettePath(directory, request.task, key), JSON.stringify(cassette, null, 2));
+};
+
+const replayed = (cassette: Cassette) => {
+  if (cassette.response.kind === 'error') throw new AiProviderError(cassette.response.message, cassette.response.status);
+  return cassette.response;
+};
+
+/**
+ * Records every upstream call and its raw result to disk. Provider failures
+ * are recorded too, so a replay reproduces the original error response.
+ */
+export const withCassetteRecording = (provider: AiProvider, directory: string): AiProvider => {
+  const record = async <T>(request: CassetteRequest, model: string, run: () => Promise<T>, toResponse: (value: T) => CassetteResponse) => {
+    try {
+      const value = await run();
+      await writeCassette(directory, request, model, toResponse(value));
+      return value;
+    } catch (error) {
+      if (error instanceof AiProviderError) await writeCassette(directory, request, model, { kind: 'error', message: error.message, status: error.status });
+      throw error;
+    }
+  };
+  return {
+    ...provider,
+    generateJson: (request) => record(request, provider.visionModel, () => provider.generateJson(request), (text) => ({ kind: 'json', text })),
+    editImage: (request) => record(request, provider.imageModel, () => provider.editImage(request), (result) => ({ kind: 'image', result })),
+  };
+};
+
+/** Serves previously recorded results without contacting any model. */
+export const createCassetteReplayProvider = (directory: string, visionModel: string, imageModel: string): AiProvider => ({
+  id: 'replay',
+  visionModel,
+  imageModel,
+  generateJson: async (request) => {
+    const response = replayed(await readCassette(directory, request));
+    if (response.kind !== 'json') throw new AiProviderError(`The recorded ${request.task} response is not JSON.`, 500);
+    return response.text;
+  },
+  editImage: async (request) => {
+    const response = replayed(await readCassette(directory, request));
+    if (response.kind !== 'image') throw new AiProviderError(`The recorded ${request.task} response is not an image.`, 500);
+    return response.result;
+  },
+});
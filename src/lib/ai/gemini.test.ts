@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createGeminiProvider } from './gemini';
+import { AiProviderError, type VisionJsonRequest } from './types';
+
+const provider = createGeminiProvider({ apiKey: 'test-key', visionModel: 'vision', imageModel: 'image' });
+const request: VisionJsonRequest = { task: 'analyze-floorplan', prompt: 'Describe the room.', images: [], responseSchema: {}, temperature: 0, timeoutMs: 1000 };
+
+const respondWith = (response: Response) => vi.stubGlobal('fetch', vi.fn(async () => response));
+
+describe('createGeminiProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('joins the text parts of a successful response', async () => {
+    respondWith(Response.json({ candidates: [{ content: { parts: [{ text: '{"ok":' }, { text: 'true}' }] } }] }));
+    await expect(provider.generateJson(request)).resolves.toBe('{"ok":true}');
+  });
+
+  it('reports the message of a JSON error body with its status', async () => {
+    respondWith(Response.json({ error: { message: 'API key not valid.' } }, { status: 400 }));
+    await expect(provider.generateJson(request)).rejects.toMatchObject({ name: 'AiProviderError', message: 'API key not valid.', status: 400 });
+  });
+
+  it('reports a plain-text error body instead of failing to parse it', async () => {
+    respondWith(new Response('upstream request timeout', { status: 504 }));
+    await expect(provider.generateJson(request)).rejects.toMatchObject({ message: 'upstream request timeout', status: 504 });
+  });
+
+  it('falls back to the status for an HTML error page', async () => {
+    respondWith(new Response('<html><body>Bad Gateway</body></html>', { status: 502 }));
+    const error = await provider.generateJson(request).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(AiProviderError);
+    expect(error).toMatchObject({ message: 'Gemini returned 502.', status: 502 });
+  });
+});
@@ -0,0 +1,78 @@
+import { AiProviderError, type AiProvider, type InlineImage } from './types';
+
+interface GeminiOptions {
+  apiKey: string;
+  visionModel: string;
+  imageModel: string;
+}
+
+const API_ROOT = 'https://generativelanguage.googleapis.com';
+
+export const createGeminiProvider = ({ apiKey, visionModel, imageModel }: GeminiOptions): AiProvider => {
+  const generateContent = async (apiVersion: 'v1' | 'v1beta', model: string, body: unknown, timeoutMs: number, label: string, signal?: AbortSignal) => {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    if (signal?.aborted) abort();
+    let apiResponse: Response;
+    try {
+      apiResponse = await fetch(`${API_ROOT}/${apiVersion}/models/${encodeURIComponent(model)}:generateContent`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', abort);
+    }
+    if (!apiResponse.ok) {
+      // Gateways and proxies answer with HTML or plain text as often as with Gemini's JSON error body.
+      const text = await apiResponse.text();
+      let message: string | undefined;
+      try {
+        message = JSON.parse(text)?.error?.message;
+      } catch {
+        message = /^\s*</.test(text) ? undefined : text.trim().slice(0, 200) || undefined;
+      }
+      throw new AiProviderError(message || `${label} returned ${apiResponse.status}.`, apiResponse.status);
+    }
+    const payload = await apiResponse.json();
+    return (payload?.candidates?.[0]?.content?.parts || []) as any[];
+  };
+
+  const imageParts = (images: InlineImage[]) => images.map((image) => ({ inlineData: image }));
+
+  return {
+    id: 'gemini',
+    visionModel,
+    imageModel,
+    generateJson: async ({ prompt, images, responseSchema, temperature, timeoutMs }) => {
+      const parts = await generateContent('v1beta', visionModel, {
+        contents: [{ role: 'user', parts: [{ text: prompt }, ...imageParts(images)] }],
+        generationConfig: { temperature, responseMimeType: 'application/json', responseSchema },
+      }, timeoutMs, 'Gemini');
+      return parts.map((part: { text?: string }) => part.text).filter(Boolean).join('');
+    },
+    editImage: async ({ prompt, images, timeoutMs, signal }) => {
+      const parts = await generateContent('v1', imageModel, {
+        contents: [{ role: 'user', parts: [{ text: prompt }, ...imageParts(images)] }],
+        generationConfig: {
+          responseModalities: ['IMAGE'],
+          // The raw v1 REST schema accepts protobuf enum names here. The
+          // human-readable "1K" value shown in SDK examples is normalized
+          // by the SDK, but is rejected when sent directly. Aspect ratio is
+          // omitted so the model follows the source image's framing.
+          responseFormat: { image: { imageSize: 'IMAGE_SIZE_ONE_K' } },
+        },
+      }, timeoutMs, 'Image API', signal);
+      const imagePart = parts.find((part) => part?.inlineData?.data || part?.inline_data?.data);
+      const inlineData = imagePart?.inlineData || imagePart?.inline_data;
+      return {
+        image: inlineData?.data ? { mimeType: inlineData.mimeType || inlineData.mime_type || 'image/png', data: inlineData.data } : undefined,
+        text: parts.map((part) => part?.text).filter(Boolean).join(' ').slice(0, 500),
+      };
+    },
+  };
+};
@@ -0,0 +1,6 @@
+import { createHash } from 'node:crypto';
+import type { InlineImage } from './types';
+
+export const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+export const imageHashes = (images: InlineImage[]) => images.map((image) => ({ mimeType: image.mimeType, sha256: sha256(image.data) }));
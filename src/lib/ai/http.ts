@@ -0,0 +1,37 @@
+import { AiProviderError, type InlineImage } from './types';
+
+export const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+});
+
+export const parseImageDataUrl = (value: string): InlineImage | undefined => {
+  const match = value.match(/^data:(image\/(?:png|jpeg));base64,(.+)$/);
+  return match ? { mimeType: match[1], data: match[2] } : undefined;
+};
+
+export const imageDataUrl = (image: InlineImage) => `data:${image.mimeType};base64,${image.data}`;
+
+/** Invalid client input detected before any model call is made. */
+export class RequestError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'RequestError';
+    this.status = status;
+  }
+}
+
+/** Maps request, provider, timeout, and unexpected failures to a message and HTTP status. */
+export const aiErrorDetails = (error: unknown, timeoutMessage: string, fallbackMessage: string) => {
+  if (error instanceof RequestError || error instanceof AiProviderError) return { error: error.message, status: error.status };
+  if (error instanceof Error && error.name === 'AbortError') return { error: timeoutMessage, status: 504 };
+  return { error: error instanceof Error ? error.message : fallbackMessage, status: 500 };
+};
+
+/** The JSON error shape every AI route returns. */
+export const aiErrorResponse = (error: unknown, timeoutMessage: string, fallbackMessage: string) => {
+  const { error: message, status } = aiErrorDetails(error, timeoutMessage, fallbackMessage);
+  return json({ error: message }, status);
+};
@@ -0,0 +1,132 @@
+import type { AiProvider, AiTask } from './types';
+
+// A fixed 10 m × 10 m apartment: one percent of the image equals 0.1 m, so
+// every area below is consistent with its polygon and passes route validation.
+const MOCK_FLOORPLAN = {
+  detectedDoorCount: 4,
+  scaleSource: 'door-width',
+  scaleEvidence: 'Offline mock analysis: fixed 10 m × 10 m reference layout.',
+  confidence: 'medium',
+  assumptionJa: 'オフラインのモック解析です。実際の図面は解析していません。',
+  assumptionEn: 'Offline mock analysis. The uploaded drawing was not analyzed.',
+  rooms: [
+    {
+      id: 'ldk', nameJa: 'LDK', nameEn: 'Living / dining', roomType: 'living',
+      polygon: [{ x: 10, y: 10 }, { x: 60, y: 10 }, { x: 60, y: 55 }, { x: 10, y: 55 }],
+      floorAreaM2: 22.5, ceilingAreaM2: 22.5, netWallAreaM2: 41, roomWidthM: 5, roomDepthM: 4.5, perimeterM: 19, confidence: 'medium',
+    },
+    {
+      id: 'bedroom', nameJa: '洋室', nameEn: 'Bedroom', roomType: 'bedroom',
+      polygon: [{ x: 60, y: 10 }, { x: 90, y: 10 }, { x: 90, y: 55 }, { x: 60, y: 55 }],
+      floorAreaM2: 13.5, ceilingAreaM2: 13.5, netWallAreaM2: 32.4, roomWidthM: 3, roomDepthM: 4.5, perimeterM: 15, confidence: 'medium',
+    },
+    {
+      id: 'kitchen', nameJa: 'キッチン', nameEn: 'Kitchen', roomType: 'kitchen',
+      polygon: [{ x: 10, y: 55 }, { x: 40, y: 55 }, { x: 40, y: 90 }, { x: 10, y: 90 }],
+      floorAreaM2: 10.5, ceilingAreaM2: 10.5, netWallAreaM2: 27.6, roomWidthM: 3, roomDepthM: 3.5, perimeterM: 13, confidence: 'medium',
+    },
+    {
+      id: 'bathroom', nameJa: '洗面・浴室', nameEn: 'Bathroom', roomType: 'bathroom',
+      polygon: [{ x: 40, y: 55 }, { x: 60, y: 55 }, { x: 60, y: 90 }, { x: 40, y: 90 }],
+      floorAreaM2: 7, ceilingAreaM2: 7, netWallAreaM2: 23, roomWidthM: 2, roomDepthM: 3.5, perimeterM: 11, confidence: 'medium',
+    },
+  ],
+  openings: [
+    { type: 'door', x: 60, y: 45, orientation: 'vertical', widthM: 0.8, roomIds: ['ldk', 'bedroom'], hinge: 'start', swingRoomId: 'bedroom' },
+    { type: 'passage', x: 25, y: 55, orientation: 'horizontal', widthM: 1.6, roomIds: ['ldk', 'kitchen'], hinge: 'none', swingRoomId: '' },
+    { type: 'door', x: 50, y: 55, orientation: 'horizontal', widthM: 0.7, roomIds: ['ldk', 'bathroom'], hinge: 'end', swingRoomId: 'bathroom' },
+    { type: 'sliding-door', x: 20, y: 90, orientation: 'horizontal', widthM: 1.2, roomIds: ['kitchen'], hinge: 'none', swingRoomId: '' },
+    { type: 'window', x: 35, y: 10, orientation: 'horizontal', widthM: 1.8, roomIds: ['ldk'], hinge: 'none', swingRoomId: '' },
+    { type: 'window', x: 75, y: 10, orientation: 'horizontal', widthM: 1.6, roomIds: ['bedroom'], hinge: 'none', swingRoomId: '' },
+  ],
+  walls: [
+    { x1: 10, y1: 10, x2: 60, y2: 10, thicknessM: 0.18, exterior: true },
+    { x1: 60, y1: 10, x2: 90, y2: 10, thicknessM: 0.18, exterior: true },
+    { x1: 90, y1: 10, x2: 90, y2: 55, thicknessM: 0.18, exterior: true },
+    { x1: 90, y1: 55, x2: 60, y2: 55, thicknessM: 0.18, exterior: true },
+    { x1: 60, y1: 55, x2: 60, y2: 90, thicknessM: 0.18, exterior: true },
+    { x1: 60, y1: 90, x2: 10, y2: 90, thicknessM: 0.18, exterior: true },
+    { x1: 10, y1: 90, x2: 10, y2: 55, thicknessM: 0.18, exterior: true },
+    { x1: 10, y1: 55, x2: 10, y2: 10, thicknessM: 0.18, exterior: true },
+    { x1: 60, y1: 10, x2: 60, y2: 55, thicknessM: 0.12, exterior: false },
+    { x1: 10, y1: 55, x2: 40, y2: 55, thicknessM: 0.12, exterior: false },
+    { x1: 40, y1: 55, x2: 60, y2: 55, thicknessM: 0.12, exterior: false },
+    { x1: 40, y1: 55, x2: 40, y2: 90, thicknessM: 0.12, exterior: false },
+  ],
+  dimensions: [
+    { kind: 'dimension', text: '5,000', lengthM: 5, x1: 10, y1: 6, x2: 60, y2: 6 },
+    { kind: 'dimension', text: '3,000', lengthM: 3, x1: 60, y1: 6, x2: 90, y2: 6 },
+    { kind: 'dimension', text: '4,550', lengthM: 4.55, x1: 6, y1: 10, x2: 6, y2: 55 },
+    { kind: 'scale-bar', text: '0–2m', lengthM: 2, x1: 70, y1: 95, x2: 90, y2: 95 },
+  ],
+};
+
+const MOCK_SURFACE_ESTIMATE = {
+  floorAreaM2: 16.2,
+  netWallAreaM2: 33.5,
+  ceilingAreaM2: 16.2,
+  roomWidthM: 3.6,
+  roomDepthM: 4.5,
+  ceilingHeightM: 2.4,
+  confidence: 'medium',
+  assumptionJa: 'オフラインのモック推定です。写真は解析していません。',
+  assumptionEn: 'Offline mock estimate. The photo was not analyzed.',
+  walls: [
+    { nameJa: '窓側の壁', nameEn: 'Window wall', lengthM: 3.6, heightM: 2.4, grossAreaM2: 8.6, openings: [{ type: 'window', widthM: 1.8, heightM: 2, count: 1 }] },
+    { nameJa: '右側の壁', nameEn: 'Right wall', lengthM: 4.5, heightM: 2.4, grossAreaM2: 10.8, openings: [] },
+    { nameJa: '入口側の壁', nameEn: 'Entrance wall', lengthM: 3.6, heightM: 2.4, grossAreaM2: 8.6, openings: [{ type: 'door', widthM: 0.8, heightM: 2, count: 1 }] },
+    { nameJa: '左側の壁', nameEn: 'Left wall', lengthM: 4.5, heightM: 2.4, grossAreaM2: 10.8, openings: [] },
+  ],
+};
+
+/** Readings cycled across the photos, each within a few percent of the reconciled 3.6 × 4.5 m room. */
+const MOCK_PHOTO_SIZES = [[3.6, 4.4], [3.5, 4.7], [3.7, 4.5], [3.6, 4.6]];
+
+/** One per-photo reading for every uploaded photo, in input order, as the multi-photo route expects. */
+const mockSurfaceEstimate = (photoCount: number) => ({
+  ...MOCK_SURFACE_ESTIMATE,
+  perPhoto: Array.from({ length: photoCount }, (_, index) => {
+    const [roomWidthM, roomDepthM] = MOCK_PHOTO_SIZES[index % MOCK_PHOTO_SIZES.length];
+    return { roomWidthM, roomDepthM, assumptionJa: `モック：${index + 1}枚目の写真。`, assumptionEn: `Mock: photo ${index + 1}.` };
+  }),
+});
+
+const MOCK_AUDIT = {
+  structureScore: 92,
+  scheduleScore: 84,
+  structurePreserved: true,
+  selectedItemsPresent: true,
+  issues: ['Offline mock audit: the images were not compared.'],
+  missingItems: [],
+  unexpectedChanges: [],
+};
+
+const MOCK_REFINEMENT_CHECK = {
+  contradictsSchedule: false,
+  conflicts: [],
+};
+
+const MOCK_JSON: Partial<Record<AiTask, unknown>> = {
+  'analyze-floorplan': MOCK_FLOORPLAN,
+  'verify-interior-preview': MOCK_AUDIT,
+  'check-interior-refinement': MOCK_REFINEMENT_CHECK,
+};
+
+/**
+ * Deterministic stand-in for local development and demos without a key or
+ * network. Vision tasks return fixed, schema-valid results; image edits echo
+ * the source image back so the downstream flow can be exercised end to end.
+ */
+export const createMockProvider = (): AiProvider => ({
+  id: 'mock',
+  visionModel: 'mock-vision',
+  imageModel: 'mock-image',
+  generateJson: async ({ task, images }) => {
+    const result = task === 'estimate-room-surfaces' ? mockSurfaceEstimate(images.length) : MOCK_JSON[task];
+    return result ? JSON.stringify(result) : '';
+  },
+  editImage: async ({ images }) => ({
+    image: images[0],
+    text: images[0] ? '' : 'The mock provider needs a source image to echo back.',
+  }),
+});
@@ -0,0 +1,42 @@
+import { withResultCache } from './cache';
+import { createCassetteReplayProvider, withCassetteRecording, type CassetteMode } from './cassette';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { AiProviderError, type AiProvider } from './types';
+
+const VISION_MODEL = import.meta.env.GEMINI_VISION_MODEL || 'gemini-3.6-flash';
+const IMAGE_MODEL = import.meta.env.GEMINI_IMAGE_MODEL || 'gemini-3.1-flash-image';
+const CASSETTE_DIRECTORY = import.meta.env.AI_CASSETTE_DIR || 'cassettes';
+const CACHE_DIRECTORY = import.meta.env.AI_CACHE_DIR || '.cache/ai-results';
+const CACHE_TTL_HOURS = Number(import.meta.env.AI_CACHE_TTL_HOURS) || 24;
+
+let cachedProvider: AiProvider | undefined;
+
+const createSelectedProvider = (): AiProvider => {
+  const selected = String(import.meta.env.AI_PROVIDER || 'gemini').toLowerCase();
+  if (selected === 'mock') return createMockProvider();
+  if (selected !== 'gemini') throw new AiProviderError(`Unknown AI_PROVIDER "${selected}". Use gemini or mock.`, 503);
+  const apiKey = import.meta.env.GOOGLE_API_KEY;
+  if (!apiKey) throw new AiProviderError('GOOGLE_API_KEY is not configured on the server.', 503);
+  return createGeminiProvider({ apiKey, visionModel: VISION_MODEL, imageModel: IMAGE_MODEL });
+};
+
+const cassetteMode = (): CassetteMode | undefined => {
+  const mode = String(import.meta.env.AI_CASSETTE_MODE || '').toLowerCase();
+  if (!mode || mode === 'off') return undefined;
+  if (mode === 'record' || mode === 'replay') return mode;
+  throw new AiProviderError(`Unknown AI_CASSETTE_MODE "${mode}". Use record, replay, or off.`, 503);
+};
+
+const resultCacheEnabled = () => String(import.meta.env.AI_CACHE || 'on').toLowerCase() !== 'off';
+
+export const getAiProvider = (): AiProvider => {
+  if (cachedProvider) return cachedProvider;
+  const mode = cassetteMode();
+  if (mode === 'replay') return cachedProvider = createCassetteReplayProvider(CASSETTE_DIRECTORY, VISION_MODEL, IMAGE_MODEL);
+  const selected = createSelectedProvider();
+  // The cache sits inside the recorder so cache hits are still recorded as cassettes.
+  const provider = resultCacheEnabled() ? withResultCache(selected, { directory: CACHE_DIRECTORY, ttlMs: CACHE_TTL_HOURS * 3_600_000 }) : selected;
+  cachedProvider = mode === 'record' ? withCassetteRecording(provider, CASSETTE_DIRECTORY) : provider;
+  return cachedProvider;
+};
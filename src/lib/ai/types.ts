@@ -0,0 +1,62 @@
+export type AiTask =
+  | 'analyze-floorplan'
+  | 'estimate-room-surfaces'
+  | 'verify-interior-preview'
+  | 'check-interior-refinement'
+  | 'generate-interior-preview'
+  | 'generate-floorplan-color-render';
+
+export interface InlineImage {
+  mimeType: string;
+  data: string;
+}
+
+export interface VisionJsonRequest {
+  task: AiTask;
+  promptVersion?: string;
+  prompt: string;
+  images: InlineImage[];
+  responseSchema: Record<string, unknown>;
+  temperature: number;
+  timeoutMs: number;
+  /** Skips any cached result and calls the model again. */
+  forceRegenerate?: boolean;
+}
+
+export interface ImageEditRequest {
+  task: AiTask;
+  promptVersion?: string;
+  prompt: string;
+  images: InlineImage[];
+  timeoutMs: number;
+  /** Aborts the upstream call early, e.g. when a render job is cancelled. */
+  signal?: AbortSignal;
+  /** Distinguishes otherwise identical requests, e.g. parallel preview candidates. */
+  variant?: number;
+  /** Skips any cached result and calls the model again. */
+  forceRegenerate?: boolean;
+}
+
+export interface ImageEditResult {
+  image?: InlineImage;
+  text: string;
+}
+
+export interface AiProvider {
+  id: 'gemini' | 'mock' | 'replay';
+  visionModel: string;
+  imageModel: string;
+  /** Returns the model's raw JSON text, or an empty string when nothing was returned. */
+  generateJson: (request: VisionJsonRequest) => Promise<string>;
+  editImage: (request: ImageEditRequest) => Promise<ImageEditResult>;
+}
+
+export class AiProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AiProviderError';
+    this.status = status;
+  }
+}
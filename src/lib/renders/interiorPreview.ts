@@ -0,0 +1,150 @@
+import { RequestError, parseImageDataUrl } from '../ai/http';
+import type { InlineImage } from '../ai/types';
+import { parseProductReferences, productReferenceSection } from './productReferences';
+import type { RenderDefinition } from './render';
+
+const MAX_IMAGE_LENGTH = 3_400_000;
+const MAX_MASK_LENGTH = 600_000;
+const MAX_MASKS = 10;
+
+interface PreviewItem {
+  section?: string;
+  slot?: string;
+  name?: string;
+  specification?: string;
+  color?: string;
+  code?: string;
+  status?: string;
+  exactProductConfirmed?: boolean;
+}
+
+const PROMPT_VERSION = 'interior-preview-accuracy-v2';
+const REFINEMENT_PROMPT_VERSION = 'interior-preview-refinement-v1';
+
+/** Numbered schedule lines; `withMaskSlots` names each item's slot so masks can refer to it. */
+const scheduleLines = (items: PreviewItem[], withMaskSlots: boolean) => items.map((item, index) => {
+  const code = item.code && item.exactProductConfirmed
+    ? `; confirmed manufacturer product code: ${item.code}`
+    : item.code
+      ? `; internal POC reference only (not a manufacturer SKU): ${item.code}`
+      : '; exact maker and product code are not confirmed';
+  const maskSlot = withMaskSlots && item.slot ? ` (${String(item.slot).slice(0, 40)} mask)` : '';
+  return `${index + 1}. [${item.section || 'item'} / ${item.status || 'selection'}]${maskSlot} ${item.name || 'Unnamed item'} — ${item.specification || ''}; color/design intent: ${item.color || ''}${code}`;
+}).join('\n');
+
+const findingList = (value: unknown) => (Array.isArray(value) ? value : []).slice(0, 12).map((entry) => String(entry).slice(0, 180)).filter(Boolean);
+
+export const interiorPreviewRender: RenderDefinition = {
+  task: 'generate-interior-preview',
+  promptVersion: PROMPT_VERSION,
+  timeoutMessage: 'Image generation timed out after 120 seconds.',
+  fallbackMessage: 'Unexpected preview-generation error.',
+  missingImageMessage: 'The image model did not return an image.',
+  prepare: (body) => {
+    const sourcePhoto = typeof body.sourcePhoto === 'string' ? body.sourcePhoto : '';
+    const room = String(body.room || 'Living / Dining / Kitchen').slice(0, 120);
+    const style = String(body.style || 'Natural modern').slice(0, 120);
+    const note = String(body.note || '').slice(0, 800);
+    const items: PreviewItem[] = Array.isArray(body.items) ? body.items.slice(0, 30) : [];
+    const missingItems = findingList(body.corrections?.missingItems);
+    const unexpectedChanges = findingList(body.corrections?.unexpectedChanges);
+    const candidateCount = Math.max(1, Math.min(4, Math.round(Number(body.candidateCount) || 1)));
+    const maskInputs: any[] = Array.isArray(body.masks) ? body.masks : [];
+
+    if (!sourcePhoto || sourcePhoto.length > MAX_IMAGE_LENGTH) throw new RequestError('The room photo is too large after downscaling. Try a smaller file.');
+    const image = parseImageDataUrl(sourcePhoto);
+    if (!image) throw new RequestError('The room photo must be a PNG or JPEG data URL.');
+    if (!items.length) throw new RequestError('At least one selected material is required.');
+    if (maskInputs.length > MAX_MASKS) throw new RequestError(`Send at most ${MAX_MASKS} surface masks.`);
+    const masks = maskInputs.map((mask) => {
+      const slot = String(mask?.slot || '').slice(0, 40);
+      const maskImage = typeof mask?.image === 'string' && mask.image.length <= MAX_MASK_LENGTH ? parseImageDataUrl(mask.image) : undefined;
+      if (!slot || !maskImage) throw new RequestError('Each surface mask needs a slot and a PNG or JPEG data URL under 600 KB.');
+      return { slot, image: maskImage as InlineImage };
+    });
+    const references = parseProductReferences(body.references);
+
+    const schedule = scheduleLines(items, masks.length > 0);
+
+    // Findings from the audit of an earlier attempt, fed back as corrective instructions.
+    const correctionLines = [
+      ...missingItems.map((entry) => `- Missing: ${entry}. Make it clearly visible in the correct place.`),
+      ...unexpectedChanges.map((entry) => `- Unexpected change: ${entry}. Restore the source photograph here.`),
+    ];
+    const corrections = correctionLines.length
+      ? `\n\nCORRECTIONS FROM THE REVIEW OF A PREVIOUS ATTEMPT — fix these while keeping every rule above:\n${correctionLines.join('\n')}`
+      : '';
+
+    // Masks follow the source photo as images 2, 3, … and confine each slot's edit to its white region.
+    const maskSection = masks.length
+      ? `\n\nSURFACE MASKS: the INPUT IMAGE is followed by ${masks.length} black-and-white mask image${masks.length === 1 ? '' : 's'} with the same framing. White marks the only pixels that may change; black must match the INPUT IMAGE exactly.
+${masks.map((mask, index) => `- IMAGE ${index + 2}: ${mask.slot} mask — apply the ${mask.slot} selection only inside its white area.`).join('\n')}
+Change nothing outside the white areas of these masks. Ignore any schedule item that has no mask.`
+      : '';
+
+    const prompt = `You are editing an existing-room photograph for a Japanese residential sales meeting.
+
+INPUT IMAGE: a photograph of the customer's existing room. Treat it as the fixed source image, not loose inspiration.
+TARGET ROOM: ${room}
+DESIGN DIRECTION: ${style}
+CUSTOMER BRIEF: ${note || 'Create a calm, practical, welcoming home interior.'}
+
+SELECTED MATERIAL, FIXTURE, AND REFERENCE-FURNITURE SCHEDULE:
+${schedule}${maskSection}${productReferenceSection(references, masks.length + 2)}
+
+Return exactly one photorealistic edited version of the INPUT IMAGE. Preserve the original camera position, crop, perspective, room dimensions, ceiling height, wall planes, doors, windows, openings, built-ins, and exterior view. Do not redesign the architecture or create another room. Replace only the applicable visible finishes and fixtures with the selected design intent. Add selected reference furniture and accessories once each at realistic Japanese residential scale, with correct perspective, contact shadows, and clear circulation. Keep existing objects when the customer brief says to retain them; otherwise remove only objects that conflict with the selected additions. Do not add unselected furniture or decorative clutter. Apply material colors and physical character faithfully. When an exact product is not confirmed, visualize the generic description without inventing a brand-specific appearance. Treat any supplied product codes as identifiers only. Do not render labels, codes, callouts, legends, measurements, or any text. Match the source lighting and produce a believable real-estate photograph. This is a concept visualization, not a construction drawing or a guarantee of exact product appearance.${corrections}`;
+
+    return { prompt, image, forceRegenerate: body.forceRegenerate === true, candidateCount, extraImages: [...masks.map((mask) => mask.image), ...references.map((reference) => reference.image)], metadata: { conceptOnly: true, maskedSlots: masks.map((mask) => mask.slot) } };
+  },
+};
+
+/**
+ * Edits the current preview rather than the source photo, applying one
+ * follow-up instruction while keeping everything else as it already appears.
+ */
+export const interiorRefinementRender: RenderDefinition = {
+  task: 'generate-interior-preview',
+  promptVersion: REFINEMENT_PROMPT_VERSION,
+  timeoutMessage: 'Image generation timed out after 120 seconds.',
+  fallbackMessage: 'Unexpected preview-refinement error.',
+  missingImageMessage: 'The image model did not return an image.',
+  prepare: (body) => {
+    const basePreview = typeof body.basePreview === 'string' ? body.basePreview : '';
+    const instruction = String(body.instruction || '').trim().slice(0, 400);
+    const room = String(body.room || 'Living / Dining / Kitchen').slice(0, 120);
+    const style = String(body.style || 'Natural modern').slice(0, 120);
+    const items: PreviewItem[] = Array.isArray(body.items) ? body.items.slice(0, 30) : [];
+    const history = findingList(body.history);
+
+    if (!basePreview || basePreview.length > MAX_IMAGE_LENGTH) throw new RequestError('The current preview is too large after downscaling.');
+    const image = parseImageDataUrl(basePreview);
+    if (!image) throw new RequestError('The current preview must be a PNG or JPEG data URL.');
+    if (!instruction) throw new RequestError('A refinement instruction is required.');
+    const references = parseProductReferences(body.references);
+
+    const earlier = history.length
+      ? `\n\nEARLIER REFINEMENTS ALREADY VISIBLE IN THE INPUT IMAGE:\n${history.map((entry) => `- ${entry}`).join('\n')}`
+      : '';
+
+    const prompt = `You are refining an already-edited interior concept image for a Japanese residential sales meeting.
+
+INPUT IMAGE: the current concept preview of the customer's room. Treat it as the fixed source image.
+TARGET ROOM: ${room}
+DESIGN DIRECTION: ${style}
+
+AGREED FINISH SCHEDULE — keep every item exactly as it already appears unless the instruction below explicitly names it:
+${scheduleLines(items, false) || 'No schedule supplied.'}${earlier}${productReferenceSection(references, 2)}
+
+FOLLOW-UP INSTRUCTION: ${instruction}
+
+Return exactly one photorealistic edited version of the INPUT IMAGE that applies only the follow-up instruction. Preserve the camera position, crop, perspective, room geometry, doors, windows, openings, built-ins, lighting, and every element the instruction does not mention. Do not re-apply or reinterpret the schedule, do not add unrequested objects, and do not render labels, codes, or any text. This is a concept visualization, not a construction drawing or a guarantee of exact product appearance.`;
+
+    return {
+      prompt,
+      image,
+      forceRegenerate: body.forceRegenerate === true,
+      extraImages: references.map((reference) => reference.image),
+      metadata: { conceptOnly: true, instruction },
+    };
+  },
+};
@@ -0,0 +1,53 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { backgroundJobsAvailable, getRenderJob, renderJobView, runRenderJobInline } from './jobs';
+import type { PreparedRender } from './render';
+
+const prepared: PreparedRender = {
+  prompt: 'Colour the plan.',
+  image: { mimeType: 'image/png', data: 'aW1hZ2U=' },
+  forceRegenerate: true,
+  metadata: { style: 'test' },
+};
+
+describe('backgroundJobsAvailable', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses background jobs on a long-running server', () => {
+    vi.stubEnv('VERCEL', '');
+    vi.stubEnv('RENDER_JOBS', '');
+    expect(backgroundJobsAvailable()).toBe(true);
+  });
+
+  it('renders inline on Vercel unless background jobs are forced', () => {
+    vi.stubEnv('VERCEL', '1');
+    vi.stubEnv('RENDER_JOBS', '');
+    expect(backgroundJobsAvailable()).toBe(false);
+    vi.stubEnv('RENDER_JOBS', 'background');
+    expect(backgroundJobsAvailable()).toBe(true);
+  });
+
+  it('renders inline anywhere when asked to', () => {
+    vi.stubEnv('VERCEL', '');
+    vi.stubEnv('RENDER_JOBS', 'inline');
+    expect(backgroundJobsAvailable()).toBe(false);
+  });
+});
+
+describe('runRenderJobInline', () => {
+  beforeAll(() => {
+    vi.stubEnv('AI_PROVIDER', 'mock');
+    vi.stubEnv('AI_CACHE', 'off');
+    vi.stubEnv('AI_CASSETTE_MODE', 'off');
+  });
+
+  it('returns the finished job without storing it', async () => {
+    const job = await runRenderJobInline('floorplan-color-render', prepared);
+    const view = renderJobView(job);
+    expect(view.status).toBe('succeeded');
+    expect(view.progress).toBe(1);
+    expect(view.result).toMatchObject({ image: 'data:image/png;base64,aW1hZ2U=', style: 'test' });
+    expect(getRenderJob(job.id)).toBeUndefined();
+  });
+});
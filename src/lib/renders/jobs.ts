@@ -0,0 +1,114 @@
+import { randomUUID } from 'node:crypto';
+import { aiErrorDetails } from '../ai/http';
+import { floorplanColorRender } from './floorplanColorRender';
+import { interiorPreviewRender, interiorRefinementRender } from './interiorPreview';
+import { runRender, type PreparedRender, type RenderDefinition, type RenderKind } from './render';
+
+export type RenderJobStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+interface RenderJob {
+  id: string;
+  kind: RenderKind;
+  status: RenderJobStatus;
+  createdAt: number;
+  finishedAt?: number;
+  result?: Record<string, unknown>;
+  error?: string;
+  errorStatus?: number;
+  controller: AbortController;
+}
+
+export const RENDER_DEFINITIONS: Record<RenderKind, RenderDefinition> = {
+  'interior-preview': interiorPreviewRender,
+  'interior-refinement': interiorRefinementRender,
+  'floorplan-color-render': floorplanColorRender,
+};
+
+// Image edits usually finish in 30–90 s; progress is an estimate against this.
+const EXPECTED_DURATION_MS = 60_000;
+const FINISHED_JOB_TTL_MS = 30 * 60_000;
+
+// Jobs live in this server process. Keep them on globalThis so dev-server
+// module reloads do not orphan renders that are still running.
+const globalStore = globalThis as typeof globalThis & { __archixRenderJobs?: Map<string, RenderJob> };
+const jobs = globalStore.__archixRenderJobs ??= new Map<string, RenderJob>();
+
+const pruneFinishedJobs = () => {
+  const now = Date.now();
+  for (const [id, job] of jobs) {
+    if (job.finishedAt && now - job.finishedAt > FINISHED_JOB_TTL_MS) jobs.delete(id);
+  }
+};
+
+const finish = (job: RenderJob, update: Partial<RenderJob>) => {
+  if (job.status !== 'running') return;
+  Object.assign(job, update, { finishedAt: Date.now() });
+};
+
+/** The client-facing view of a job, with an estimated progress between 0 and 1. */
+export const renderJobView = (job: RenderJob) => ({
+  id: job.id,
+  kind: job.kind,
+  status: job.status,
+  progress: job.status === 'running' ? Math.min(0.95, (Date.now() - job.createdAt) / EXPECTED_DURATION_MS) : 1,
+  createdAt: new Date(job.createdAt).toISOString(),
+  finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : undefined,
+  result: job.result,
+  error: job.error,
+  errorStatus: job.errorStatus,
+});
+
+/**
+ * Background jobs are kept in this process's memory, so they need a single
+ * long-running server. A serverless instance may be frozen once it has
+ * responded, and a later poll may reach another instance, so on those hosts
+ * renders run inside the request instead. `RENDER_JOBS` overrides the
+ * detection with `background` or `inline`.
+ */
+export const backgroundJobsAvailable = () => {
+  const mode = String(import.meta.env.RENDER_JOBS || '').toLowerCase();
+  if (mode === 'background' || mode === 'inline') return mode === 'background';
+  return !import.meta.env.VERCEL;
+};
+
+const createJob = (kind: RenderKind): RenderJob => ({ id: randomUUID(), kind, status: 'running', createdAt: Date.now(), controller: new AbortController() });
+
+const settle = (job: RenderJob, prepared: PreparedRender) => {
+  const definition = RENDER_DEFINITIONS[job.kind];
+  return runRender(definition, prepared, job.controller.signal)
+    .then((result) => finish(job, { status: 'succeeded', result }))
+    .catch((error) => {
+      const { error: message, status } = aiErrorDetails(error, definition.timeoutMessage, definition.fallbackMessage);
+      finish(job, { status: 'failed', error: message, errorStatus: status });
+    });
+};
+
+/** Starts a render in the background and returns immediately. The input must already be validated. */
+export const startRenderJob = (kind: RenderKind, prepared: PreparedRender) => {
+  pruneFinishedJobs();
+  const job = createJob(kind);
+  jobs.set(job.id, job);
+  void settle(job, prepared);
+  return job;
+};
+
+/** Runs a render within the request and returns the finished job. It is never stored, so it cannot be polled or cancelled. */
+export const runRenderJobInline = async (kind: RenderKind, prepared: PreparedRender, signal?: AbortSignal) => {
+  const job = createJob(kind);
+  signal?.addEventListener('abort', () => job.controller.abort(), { once: true });
+  await settle(job, prepared);
+  return job;
+};
+
+export const getRenderJob = (id: string) => {
+  pruneFinishedJobs();
+  return jobs.get(id);
+};
+
+export const cancelRenderJob = (id: string) => {
+  const job = jobs.get(id);
+  if (!job) return undefined;
+  finish(job, { status: 'cancelled', error: 'The render was cancelled.' });
+  job.controller.abort();
+  return job;
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { RequestError } from '../ai/http';
+import { parseProductReferences, productReferenceSection } from './productReferences';
+
+const photo = 'data:image/jpeg;base64,cmVmZXJlbmNl';
+
+describe('parseProductReferences', () => {
+  it('treats a missing references field as no references', () => {
+    expect(parseProductReferences(undefined)).toEqual([]);
+  });
+
+  it('decodes each reference and defaults its role to product', () => {
+    expect(parseProductReferences([{ label: 'Floor: Wide-plank flooring', role: 'texture', image: photo }, { label: 'Walls: Vinyl', image: photo }])).toEqual([
+      { label: 'Floor: Wide-plank flooring', role: 'texture', image: { mimeType: 'image/jpeg', data: 'cmVmZXJlbmNl' } },
+      { label: 'Walls: Vinyl', role: 'product', image: { mimeType: 'image/jpeg', data: 'cmVmZXJlbmNl' } },
+    ]);
+  });
+
+  it('rejects more than four references', () => {
+    const references = Array.from({ length: 5 }, (_, index) => ({ label: `Item ${index}`, role: 'product', image: photo }));
+    expect(() => parseProductReferences(references)).toThrow(RequestError);
+  });
+
+  it('rejects a missing label, an unknown role, a non-image, or an oversized photo', () => {
+    expect(() => parseProductReferences([{ role: 'product', image: photo }])).toThrow(RequestError);
+    expect(() => parseProductReferences([{ label: 'Floor', role: 'swatch', image: photo }])).toThrow(RequestError);
+    expect(() => parseProductReferences([{ label: 'Floor', role: 'product', image: 'data:image/svg+xml;base64,PHN2Zz4=' }])).toThrow(RequestError);
+    expect(() => parseProductReferences([{ label: 'Floor', role: 'product', image: `data:image/jpeg;base64,${'A'.repeat(300_000)}` }])).toThrow(RequestError);
+  });
+});
+
+describe('productReferenceSection', () => {
+  it('is empty without references', () => {
+    expect(productReferenceSection([], 2)).toBe('');
+  });
+
+  it('numbers references after the images that precede them', () => {
+    const references = parseProductReferences([{ label: 'Floor: Oak', role: 'texture', image: photo }, { label: 'Walls: Greige', role: 'installed', image: photo }]);
+    const section = productReferenceSection(references, 4);
+    expect(section).toContain('- IMAGE 4: close-up texture photo of Floor: Oak');
+    expect(section).toContain('- IMAGE 5: installed-example photo of Walls: Greige');
+  });
+});
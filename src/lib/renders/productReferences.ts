@@ -0,0 +1,38 @@
+import { RequestError, parseImageDataUrl } from '../ai/http';
+import type { InlineImage } from '../ai/types';
+
+export type ProductReferenceRole = 'product' | 'texture' | 'installed';
+
+export interface ProductReference {
+  label: string;
+  role: ProductReferenceRole;
+  image: InlineImage;
+}
+
+const MAX_REFERENCES = 4;
+const MAX_REFERENCE_LENGTH = 300_000;
+
+const ROLE_DESCRIPTIONS: Record<ProductReferenceRole, string> = {
+  product: 'product photo',
+  texture: 'close-up texture photo',
+  installed: 'installed-example photo',
+};
+
+/** Validates the optional `references` array of a render request body. */
+export const parseProductReferences = (value: unknown): ProductReference[] => {
+  const inputs: any[] = Array.isArray(value) ? value : [];
+  if (inputs.length > MAX_REFERENCES) throw new RequestError(`Send at most ${MAX_REFERENCES} product reference photos.`);
+  return inputs.map((input) => {
+    const label = String(input?.label || '').slice(0, 160);
+    const role = String(input?.role || 'product') as ProductReferenceRole;
+    const image = typeof input?.image === 'string' && input.image.length <= MAX_REFERENCE_LENGTH ? parseImageDataUrl(input.image) : undefined;
+    if (!label || !(role in ROLE_DESCRIPTIONS) || !image) throw new RequestError('Each product reference needs a label, a role, and a PNG or JPEG data URL under 300 KB.');
+    return { label, role, image };
+  });
+};
+
+/** Prompt lines for references sent as images `firstImageNumber`, `firstImageNumber + 1`, … */
+export const productReferenceSection = (references: ProductReference[], firstImageNumber: number) => references.length
+  ? `\n\nPRODUCT REFERENCE PHOTOS: the following input images show the actual scheduled products. Use them only for each material's colour, pattern, grain, texture scale, and sheen. Never copy their background, lighting, camera angle, or framing, and never paste a reference photo into the output.
+${references.map((reference, index) => `- IMAGE ${firstImageNumber + index}: ${ROLE_DESCRIPTIONS[reference.role]} of ${reference.label}`).join('\n')}`
+  : '';
@@ -0,0 +1,60 @@
+import { imageDataUrl } from '../ai/http';
+import { getAiProvider } from '../ai/provider';
+import { AiProviderError, type InlineImage } from '../ai/types';
+
+export type RenderKind = 'interior-preview' | 'interior-refinement' | 'floorplan-color-render';
+
+export interface PreparedRender {
+  prompt: string;
+  image: InlineImage;
+  forceRegenerate: boolean;
+  /** Images sent after the source image, in the order the prompt describes them. */
+  extraImages?: InlineImage[];
+  /** Independent images to generate from the same prompt; defaults to 1. */
+  candidateCount?: number;
+  /** Extra fields returned next to the generated image. */
+  metadata: Record<string, unknown>;
+}
+
+export interface RenderDefinition {
+  task: 'generate-interior-preview' | 'generate-floorplan-color-render';
+  promptVersion: string;
+  timeoutMessage: string;
+  fallbackMessage: string;
+  missingImageMessage: string;
+  /** Validates a request body and builds the prompt; throws RequestError for bad input. */
+  prepare: (body: any) => PreparedRender;
+}
+
+/**
+ * Generates every candidate in parallel. The render succeeds when at least one
+ * candidate returns an image; `image` is always the first successful candidate.
+ */
+export const runRender = async (definition: RenderDefinition, prepared: PreparedRender, signal?: AbortSignal) => {
+  const provider = getAiProvider();
+  const results = await Promise.allSettled(Array.from({ length: prepared.candidateCount || 1 }, (_, variant) => provider.editImage({
+    task: definition.task,
+    promptVersion: definition.promptVersion,
+    prompt: prepared.prompt,
+    images: [prepared.image, ...(prepared.extraImages || [])],
+    timeoutMs: 120_000,
+    signal,
+    forceRegenerate: prepared.forceRegenerate,
+    variant,
+  })));
+  const images = results.flatMap((result) => result.status === 'fulfilled' && result.value.image ? [result.value.image] : []);
+  if (!images.length) {
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (rejected) throw rejected.reason;
+    const text = results.map((result) => result.status === 'fulfilled' ? result.value.text : '').find(Boolean);
+    throw new AiProviderError(text || definition.missingImageMessage, 502);
+  }
+  return {
+    image: imageDataUrl(images[0]),
+    candidates: images.map(imageDataUrl),
+    failedCandidates: results.length - images.length,
+    model: provider.imageModel,
+    promptVersion: definition.promptVersion,
+    ...prepared.metadata,
+  };
+};
@@ -0,0 +1,44 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+const photo = 'data:image/png;base64,aW1hZ2U=';
+
+describe('POST /api/estimate-room-surfaces with the mock provider', () => {
+  let post: typeof import('../estimate-room-surfaces').POST;
+
+  beforeAll(async () => {
+    vi.stubEnv('AI_PROVIDER', 'mock');
+    vi.stubEnv('AI_CACHE', 'off');
+    vi.stubEnv('AI_CASSETTE_MODE', 'off');
+    ({ POST: post } = await import('../estimate-room-surfaces'));
+  });
+
+  const estimate = async (body: Record<string, unknown>) => {
+    const request = new Request('http://localhost/api/estimate-room-surfaces', { method: 'POST', body: JSON.stringify(body) });
+    const response = await post({ request } as Parameters<typeof post>[0]);
+    return { status: response.status, payload: await response.json() };
+  };
+
+  it('asks for a photo when none is sent', async () => {
+    expect(await estimate({ room: 'living' })).toEqual({ status: 400, payload: { error: 'A room photo is required.' } });
+    expect((await estimate({ sourcePhotos: [] })).payload.error).toBe('A room photo is required.');
+  });
+
+  it('rejects a photo that is not an image data URL', async () => {
+    expect((await estimate({ sourcePhotos: [photo, null] })).payload.error).toBe('Each room photo must be a PNG or JPEG data URL.');
+  });
+
+  it('estimates a single photo without a per-photo breakdown', async () => {
+    const { status, payload } = await estimate({ sourcePhoto: photo });
+    expect(status).toBe(200);
+    expect(payload.estimate.photoCount).toBe(1);
+    expect(payload.estimate.perPhoto).toBeUndefined();
+  });
+
+  it('scores agreement across every photo of a multi-photo request', async () => {
+    const { status, payload } = await estimate({ sourcePhotos: [photo, photo, photo, photo, photo] });
+    expect(status).toBe(200);
+    expect(payload.estimate.perPhoto).toHaveLength(5);
+    expect(payload.estimate.validationIssues).not.toContain('Some photos are missing a per-photo size estimate.');
+    expect(payload.estimate.agreementScore).toBeGreaterThan(60);
+  });
+});
@@ -1,14 +1,86 @@
 import type { APIRoute } from 'astro';
+import { aiErrorResponse, json, parseImageDataUrl } from '../../lib/ai/http';
+import { getAiProvider } from '../../lib/ai/provider';
 
-const GOOGLE_API_KEY = import.meta.env.GOOGLE_API_KEY;
-const MODEL = import.meta.env.GEMINI_VISION_MODEL || 'gemini-3.6-flash';
-const PROMPT_VERSION = 'floorplan-takeoff-accuracy-v2';
+const PROMPT_VERSION = 'floorplan-takeoff-tiles-v6';
 const MAX_IMAGE_LENGTH = 3_400_000;
+const MAX_OPENINGS = 80;
+const MAX_WALLS = 200;
+const MIN_WALL_LENGTH = 0.5;
+const MAX_DIMENSIONS = 40;
+const MAX_TILES = 16;
+const CEILING_HEIGHT_M = 2.4;
+const OPENING_TYPES = ['door', 'sliding-door', 'window', 'passage'] as const;
+const DEFAULT_OPENING_HEIGHT_M: Record<(typeof OPENING_TYPES)[number], number> = { door: 2, 'sliding-door': 2, window: 1.2, passage: 2 };
 
-const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
-  status,
-  headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
-});
+const RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    detectedDoorCount: { type: 'number' },
+    scaleSource: { type: 'string', enum: ['explicit-dimension', 'door-width', 'unknown'] },
+    scaleEvidence: { type: 'string' },
+    confidence: { type: 'string', enum: ['low', 'medium', 'high'] },
+    assumptionJa: { type: 'string' },
+    assumptionEn: { type: 'string' },
+    rooms: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' }, nameJa: { type: 'string' }, nameEn: { type: 'string' },
+          roomType: { type: 'string', enum: ['kitchen', 'living', 'dining', 'bathroom', 'bedroom', 'custom'] },
+          polygon: { type: 'array', items: { type: 'object', properties: { x: { type: 'number' }, y: { type: 'number' } }, required: ['x', 'y'] } },
+          floorAreaM2: { type: 'number' }, netWallAreaM2: { type: 'number' }, ceilingAreaM2: { type: 'number' },
+          roomWidthM: { type: 'number' }, roomDepthM: { type: 'number' }, perimeterM: { type: 'number' },
+          confidence: { type: 'string', enum: ['low', 'medium', 'high'] },
+        },
+        required: ['id', 'nameJa', 'nameEn', 'roomType', 'polygon', 'floorAreaM2', 'netWallAreaM2', 'ceilingAreaM2', 'roomWidthM', 'roomDepthM', 'perimeterM', 'confidence'],
+      },
+    },
+    openings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: [...OPENING_TYPES] },
+          x: { type: 'number' }, y: { type: 'number' },
+          orientation: { type: 'string', enum: ['horizontal', 'vertical'] },
+          widthM: { type: 'number' }, heightM: { type: 'number' },
+          roomIds: { type: 'array', items: { type: 'string' } },
+          hinge: { type: 'string', enum: ['start', 'end', 'none'] },
+          swingRoomId: { type: 'string' },
+        },
+        required: ['type', 'x', 'y', 'orientation', 'widthM', 'roomIds', 'hinge', 'swingRoomId'],
+      },
+    },
+    walls: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          x1: { type: 'number' }, y1: { type: 'number' }, x2: { type: 'number' }, y2: { type: 'number' },
+          thicknessM: { type: 'number' },
+          exterior: { type: 'boolean' },
+        },
+        required: ['x1', 'y1', 'x2', 'y2', 'thicknessM', 'exterior'],
+      },
+    },
+    dimensions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: ['dimension', 'scale-bar'] },
+          text: { type: 'string' },
+          lengthM: { type: 'number' },
+          x1: { type: 'number' }, y1: { type: 'number' }, x2: { type: 'number' }, y2: { type: 'number' },
+        },
+        required: ['kind', 'text', 'lengthM', 'x1', 'y1', 'x2', 'y2'],
+      },
+    },
+  },
+  required: ['detectedDoorCount', 'scaleSource', 'scaleEvidence', 'confidence', 'assumptionJa', 'assumptionEn', 'rooms', 'openings', 'walls', 'dimensions'],
+};
 
 const finiteInRange = (value: unknown, min: number, max: number, precision = 1) => {
   const number = Number(value);
@@ -40,6 +112,18 @@ const selfIntersects = (polygon: Point[]) => polygon.some((point, index) => {
   });
 });
 
+/** Where a tile of a larger plan sits, in percent of the full sheet. */
+const parseTile = (tile: any) => {
+  const count = finiteInRange(tile?.count, 1, MAX_TILES, 0);
+  const index = finiteInRange(tile?.index, 0, MAX_TILES - 1, 0);
+  const x = finiteInRange(tile?.x, 0, 100);
+  const y = finiteInRange(tile?.y, 0, 100);
+  const width = finiteInRange(tile?.width, 1, 100);
+  const height = finiteInRange(tile?.height, 1, 100);
+  if (count === undefined || index === undefined || index >= count || x === undefined || y === undefined || !width || !height) return undefined;
+  return { index, count, x, y, width, height };
+};
+
 const validatedConfidence = (confidence: unknown, issueCount: number, scaleSource: string) => {
   const rank = confidence === 'high' ? 2 : confidence === 'medium' ? 1 : 0;
   const scaleCap = scaleSource === 'explicit-dimension' ? 2 : scaleSource === 'door-width' ? 1 : 0;
@@ -48,17 +132,24 @@ const validatedConfidence = (confidence: unknown, issueCount: number, scaleSourc
 };
 
 export const POST: APIRoute = async ({ request }) => {
-  if (!GOOGLE_API_KEY) return json({ error: 'GOOGLE_API_KEY is not configured on the server.' }, 503);
-
   try {
+    const provider = getAiProvider();
     const body = await request.json();
     const floorplan = typeof body.floorplan === 'string' ? body.floorplan : '';
     const standardDoorWidthM = finiteInRange(body.standardDoorWidthM, 0.6, 1.2, 2) || 0.8;
     if (!floorplan || floorplan.length > MAX_IMAGE_LENGTH) return json({ error: 'The floorplan image is too large after downscaling. Try a smaller file.' }, 400);
-    const match = floorplan.match(/^data:(image\/(?:png|jpeg));base64,(.+)$/);
-    if (!match) return json({ error: 'The floorplan must be a PNG or JPEG data URL.' }, 400);
+    const image = parseImageDataUrl(floorplan);
+    if (!image) return json({ error: 'The floorplan must be a PNG or JPEG data URL.' }, 400);
+    const tile = body.tile === undefined ? undefined : parseTile(body.tile);
+    if (body.tile !== undefined && !tile) return json({ error: 'The tile must give its index, count, and position within the plan.' }, 400);
+    const tileContext = tile ? `This image is tile ${tile.index + 1} of ${tile.count}, cut with overlap from a larger plan. It covers ${tile.x}–${Math.round((tile.x + tile.width) * 10) / 10}% of the sheet width and ${tile.y}–${Math.round((tile.y + tile.height) * 10) / 10}% of its height.
+- Give every coordinate normalized to this tile image, not to the full sheet.
+- For rooms and walls cut by the tile edge, return only the visible part and let the polygon or segment follow the tile edge. Report the areas and extents of that visible part.
+- Skip openings and dimension strings that are cut by the tile edge; a neighbouring tile shows them whole.
+
+` : '';
 
-    const prompt = `Analyze this residential architectural floorplan and produce a room-by-room finish takeoff.
+    const prompt = `${tileContext}Analyze this residential architectural floorplan and produce a room-by-room finish takeoff.
 
 Scale method:
 - First use any explicit written dimensions or scale bar visible in the drawing.
@@ -73,68 +164,50 @@ For every enclosed, finishable interior room (including corridors and closets wh
 4. Estimate netWallAreaM2 using a 2.4 m ceiling height, subtracting visible doors and windows.
 5. Return confidence as high, medium, or low.
 
+List every door, sliding door, window, and doorless passage as an opening:
+1. type: door for hinged doors (drawn with a swing arc), sliding-door, window, or passage for an opening without a door leaf.
+2. x and y: the centre of the opening in the same normalized coordinates as the room polygons; orientation: horizontal or vertical, matching the wall it sits in.
+3. widthM: clear width in metres at the detected scale; heightM only when the drawing states it.
+4. roomIds: the id of every room the opening belongs to — two for an opening between rooms, one for an exterior door or window.
+5. For hinged doors, hinge: start when the hinge is at the left (horizontal wall) or top (vertical wall) jamb, otherwise end; swingRoomId: the room the leaf swings into, or an empty string when it swings outside. Use none and an empty string for every other type.
+
+Trace every wall as straight centerline segments:
+1. x1, y1, x2, y2: the two ends of the centerline in the same normalized coordinates. Run each segment through door and window openings rather than breaking it there.
+2. Split a wall where another wall meets it, and give segments that meet exactly the same end point.
+3. thicknessM: wall thickness in metres at the detected scale.
+4. exterior: true for walls on the building envelope, false for partitions between rooms.
+
+List every legible dimension string and scale bar as a dimension:
+1. kind: dimension for a written measurement, scale-bar for a drawn scale bar.
+2. text: the label exactly as printed, for example 3,640 or 5.46m or 2間.
+3. lengthM: the same length in metres. Millimetre values become metres (3,640 → 3.64); 1 間 is 1.82 m and 1 尺 is 0.303 m.
+4. x1, y1, x2, y2: the two ends the dimension measures (the extension lines or the ends of the scale bar), in the same normalized coordinates.
+Return an empty list when no dimension is legible; never invent one.
+
 Keep floor and ceiling areas internally consistent. Avoid double-counting open-plan zones; separate them only when the drawing clearly labels functional areas. State that all measurements are estimates requiring site verification. Return only the requested structured result.`;
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 60_000);
-    let apiResponse: Response;
-    try {
-      apiResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(MODEL)}:generateContent`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': GOOGLE_API_KEY },
-        body: JSON.stringify({
-          contents: [{ role: 'user', parts: [{ text: prompt }, { inlineData: { mimeType: match[1], data: match[2] } }] }],
-          generationConfig: {
-            temperature: 0.1,
-            responseMimeType: 'application/json',
-            responseSchema: {
-              type: 'object',
-              properties: {
-                detectedDoorCount: { type: 'number' },
-                scaleSource: { type: 'string', enum: ['explicit-dimension', 'door-width', 'unknown'] },
-                scaleEvidence: { type: 'string' },
-                confidence: { type: 'string', enum: ['low', 'medium', 'high'] },
-                assumptionJa: { type: 'string' },
-                assumptionEn: { type: 'string' },
-                rooms: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      id: { type: 'string' }, nameJa: { type: 'string' }, nameEn: { type: 'string' },
-                      roomType: { type: 'string', enum: ['kitchen', 'living', 'dining', 'bathroom', 'bedroom', 'custom'] },
-                      polygon: { type: 'array', items: { type: 'object', properties: { x: { type: 'number' }, y: { type: 'number' } }, required: ['x', 'y'] } },
-                      floorAreaM2: { type: 'number' }, netWallAreaM2: { type: 'number' }, ceilingAreaM2: { type: 'number' },
-                      roomWidthM: { type: 'number' }, roomDepthM: { type: 'number' }, perimeterM: { type: 'number' },
-                      confidence: { type: 'string', enum: ['low', 'medium', 'high'] },
-                    },
-                    required: ['id', 'nameJa', 'nameEn', 'roomType', 'polygon', 'floorAreaM2', 'netWallAreaM2', 'ceilingAreaM2', 'roomWidthM', 'roomDepthM', 'perimeterM', 'confidence'],
-                  },
-                },
-              },
-              required: ['detectedDoorCount', 'scaleSource', 'scaleEvidence', 'confidence', 'assumptionJa', 'assumptionEn', 'rooms'],
-            },
-          },
-        }),
-        signal: controller.signal,
-      });
-    } finally {
-      clearTimeout(timeout);
-    }
-
-    const payload = await apiResponse.json();
-    if (!apiResponse.ok) return json({ error: payload?.error?.message || `Gemini returned ${apiResponse.status}.` }, apiResponse.status);
-    const responseText = payload?.candidates?.[0]?.content?.parts?.map((part: { text?: string }) => part.text).filter(Boolean).join('') || '';
+    const responseText = await provider.generateJson({
+      task: 'analyze-floorplan',
+      promptVersion: PROMPT_VERSION,
+      prompt,
+      images: [image],
+      temperature: 0.1,
+      timeoutMs: 60_000,
+      responseSchema: RESPONSE_SCHEMA,
+      forceRegenerate: body.forceRegenerate === true,
+    });
     if (!responseText) return json({ error: 'Gemini did not return a floorplan analysis.' }, 502);
     const parsed = JSON.parse(responseText);
 
     const scaleSource = ['explicit-dimension', 'door-width', 'unknown'].includes(parsed.scaleSource) ? parsed.scaleSource : 'unknown';
     const usedIds = new Set<string>();
+    const modelIds = new Map<string, string>();
     const rooms = (Array.isArray(parsed.rooms) ? parsed.rooms : []).slice(0, 30).map((room: any, index: number) => {
       const polygon = (Array.isArray(room.polygon) ? room.polygon : []).slice(0, 12).map(safePoint).filter(Boolean) as Point[];
       const baseId = String(room.id || `room-${index + 1}`).replace(/[^a-zA-Z0-9_-]/g, '-').slice(0, 48) || `room-${index + 1}`;
       const id = usedIds.has(baseId) ? `${baseId}-${index + 1}` : baseId;
       usedIds.add(id);
+      if (room.id && !modelIds.has(String(room.id))) modelIds.set(String(room.id), id);
       const floorAreaM2 = finiteInRange(room.floorAreaM2, 0.5, 500);
       const netWallAreaM2 = finiteInRange(room.netWallAreaM2, 1, 1500);
       const ceilingAreaM2 = finiteInRange(room.ceilingAreaM2, 0.5, 500);
@@ -149,7 +222,6 @@ Keep floor and ceiling areas internally consistent. Avoid double-counting open-p
         const rectangularArea = roomWidthM * roomDepthM;
         if (floorAreaM2 > rectangularArea * 1.15 || floorAreaM2 < rectangularArea * 0.2) validationIssues.push('Area is inconsistent with the reported room extents.');
       }
-      if (netWallAreaM2 && perimeterM && netWallAreaM2 > perimeterM * 2.4 * 1.02) validationIssues.push('Net wall area exceeds gross wall area.');
       return {
         id,
         nameJa: String(room.nameJa || `室 ${index + 1}`).slice(0, 80),
@@ -168,25 +240,78 @@ Keep floor and ceiling areas internally consistent. Avoid double-counting open-p
     }).filter((room: any) => room.polygon.length >= 3 && room.floorAreaM2 && room.netWallAreaM2 && room.ceilingAreaM2 && room.roomWidthM && room.roomDepthM && room.perimeterM);
 
     if (!rooms.length) return json({ error: 'No complete enclosed rooms could be identified in this floorplan.' }, 422);
+
+    const roomIds = new Set<string>(rooms.map((room: any) => room.id));
+    const resolveRoomId = (value: unknown) => {
+      const id = modelIds.get(String(value || ''));
+      return id && roomIds.has(id) ? id : undefined;
+    };
+    const openings = (Array.isArray(parsed.openings) ? parsed.openings : []).slice(0, MAX_OPENINGS).flatMap((opening: any, index: number) => {
+      const center = safePoint(opening);
+      const type = OPENING_TYPES.find((candidate) => candidate === opening?.type);
+      const widthM = finiteInRange(opening?.widthM, 0.3, 6, 2);
+      const openingRoomIds = [...new Set((Array.isArray(opening?.roomIds) ? opening.roomIds : []).map(resolveRoomId).filter(Boolean) as string[])].slice(0, 2);
+      if (!center || !type || !widthM || !openingRoomIds.length) return [];
+      const hinged = type === 'door';
+      return [{
+        id: `opening-${index + 1}`,
+        type,
+        center,
+        orientation: opening.orientation === 'vertical' ? 'vertical' : 'horizontal',
+        widthM,
+        heightM: finiteInRange(opening.heightM, 0.3, CEILING_HEIGHT_M, 2) || DEFAULT_OPENING_HEIGHT_M[type],
+        roomIds: openingRoomIds,
+        hinge: hinged ? opening.hinge === 'end' ? 'end' : 'start' : undefined,
+        swingRoomId: hinged ? resolveRoomId(opening.swingRoomId) : undefined,
+      }];
+    });
+    const walls = (Array.isArray(parsed.walls) ? parsed.walls : []).slice(0, MAX_WALLS).flatMap((wall: any, index: number) => {
+      const start = safePoint({ x: wall?.x1, y: wall?.y1 });
+      const end = safePoint({ x: wall?.x2, y: wall?.y2 });
+      if (!start || !end || Math.hypot(end.x - start.x, end.y - start.y) < MIN_WALL_LENGTH) return [];
+      const exterior = wall.exterior === true;
+      return [{ id: `wall-${index + 1}`, start, end, thicknessM: finiteInRange(wall.thicknessM, 0.05, 0.6, 2) || (exterior ? 0.18 : 0.12), exterior }];
+    });
+    const dimensions = (Array.isArray(parsed.dimensions) ? parsed.dimensions : []).slice(0, MAX_DIMENSIONS).flatMap((dimension: any, index: number) => {
+      const start = safePoint({ x: dimension?.x1, y: dimension?.y1 });
+      const end = safePoint({ x: dimension?.x2, y: dimension?.y2 });
+      const lengthM = finiteInRange(dimension?.lengthM, 0.1, 100, 3);
+      const text = String(dimension?.text || '').trim().slice(0, 40);
+      if (!start || !end || !lengthM || !text || Math.hypot(end.x - start.x, end.y - start.y) < MIN_WALL_LENGTH) return [];
+      return [{ id: `dimension-${index + 1}`, kind: dimension.kind === 'scale-bar' ? 'scale-bar' : 'dimension', text, lengthM, start, end }];
+    });
+    // Net wall area is derived from the openings so it matches what the workspace recomputes after edits.
+    rooms.forEach((room: any) => {
+      const deducted = openings
+        .filter((opening: { roomIds: string[] }) => opening.roomIds.includes(room.id))
+        .reduce((sum: number, opening: { widthM: number; heightM: number }) => sum + opening.widthM * opening.heightM, 0);
+      room.netWallAreaM2 = Math.round(Math.max(0, room.perimeterM * CEILING_HEIGHT_M - deducted) * 10) / 10;
+    });
     return json({
       analysis: {
         rooms,
+        openings,
+        walls,
+        dimensions,
         detectedDoorCount: Math.max(0, Math.round(Number(parsed.detectedDoorCount) || 0)),
         assumedDoorWidthM: standardDoorWidthM,
         scaleSource,
         scaleEvidence: String(parsed.scaleEvidence || 'No verifiable scale evidence was returned.').slice(0, 300),
         confidence: validatedConfidence(parsed.confidence, rooms.reduce((sum: number, room: any) => sum + room.validationIssues.length, 0), scaleSource),
-        validationIssues: rooms.flatMap((room: any) => room.validationIssues.map((issue: string) => `${room.nameEn}: ${issue}`)),
+        validationIssues: [
+          ...rooms.flatMap((room: any) => room.validationIssues.map((issue: string) => `${room.nameEn}: ${issue}`)),
+          ...walls.length ? [] : ['No wall centerlines were returned; shared walls cannot be resolved.'],
+        ],
         measurementStatus: 'unverified-ai-estimate',
         assumptionJa: String(parsed.assumptionJa || `ドア幅${standardDoorWidthM}mを基準にした概算です。現場採寸で確認してください。`).slice(0, 400),
         assumptionEn: String(parsed.assumptionEn || `Estimated using a ${standardDoorWidthM} m door-width reference. Verify with site measurements.`).slice(0, 400),
       },
-      model: MODEL,
+      ...tile ? { tile } : {},
+      model: provider.visionModel,
       promptVersion: PROMPT_VERSION,
       measurementType: 'ai-floorplan-door-scale-estimate',
     });
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') return json({ error: 'Floorplan analysis timed out after 60 seconds.' }, 504);
-    return json({ error: error instanceof Error ? error.message : 'Unexpected floorplan-analysis error.' }, 500);
+    return aiErrorResponse(error, 'Floorplan analysis timed out after 60 seconds.', 'Unexpected floorplan-analysis error.');
   }
 };
@@ -0,0 +1,56 @@
+import type { APIRoute } from 'astro';
+import { aiErrorResponse, json } from '../../lib/ai/http';
+import { getAiProvider } from '../../lib/ai/provider';
+
+const PROMPT_VERSION = 'interior-refinement-check-v1';
+
+const RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    contradictsSchedule: { type: 'boolean' },
+    conflicts: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['contradictsSchedule', 'conflicts'],
+};
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    const provider = getAiProvider();
+    const body = await request.json();
+    const instruction = String(body.instruction || '').trim().slice(0, 400);
+    if (!instruction) return json({ error: 'A refinement instruction is required.' }, 400);
+    const items = Array.isArray(body.items) ? body.items.slice(0, 30).map((item: unknown) => String(item).slice(0, 180)) : [];
+    const prompt = `A salesperson is refining an AI interior preview with a follow-up instruction. The finish schedule below is the agreed source of truth for the room.
+
+FINISH SCHEDULE:
+${items.map((item: string, index: number) => `${index + 1}. ${item}`).join('\n') || 'No schedule supplied.'}
+
+FOLLOW-UP INSTRUCTION: ${instruction}
+
+Decide whether carrying out the instruction would make the image disagree with the schedule: changing the colour, material, pattern, or finish of a scheduled item, replacing it, or removing it. Adjusting unscheduled objects, styling, light, or arrangement does not contradict the schedule. List one short sentence per contradicted schedule item, naming the item. Return an empty list when there is no contradiction.`;
+
+    const text = await provider.generateJson({
+      task: 'check-interior-refinement',
+      promptVersion: PROMPT_VERSION,
+      prompt,
+      images: [],
+      temperature: 0,
+      timeoutMs: 30_000,
+      responseSchema: RESPONSE_SCHEMA,
+      forceRegenerate: body.forceRegenerate === true,
+    });
+    if (!text) return json({ error: 'The model did not return a schedule check.' }, 502);
+    const parsed = JSON.parse(text);
+    const conflicts = Array.isArray(parsed.conflicts) ? parsed.conflicts.slice(0, 8).map((conflict: unknown) => String(conflict).slice(0, 180)).filter(Boolean) : [];
+    return json({
+      check: {
+        contradictsSchedule: parsed.contradictsSchedule === true || conflicts.length > 0,
+        conflicts,
+        model: provider.visionModel,
+        promptVersion: PROMPT_VERSION,
+      },
+    });
+  } catch (error) {
+    return aiErrorResponse(error, 'The schedule check timed out after 30 seconds.', 'Unexpected refinement-check error.');
+  }
+};
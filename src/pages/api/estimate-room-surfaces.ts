@@ -1,34 +1,166 @@
 import type { APIRoute } from 'astro';
+import { aiErrorResponse, json, parseImageDataUrl } from '../../lib/ai/http';
+import { getAiProvider } from '../../lib/ai/provider';
+import type { InlineImage } from '../../lib/ai/types';
 
-const GOOGLE_API_KEY = import.meta.env.GOOGLE_API_KEY;
-const MODEL = import.meta.env.GEMINI_VISION_MODEL || 'gemini-3.6-flash';
-const PROMPT_VERSION = 'photo-surface-suggestion-accuracy-v2';
+const PROMPT_VERSION = 'photo-surface-suggestion-walls-v3';
+const MULTI_PROMPT_VERSION = 'photo-surface-suggestion-multi-v2';
 const MAX_IMAGE_LENGTH = 3_400_000;
+const MAX_PHOTOS = 6;
+const MAX_MULTI_IMAGE_LENGTH = 700_000;
+const LOW_AGREEMENT_SCORE = 60;
+const MAX_WALLS = 12;
+const MAX_OPENINGS_PER_WALL = 8;
+const WALL_TOTAL_TOLERANCE = 0.1;
+
+const RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    floorAreaM2: { type: 'number' },
+    netWallAreaM2: { type: 'number' },
+    ceilingAreaM2: { type: 'number' },
+    roomWidthM: { type: 'number' },
+    roomDepthM: { type: 'number' },
+    ceilingHeightM: { type: 'number' },
+    confidence: { type: 'string', enum: ['low', 'medium', 'high'] },
+    assumptionJa: { type: 'string' },
+    assumptionEn: { type: 'string' },
+    walls: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          nameJa: { type: 'string' },
+          nameEn: { type: 'string' },
+          lengthM: { type: 'number' },
+          heightM: { type: 'number' },
+          grossAreaM2: { type: 'number' },
+          openings: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                type: { type: 'string', enum: ['door', 'window'] },
+                widthM: { type: 'number' },
+                heightM: { type: 'number' },
+                count: { type: 'integer' },
+              },
+              required: ['type', 'widthM', 'heightM', 'count'],
+            },
+          },
+        },
+        required: ['nameJa', 'nameEn', 'lengthM', 'heightM', 'grossAreaM2', 'openings'],
+      },
+    },
+  },
+  required: ['floorAreaM2', 'netWallAreaM2', 'ceilingAreaM2', 'roomWidthM', 'roomDepthM', 'ceilingHeightM', 'confidence', 'assumptionJa', 'assumptionEn', 'walls'],
+};
 
-const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
-  status,
-  headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
-});
+const MULTI_RESPONSE_SCHEMA = {
+  ...RESPONSE_SCHEMA,
+  properties: {
+    ...RESPONSE_SCHEMA.properties,
+    perPhoto: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          roomWidthM: { type: 'number' },
+          roomDepthM: { type: 'number' },
+          assumptionJa: { type: 'string' },
+          assumptionEn: { type: 'string' },
+        },
+        required: ['roomWidthM', 'roomDepthM', 'assumptionJa', 'assumptionEn'],
+      },
+    },
+  },
+  required: [...RESPONSE_SCHEMA.required, 'perPhoto'],
+};
 
 const finiteInRange = (value: unknown, min: number, max: number) => {
   const number = Number(value);
   return Number.isFinite(number) && number >= min && number <= max ? Math.round(number * 10) / 10 : undefined;
 };
 
-export const POST: APIRoute = async ({ request }) => {
-  if (!GOOGLE_API_KEY) return json({ error: 'GOOGLE_API_KEY is not configured on the server.' }, 503);
+/**
+ * 100 when every photo implies the reconciled floor area and perimeter; each
+ * 1% of the largest deviation costs two points. Area and perimeter are
+ * compared because width and depth may be swapped between corners.
+ */
+const agreementScore = (perPhoto: Array<{ roomWidthM: number; roomDepthM: number }>, widthM: number, depthM: number) => {
+  const area = widthM * depthM;
+  const perimeter = widthM + depthM;
+  const deviation = Math.max(...perPhoto.map((photo) => Math.max(
+    Math.abs(photo.roomWidthM * photo.roomDepthM - area) / area,
+    Math.abs(photo.roomWidthM + photo.roomDepthM - perimeter) / perimeter,
+  )));
+  return Math.max(0, Math.round(100 - deviation * 200));
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/** Net areas are recomputed from the openings rather than trusted from the model. */
+const parseWalls = (value: unknown) => (Array.isArray(value) ? value : []).slice(0, MAX_WALLS).flatMap((wall: any) => {
+  const lengthM = finiteInRange(wall?.lengthM, 0.3, 30);
+  const heightM = finiteInRange(wall?.heightM, 2, 5);
+  const grossAreaM2 = finiteInRange(wall?.grossAreaM2, 0.5, 150);
+  if (!lengthM || !heightM || !grossAreaM2) return [];
+  const openings = (Array.isArray(wall.openings) ? wall.openings : []).slice(0, MAX_OPENINGS_PER_WALL).flatMap((opening: any) => {
+    const widthM = finiteInRange(opening?.widthM, 0.3, 10);
+    const openingHeightM = finiteInRange(opening?.heightM, 0.3, 5);
+    const count = Math.round(Number(opening?.count) || 1);
+    if (!['door', 'window'].includes(opening?.type) || !widthM || !openingHeightM || count < 1 || count > 10) return [];
+    return [{ type: opening.type as 'door' | 'window', widthM, heightM: openingHeightM, count }];
+  });
+  const openingAreaM2 = openings.reduce((sum: number, opening: { widthM: number; heightM: number; count: number }) => sum + opening.widthM * opening.heightM * opening.count, 0);
+  return [{
+    nameJa: String(wall.nameJa || '').slice(0, 40),
+    nameEn: String(wall.nameEn || '').slice(0, 60),
+    lengthM,
+    heightM,
+    grossAreaM2,
+    openings,
+    netAreaM2: round1(Math.max(0, grossAreaM2 - openingAreaM2)),
+  }];
+});
 
+export const POST: APIRoute = async ({ request }) => {
+  let timeoutSeconds = 60;
   try {
+    const provider = getAiProvider();
     const body = await request.json();
-    const sourcePhoto = typeof body.sourcePhoto === 'string' ? body.sourcePhoto : '';
+    const sourcePhotos: unknown[] = Array.isArray(body.sourcePhotos) ? body.sourcePhotos : body.sourcePhoto ? [body.sourcePhoto] : [];
     const room = String(body.room || 'residential room').slice(0, 120);
     const assumedCeilingHeight = finiteInRange(body.assumedCeilingHeight, 2, 5) || 2.4;
 
-    if (!sourcePhoto || sourcePhoto.length > MAX_IMAGE_LENGTH) return json({ error: 'The room photo is too large after downscaling. Try a smaller file.' }, 400);
-    const match = sourcePhoto.match(/^data:(image\/(?:png|jpeg));base64,(.+)$/);
-    if (!match) return json({ error: 'The room photo must be a PNG or JPEG data URL.' }, 400);
+    if (!sourcePhotos.length) return json({ error: 'A room photo is required.' }, 400);
+    if (sourcePhotos.length > MAX_PHOTOS) return json({ error: `Send between 1 and ${MAX_PHOTOS} photos of the room.` }, 400);
+    if (sourcePhotos.some((photo) => typeof photo !== 'string' || !photo)) return json({ error: 'Each room photo must be a PNG or JPEG data URL.' }, 400);
+    const multiPhoto = sourcePhotos.length > 1;
+    if (multiPhoto) timeoutSeconds = 90;
+    const promptVersion = multiPhoto ? MULTI_PROMPT_VERSION : PROMPT_VERSION;
+    const maxLength = multiPhoto ? MAX_MULTI_IMAGE_LENGTH : MAX_IMAGE_LENGTH;
+    if (sourcePhotos.some((photo) => (photo as string).length > maxLength)) return json({ error: 'A room photo is too large after downscaling. Try a smaller file.' }, 400);
+    const images = sourcePhotos.map((photo) => parseImageDataUrl(photo as string));
+    if (images.some((image) => !image)) return json({ error: 'Each room photo must be a PNG or JPEG data URL.' }, 400);
+
+    const prompt = multiPhoto ? `Estimate finish quantities for one residential room photographed from ${images.length} different positions. All ${images.length} images show the same room.
+
+Room type: ${room}
+Assumed ceiling height used as the scale anchor: ${assumedCeilingHeight} metres.
+
+Match walls, doors, windows, and fixed furniture across the photos so that each wall is measured from the view that shows it best, including the side that is behind the camera in another photo. Reconcile the views into one room and estimate:
+1. floorAreaM2: full floor finish area;
+2. ceilingAreaM2: full ceiling finish area;
+3. netWallAreaM2: total paint/wallpaper area for all room walls after roughly subtracting doors and windows;
+4. roomWidthM and roomDepthM of the reconciled room;
+5. ceilingHeightM, which should normally equal the supplied anchor;
+6. confidence: high, medium, or low;
+7. short reconciled assumptions in Japanese and English;
+8. walls: every wall of the room once, going around the room, with a short name in Japanese and English that lets the customer recognise it (for example "窓側の壁" / "Window wall"), its lengthM, heightM, grossAreaM2 (length × height), and the doors and windows in it (type, widthM, heightM, count);
+9. perPhoto: exactly one entry per image, in input order, with the roomWidthM and roomDepthM that image alone suggests (using the same width and depth axes as the reconciled room) and one short sentence in Japanese and English saying what that image shows and what it had to assume.
 
-    const prompt = `Estimate finish quantities for the single residential room visible in this photograph.
+Do not claim measurement accuracy. Do not force the per-photo values to agree; they are used to measure how well the views agree. Floor and ceiling area should normally be approximately width × depth. Wall area should normally be perimeter × height minus openings, and the wall lengths should add up to the perimeter. Return only the requested structured result.` : `Estimate finish quantities for the single residential room visible in this photograph.
 
 Room type: ${room}
 Assumed ceiling height used as the scale anchor: ${assumedCeilingHeight} metres.
@@ -40,55 +172,21 @@ Infer a plausible full-room width and depth from perspective, doors, windows, ca
 4. roomWidthM and roomDepthM;
 5. ceilingHeightM, which should normally equal the supplied anchor;
 6. confidence: high, medium, or low;
-7. short assumptions in Japanese and English.
-
-Do not claim measurement accuracy. Prefer conservative, internally consistent values. Floor and ceiling area should normally be approximately width × depth. Wall area should normally be perimeter × height minus openings. Return only the requested structured result.`;
-
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 60_000);
-    let apiResponse: Response;
-    try {
-      apiResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(MODEL)}:generateContent`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': GOOGLE_API_KEY },
-        body: JSON.stringify({
-          contents: [{
-            role: 'user',
-            parts: [
-              { text: prompt },
-              { inlineData: { mimeType: match[1], data: match[2] } },
-            ],
-          }],
-          generationConfig: {
-            temperature: 0.2,
-            responseMimeType: 'application/json',
-            responseSchema: {
-              type: 'object',
-              properties: {
-                floorAreaM2: { type: 'number' },
-                netWallAreaM2: { type: 'number' },
-                ceilingAreaM2: { type: 'number' },
-                roomWidthM: { type: 'number' },
-                roomDepthM: { type: 'number' },
-                ceilingHeightM: { type: 'number' },
-                confidence: { type: 'string', enum: ['low', 'medium', 'high'] },
-                assumptionJa: { type: 'string' },
-                assumptionEn: { type: 'string' },
-              },
-              required: ['floorAreaM2', 'netWallAreaM2', 'ceilingAreaM2', 'roomWidthM', 'roomDepthM', 'ceilingHeightM', 'confidence', 'assumptionJa', 'assumptionEn'],
-            },
-          },
-        }),
-        signal: controller.signal,
-      });
-    } finally {
-      clearTimeout(timeout);
-    }
-
-    const payload = await apiResponse.json();
-    if (!apiResponse.ok) return json({ error: payload?.error?.message || `Gemini returned ${apiResponse.status}.` }, apiResponse.status);
-
-    const responseText = payload?.candidates?.[0]?.content?.parts?.map((part: { text?: string }) => part.text).filter(Boolean).join('') || '';
+7. short assumptions in Japanese and English;
+8. walls: every wall of the room once, going around the room, with a short name in Japanese and English that lets the customer recognise it (for example "窓側の壁" / "Window wall"), its lengthM, heightM, grossAreaM2 (length × height), and the doors and windows in it (type, widthM, heightM, count). Walls not visible in the photo still need an entry based on the inferred room.
+
+Do not claim measurement accuracy. Prefer conservative, internally consistent values. Floor and ceiling area should normally be approximately width × depth. Wall area should normally be perimeter × height minus openings, and the wall lengths should add up to the perimeter. Return only the requested structured result.`;
+
+    const responseText = await provider.generateJson({
+      task: 'estimate-room-surfaces',
+      promptVersion,
+      prompt,
+      images: images as InlineImage[],
+      temperature: 0.2,
+      timeoutMs: timeoutSeconds * 1000,
+      responseSchema: multiPhoto ? MULTI_RESPONSE_SCHEMA : RESPONSE_SCHEMA,
+      forceRegenerate: body.forceRegenerate === true,
+    });
     if (!responseText) return json({ error: 'Gemini did not return a surface estimate.' }, 502);
 
     const parsed = JSON.parse(responseText);
@@ -104,6 +202,10 @@ Do not claim measurement accuracy. Prefer conservative, internally consistent va
       assumptionEn: String(parsed.assumptionEn || 'Approximation based on the photo and assumed ceiling height.').slice(0, 300),
       validationIssues: [] as string[],
       measurementStatus: 'unverified-ai-suggestion',
+      photoCount: images.length,
+      walls: parseWalls(parsed.walls),
+      perPhoto: undefined as Array<{ roomWidthM: number; roomDepthM: number; assumptionJa: string; assumptionEn: string }> | undefined,
+      agreementScore: undefined as number | undefined,
     };
 
     if (!estimate.floorAreaM2 || !estimate.netWallAreaM2 || !estimate.ceilingAreaM2 || !estimate.roomWidthM || !estimate.roomDepthM || !estimate.ceilingHeightM) {
@@ -115,11 +217,33 @@ Do not claim measurement accuracy. Prefer conservative, internally consistent va
     if (estimate.floorAreaM2 > rectangularArea * 1.15 || estimate.floorAreaM2 < rectangularArea * 0.55) estimate.validationIssues.push('Floor area is inconsistent with the reported room dimensions.');
     const grossWallArea = 2 * (estimate.roomWidthM + estimate.roomDepthM) * estimate.ceilingHeightM;
     if (estimate.netWallAreaM2 > grossWallArea) estimate.validationIssues.push('Net wall area exceeds the calculated gross wall area.');
+    if (estimate.walls.length) {
+      const outside = (value: number, target: number) => Math.abs(value - target) / target > WALL_TOTAL_TOLERANCE;
+      if (estimate.walls.some((wall) => outside(wall.grossAreaM2, wall.lengthM * wall.heightM))) estimate.validationIssues.push('A wall area does not match its length × height.');
+      if (outside(estimate.walls.reduce((sum, wall) => sum + wall.lengthM, 0), 2 * (estimate.roomWidthM + estimate.roomDepthM))) estimate.validationIssues.push('Wall lengths do not add up to the room perimeter.');
+      if (outside(estimate.walls.reduce((sum, wall) => sum + wall.netAreaM2, 0), estimate.netWallAreaM2)) estimate.validationIssues.push('Per-wall net areas do not add up to the net wall area.');
+    } else {
+      estimate.validationIssues.push('The estimate has no per-wall breakdown.');
+    }
+    if (multiPhoto) {
+      const perPhoto = (Array.isArray(parsed.perPhoto) ? parsed.perPhoto : []).slice(0, images.length).map((photo: any) => ({
+        roomWidthM: finiteInRange(photo?.roomWidthM, 1, 30),
+        roomDepthM: finiteInRange(photo?.roomDepthM, 1, 30),
+        assumptionJa: String(photo?.assumptionJa || '').slice(0, 200),
+        assumptionEn: String(photo?.assumptionEn || '').slice(0, 200),
+      }));
+      const complete = perPhoto.filter((photo: { roomWidthM?: number; roomDepthM?: number }) => photo.roomWidthM && photo.roomDepthM);
+      if (complete.length < images.length) estimate.validationIssues.push('Some photos are missing a per-photo size estimate.');
+      estimate.perPhoto = perPhoto;
+      if (complete.length) {
+        estimate.agreementScore = agreementScore(complete, estimate.roomWidthM, estimate.roomDepthM);
+        if (estimate.agreementScore < LOW_AGREEMENT_SCORE) estimate.validationIssues.push('The photos disagree on the room size.');
+      }
+    }
     estimate.confidence = estimate.validationIssues.length ? 'low' : estimate.confidence === 'low' ? 'low' : 'medium';
 
-    return json({ estimate, model: MODEL, promptVersion: PROMPT_VERSION, measurementType: 'ai-photo-estimate' });
+    return json({ estimate, model: provider.visionModel, promptVersion, measurementType: 'ai-photo-estimate' });
   } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') return json({ error: 'Surface estimation timed out after 60 seconds.' }, 504);
-    return json({ error: error instanceof Error ? error.message : 'Unexpected surface-estimation error.' }, 500);
+    return aiErrorResponse(error, `Surface estimation timed out after ${timeoutSeconds} seconds.`, 'Unexpected surface-estimation error.');
   }
 };
@@ -0,0 +1,15 @@
+import type { APIRoute } from 'astro';
+import { json } from '../../../lib/ai/http';
+import { cancelRenderJob, getRenderJob, renderJobView } from '../../../lib/renders/jobs';
+
+const NOT_FOUND = 'This render job no longer exists. It may have expired or the server restarted.';
+
+export const GET: APIRoute = ({ params }) => {
+  const job = getRenderJob(params.id || '');
+  return job ? json({ job: renderJobView(job) }) : json({ error: NOT_FOUND }, 404);
+};
+
+export const DELETE: APIRoute = ({ params }) => {
+  const job = cancelRenderJob(params.id || '');
+  return job ? json({ job: renderJobView(job) }) : json({ error: NOT_FOUND }, 404);
+};
@@ -0,0 +1,21 @@
+import type { APIRoute } from 'astro';
+import { aiErrorResponse, json } from '../../../lib/ai/http';
+import { getAiProvider } from '../../../lib/ai/provider';
+import { backgroundJobsAvailable, RENDER_DEFINITIONS, renderJobView, runRenderJobInline, startRenderJob } from '../../../lib/renders/jobs';
+import type { RenderKind } from '../../../lib/renders/render';
+
+export const POST: APIRoute = async ({ request }) => {
+  try {
+    getAiProvider();
+    const body = await request.json();
+    const kind = String(body.kind || '') as RenderKind;
+    if (!(kind in RENDER_DEFINITIONS)) return json({ error: 'Choose a valid render job kind.' }, 400);
+    const prepared = RENDER_DEFINITIONS[kind].prepare(body.input || {});
+    // Without background jobs the response is the finished job, which the client applies without polling.
+    if (!backgroundJobsAvailable()) return json({ job: renderJobView(await runRenderJobInline(kind, prepared, request.signal)) });
+    const job = startRenderJob(kind, prepared);
+    return json({ job: renderJobView(job) }, 202);
+  } catch (error) {
+    return aiErrorResponse(error, 'The render job could not be started in time.', 'Unexpected render-job error.');
+  }
+};